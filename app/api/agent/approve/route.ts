@@ -1,73 +1,189 @@
 // 代码修改审批 API
 import { NextRequest, NextResponse } from 'next/server';
-import fs from 'fs/promises';
-import path from 'path';
-import { checkpointStore } from '@/lib/agent/checkpoints';
+import { checkpointStore, applyCheckpointWrites, commitCheckpoints, CheckpointWrite } from '@/lib/agent/checkpoints';
+import { commandApprovals } from '@/lib/agent/command-runner';
 import { workflowManager } from '@/lib/agent/workflow';
+import { isVerificationEnabled, verifyFiles } from '@/lib/agent/verification';
+import { CodeCheckpoint } from '@/lib/agent/types';
+import { getWorkspacePath, WorkspacePathError } from '@/lib/workspace/paths';
+import { getIndexer } from '@/lib/codebase/indexer';
 
 export const runtime = 'nodejs';
 
+// 修复换行符
+function fixLineEndings(content: string) {
+  return content.replace(/\\r\\n/g, '\r\n').replace(/\\n/g, '\n');
+}
+
+/**
+ * POST /api/agent/approve
+ * 单个文件：{ sessionId, checkpointId, approved, content? }
+ * 整个变更集：{ sessionId, changeSetId, approved, contents?: { [checkpointId]: string } }
+ * 命令：{ sessionId, commandId, approved }
+ */
 export async function POST(request: NextRequest) {
   try {
-    const { sessionId, filePath, content, approved, checkpointId } = await request.json();
+    const {
+      sessionId,
+      filePath,
+      content,
+      contents,
+      approved,
+      checkpointId,
+      changeSetId,
+      commandId,
+      reason,
+    } = await request.json();
 
-    if (!sessionId || !filePath || !checkpointId) {
-      return NextResponse.json(
-        { error: 'Missing required fields' },
-        { status: 400 }
-      );
+    // 命令审批：只需要唤醒等待中的执行器，由执行器执行命令
+    if (sessionId && commandId) {
+      const approval = commandApprovals.get(commandId);
+      if (!approval || approval.sessionId !== sessionId) {
+        return NextResponse.json(
+          { error: 'Command approval not found' },
+          { status: 404 }
+        );
+      }
+      if (approval.status !== 'pending') {
+        return NextResponse.json(
+          { error: `Command already ${approval.status}` },
+          { status: 409 }
+        );
+      }
+      commandApprovals.resolveDecision(commandId, approved
+        ? { status: 'approved' }
+        : { status: 'rejected', reason: reason || '用户拒绝执行命令' });
+      return NextResponse.json({
+        success: true,
+        message: approved ? 'Command approved' : 'Command rejected',
+      });
     }
 
-    const checkpoint = checkpointStore.get(checkpointId);
-    if (!checkpoint) {
+    if (!sessionId || (!checkpointId && !changeSetId) || (checkpointId && !filePath)) {
       return NextResponse.json(
-        { error: 'Checkpoint not found' },
-        { status: 404 }
+        { error: 'Missing required fields' },
+        { status: 400 }
       );
     }
 
-    if (!approved) {
-      checkpointStore.updateStatus(checkpointId, 'rejected');
-      workflowManager.rejectByCheckpoint(sessionId, checkpointId, '用户拒绝修改');
-      return NextResponse.json({ success: true, message: 'Change rejected' });
+    let targets: CodeCheckpoint[];
+    if (changeSetId) {
+      if (checkpointStore.getChangeSet(changeSetId)?.sessionId !== sessionId) {
+        return NextResponse.json(
+          { error: 'Change set not found' },
+          { status: 404 }
+        );
+      }
+      // 只处理变更集中尚未审批的文件
+      targets = checkpointStore
+        .getChangeSetCheckpoints(changeSetId)
+        .filter(cp => cp.status === 'pending');
+    } else {
+      const checkpoint = checkpointStore.get(checkpointId);
+      if (!checkpoint || checkpoint.sessionId !== sessionId) {
+        return NextResponse.json(
+          { error: 'Checkpoint not found' },
+          { status: 404 }
+        );
+      }
+      if (checkpoint.status !== 'pending') {
+        return NextResponse.json(
+          { error: `Checkpoint already ${checkpoint.status}` },
+          { status: 409 }
+        );
+      }
+      targets = [checkpoint];
     }
 
-    if (content === undefined) {
+    // 在第一个 await 之前占用检查点：并发的审批请求（重复点击、单个文件与整个变更集同时审批）不会重复应用和提交
+    const targetIds = targets.map(cp => cp.id);
+    if (!checkpointStore.claim(targetIds)) {
       return NextResponse.json(
-        { error: 'Missing content for approval' },
-        { status: 400 }
+        { error: 'Checkpoint is already being processed' },
+        { status: 409 }
       );
     }
-    
-    // 应用修改
-    const workspacePath = path.join(
-      process.cwd(),
-      process.env.WORKSPACE_PATH || 'workspace',
-      sessionId
-    );
-    
-    const fullPath = path.join(workspacePath, filePath);
-    
-    // 修复换行符
-    let fixedContent = content;
-    if (typeof content === 'string') {
-      fixedContent = content.replace(/\\r\\n/g, '\r\n').replace(/\\n/g, '\n');
+
+    try {
+      if (!approved) {
+        for (const cp of targets) {
+          workflowManager.rejectByCheckpoint(sessionId, cp.id, '用户拒绝修改');
+          checkpointStore.resolveDecision(cp.id, {
+            status: 'rejected',
+            reason: reason || '用户拒绝修改',
+          });
+        }
+        return NextResponse.json({ success: true, message: 'Change rejected' });
+      }
+
+      if (checkpointId && content === undefined) {
+        return NextResponse.json(
+          { error: 'Missing content for approval' },
+          { status: 400 }
+        );
+      }
+
+      // 用户只能修改 edit 检查点的内容，移动 / 删除 / 创建目录按原样执行
+      const writes: CheckpointWrite[] = targets.map(cp => {
+        const submitted = checkpointId ? content : contents?.[cp.id];
+        const finalContent = typeof submitted === 'string' && (cp.kind || 'edit') === 'edit'
+          ? fixLineEndings(submitted)
+          : cp.modifiedContent;
+        return { checkpoint: cp, content: finalContent };
+      });
+
+      // 应用修改（任意文件失败则整体回滚）
+      const workspacePath = getWorkspacePath(sessionId);
+      await applyCheckpointWrites(workspacePath, writes);
+
+      // 修改后检查：类型 / 语法错误随审批结果反馈给 Agent，并返回给编辑器显示
+      const paths = writes.map(write => write.checkpoint.filePath);
+      // 只检查修改和移动后的文件
+      const verifiedPaths = writes
+        .filter(({ checkpoint }) => checkpoint.kind !== 'delete' && checkpoint.kind !== 'mkdir')
+        .map(({ checkpoint }) => checkpoint.targetPath || checkpoint.filePath);
+      const diagnostics = isVerificationEnabled() ? await verifyFiles(workspacePath, verifiedPaths) : undefined;
+
+      // 工作空间是 git 仓库时自动提交本次应用的修改
+      const commitSha = await commitCheckpoints(workspacePath, writes.map(write => write.checkpoint));
+
+      // 已索引的工作空间增量更新改动的文件（移动同时更新源路径和目标路径）；Chroma 未启动时跳过
+      const changedPaths = writes.flatMap(({ checkpoint }) =>
+        checkpoint.targetPath ? [checkpoint.filePath, checkpoint.targetPath] : [checkpoint.filePath]);
+      getIndexer()
+        .then(indexer => indexer.notifyChanged(workspacePath, changedPaths))
+        .catch(() => {});
+
+      for (const { checkpoint, content: finalContent } of writes) {
+        workflowManager.completeByCheckpoint(sessionId, checkpoint.id);
+        // 唤醒挂起的 Agent，把实际写入的内容反馈回去
+        checkpointStore.resolveDecision(checkpoint.id, {
+          status: 'applied',
+          content: finalContent,
+          edited: finalContent !== checkpoint.modifiedContent,
+          diagnostics: diagnostics?.filter(diagnostic =>
+            diagnostic.filePath === (checkpoint.targetPath || checkpoint.filePath)),
+          ...(commitSha ? { commitSha } : {}),
+        });
+      }
+
+      return NextResponse.json({
+        success: true,
+        message: 'Changes applied successfully',
+        paths,
+        verifiedPaths,
+        ...(filePath ? { path: filePath } : {}),
+        ...(diagnostics ? { diagnostics } : {}),
+        ...(commitSha ? { commitSha } : {}),
+      });
+    } finally {
+      checkpointStore.release(targetIds);
     }
-    
-    await fs.mkdir(path.dirname(fullPath), { recursive: true });
-    await fs.writeFile(fullPath, fixedContent, 'utf-8');
-    
-    checkpointStore.updateStatus(checkpointId, 'applied');
-    workflowManager.completeByCheckpoint(sessionId, checkpointId);
-
-    return NextResponse.json({
-      success: true,
-      message: 'Changes applied successfully',
-      path: filePath,
-    });
   } catch (error: any) {
     console.error('Approval error:', error);
-    return NextResponse.json({ error: error.message }, { status: 500 });
+    return NextResponse.json(
+      { error: error.message },
+      { status: error instanceof WorkspacePathError ? error.status : 500 }
+    );
   }
 }
-
@@ -0,0 +1,29 @@
+// 取消正在运行的 Agent 执行
+import { NextRequest, NextResponse } from 'next/server';
+import { executionRegistry } from '@/lib/agent/cancellation';
+
+export const runtime = 'nodejs';
+
+export async function POST(request: NextRequest) {
+  try {
+    const { sessionId } = await request.json();
+
+    if (!sessionId) {
+      return NextResponse.json(
+        { error: 'sessionId is required' },
+        { status: 400 }
+      );
+    }
+
+    const cancelled = executionRegistry.cancel(sessionId);
+
+    return NextResponse.json({
+      success: true,
+      cancelled,
+      message: cancelled ? 'Execution cancelled' : 'No running execution',
+    });
+  } catch (error: any) {
+    console.error('Cancel error:', error);
+    return NextResponse.json({ error: error.message }, { status: 500 });
+  }
+}
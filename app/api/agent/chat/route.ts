@@ -1,23 +1,25 @@
 // Agent 聊天 API (SSE 流式响应)
 import { NextRequest } from 'next/server';
 import { AgentExecutor } from '@/lib/agent/executor';
+import { AgentPipeline } from '@/lib/agent/pipeline';
 import { createLLMClient } from '@/lib/agent/llm';
-import path from 'path';
+import { executionRegistry } from '@/lib/agent/cancellation';
+import { getWorkspacePath, WorkspacePathError } from '@/lib/workspace/paths';
 
 export const runtime = 'nodejs';
 export const dynamic = 'force-dynamic';
 
 export async function POST(request: NextRequest) {
   try {
-    const { message, sessionId } = await request.json();
+    const { message, sessionId, mode } = await request.json();
     
     if (!message || !sessionId) {
       return new Response('Missing message or sessionId', { status: 400 });
     }
     
-    // 检查 API Key
+    // 检查 API Key（mock 提供商回放本地脚本，不需要）
     const apiKey = process.env.LLM_API_KEY;
-    if (!apiKey) {
+    if (!apiKey && process.env.LLM_PROVIDER !== 'mock') {
       return new Response(
         JSON.stringify({ error: 'LLM API Key not configured. Please set LLM_API_KEY in .env file.' }),
         { status: 500, headers: { 'Content-Type': 'application/json' } }
@@ -25,22 +27,31 @@ export async function POST(request: NextRequest) {
     }
     
     // 创建工作空间目录
-    const workspacePath = path.join(
-      process.cwd(),
-      process.env.WORKSPACE_PATH || 'workspace',
-      sessionId
-    );
+    const workspacePath = getWorkspacePath(sessionId);
     
     // 创建 LLM 客户端
     const llmClient = createLLMClient();
     
-    // 创建 Agent 执行器
-    const executor = new AgentExecutor({
+    // 登记执行，以便通过 /api/agent/cancel 或断开连接取消
+    const abortController = executionRegistry.start(sessionId);
+    request.signal.addEventListener('abort', () => {
+      abortController.abort('客户端已断开连接');
+    });
+    
+    // 创建 Agent 执行器（pipeline 模式：规划 → 执行 → 审查）
+    const agentOptions = {
       sessionId,
       workspacePath,
       llmClient,
       enableDebug: true,  // 启用调试追踪
-    });
+      signal: abortController.signal,
+      maxParallelTools: process.env.AGENT_MAX_PARALLEL_TOOLS
+        ? Number(process.env.AGENT_MAX_PARALLEL_TOOLS)
+        : undefined,
+    };
+    const executor = mode === 'pipeline'
+      ? new AgentPipeline(agentOptions)
+      : new AgentExecutor(agentOptions);
     
     // 创建 SSE 流
     const encoder = new TextEncoder();
@@ -60,8 +71,13 @@ export async function POST(request: NextRequest) {
           })}\n\n`;
           controller.enqueue(encoder.encode(errorData));
           controller.close();
+        } finally {
+          executionRegistry.finish(sessionId, abortController);
         }
       },
+      cancel() {
+        abortController.abort('客户端已断开连接');
+      },
     });
     
     return new Response(stream, {
@@ -75,7 +91,10 @@ export async function POST(request: NextRequest) {
     console.error('Chat API error:', error);
     return new Response(
       JSON.stringify({ error: error.message }),
-      { status: 500, headers: { 'Content-Type': 'application/json' } }
+      {
+        status: error instanceof WorkspacePathError ? error.status : 500,
+        headers: { 'Content-Type': 'application/json' },
+      }
     );
   }
 }
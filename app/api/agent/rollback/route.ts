@@ -0,0 +1,87 @@
+// 回滚已应用的代码修改 API
+import { NextRequest, NextResponse } from 'next/server';
+import { checkpointStore, rollbackCheckpoints, commitCheckpoints } from '@/lib/agent/checkpoints';
+import { CodeCheckpoint } from '@/lib/agent/types';
+import { getWorkspacePath, WorkspacePathError } from '@/lib/workspace/paths';
+import { getIndexer } from '@/lib/codebase/indexer';
+
+export const runtime = 'nodejs';
+
+/**
+ * POST /api/agent/rollback
+ * 单个文件：{ sessionId, checkpointId }
+ * 整个变更集：{ sessionId, changeSetId }（只回滚其中已应用的文件）
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const { sessionId, checkpointId, changeSetId } = await request.json();
+
+    if (!sessionId || (!checkpointId && !changeSetId)) {
+      return NextResponse.json(
+        { error: 'Missing required fields' },
+        { status: 400 }
+      );
+    }
+
+    let targets: CodeCheckpoint[];
+    if (changeSetId) {
+      if (checkpointStore.getChangeSet(changeSetId)?.sessionId !== sessionId) {
+        return NextResponse.json(
+          { error: 'Change set not found' },
+          { status: 404 }
+        );
+      }
+      targets = checkpointStore
+        .getChangeSetCheckpoints(changeSetId)
+        .filter(cp => cp.status === 'applied');
+    } else {
+      const checkpoint = checkpointStore.get(checkpointId);
+      if (!checkpoint || checkpoint.sessionId !== sessionId) {
+        return NextResponse.json(
+          { error: 'Checkpoint not found' },
+          { status: 404 }
+        );
+      }
+      targets = [checkpoint];
+    }
+
+    const notApplied = targets.find(cp => cp.status !== 'applied' || !cp.undo);
+    if (targets.length === 0 || notApplied) {
+      return NextResponse.json(
+        { error: notApplied ? `Checkpoint is ${notApplied.status}, nothing to roll back` : 'No applied changes to roll back' },
+        { status: 409 }
+      );
+    }
+
+    // 恢复文件（任意文件在应用后又被修改时整体拒绝）
+    const workspacePath = getWorkspacePath(sessionId);
+    try {
+      await rollbackCheckpoints(workspacePath, targets);
+    } catch (error: any) {
+      if (error instanceof WorkspacePathError) throw error;
+      return NextResponse.json({ error: error.message }, { status: 409 });
+    }
+
+    // 工作空间是 git 仓库时同样自动提交回滚
+    const commitSha = await commitCheckpoints(workspacePath, targets, { rollback: true });
+
+    const paths = targets.flatMap(cp => (cp.targetPath ? [cp.filePath, cp.targetPath] : [cp.filePath]));
+    getIndexer()
+      .then(indexer => indexer.notifyChanged(workspacePath, paths))
+      .catch(() => {});
+
+    return NextResponse.json({
+      success: true,
+      message: 'Changes rolled back successfully',
+      checkpointIds: targets.map(cp => cp.id),
+      paths,
+      ...(commitSha ? { commitSha } : {}),
+    });
+  } catch (error: any) {
+    console.error('Rollback error:', error);
+    return NextResponse.json(
+      { error: error.message },
+      { status: error instanceof WorkspacePathError ? error.status : 500 }
+    );
+  }
+}
@@ -1,13 +1,24 @@
-// API: 清除索引
+// API: 清除会话工作空间的索引
 import { NextRequest, NextResponse } from 'next/server';
 import { getIndexer } from '@/lib/codebase/indexer';
+import { getWorkspacePath, WorkspacePathError } from '@/lib/workspace/paths';
 
 export async function POST(req: NextRequest) {
   try {
-    console.log('Clearing codebase index...');
+    const { sessionId } = await req.json();
+    
+    if (!sessionId) {
+      return NextResponse.json(
+        { success: false, error: 'sessionId is required' },
+        { status: 400 }
+      );
+    }
+    
+    const workspacePath = getWorkspacePath(sessionId);
+    console.log(`Clearing codebase index for session: ${sessionId}`);
     
     const indexer = await getIndexer();
-    await indexer.clearIndex();
+    await indexer.clearIndex(workspacePath);
     
     return NextResponse.json({
       success: true,
@@ -18,8 +29,7 @@ export async function POST(req: NextRequest) {
     console.error('Clear index error:', error);
     return NextResponse.json(
       { success: false, error: error.message },
-      { status: 500 }
+      { status: error instanceof WorkspacePathError ? error.status : 500 }
     );
   }
 }
-
@@ -0,0 +1,41 @@
+// API: 索引注册表 - 列出各会话工作空间的 Chroma 集合，清理已删除会话的集合
+import { NextRequest, NextResponse } from 'next/server';
+import { getIndexer } from '@/lib/codebase/indexer';
+
+// GET: 列出所有工作空间集合
+export async function GET(req: NextRequest) {
+  try {
+    const indexer = await getIndexer();
+    
+    return NextResponse.json({
+      success: true,
+      collections: await indexer.listIndexes()
+    });
+  } catch (error: any) {
+    console.error('List collections error:', error);
+    return NextResponse.json(
+      { success: false, error: error.message },
+      { status: 500 }
+    );
+  }
+}
+
+// DELETE: 垃圾回收，删除本服务工作空间已不存在的集合（?legacy=true 时同时删除旧版共用集合）
+export async function DELETE(req: NextRequest) {
+  try {
+    const includeLegacy = req.nextUrl.searchParams.get('legacy') === 'true';
+    const indexer = await getIndexer();
+    const removed = await indexer.collectGarbage({ includeLegacy });
+    
+    return NextResponse.json({
+      success: true,
+      removed
+    });
+  } catch (error: any) {
+    console.error('Collect garbage error:', error);
+    return NextResponse.json(
+      { success: false, error: error.message },
+      { status: 500 }
+    );
+  }
+}
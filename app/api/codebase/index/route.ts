@@ -1,7 +1,7 @@
 // API: 索引代码库
 import { NextRequest, NextResponse } from 'next/server';
 import { getIndexer } from '@/lib/codebase/indexer';
-import path from 'path';
+import { getWorkspacePath, WorkspacePathError } from '@/lib/workspace/paths';
 
 export async function POST(req: NextRequest) {
   try {
@@ -14,7 +14,7 @@ export async function POST(req: NextRequest) {
       );
     }
     
-    const workspacePath = path.join(process.cwd(), 'workspace', sessionId);
+    const workspacePath = getWorkspacePath(sessionId);
     
     console.log(`Starting indexing for session: ${sessionId}`);
     console.log(`Workspace path: ${workspacePath}`);
@@ -35,25 +35,34 @@ export async function POST(req: NextRequest) {
     console.error('Indexing error:', error);
     return NextResponse.json(
       { success: false, error: error.message },
-      { status: 500 }
+      { status: error instanceof WorkspacePathError ? error.status : 500 }
     );
   }
 }
 
-// GET: 获取索引状态
+// GET: 获取会话工作空间的索引状态（?sessionId=xxx）
 export async function GET(req: NextRequest) {
   try {
+    const sessionId = req.nextUrl.searchParams.get('sessionId');
+    
+    if (!sessionId) {
+      return NextResponse.json(
+        { success: false, error: 'sessionId is required' },
+        { status: 400 }
+      );
+    }
+    
+    const workspacePath = getWorkspacePath(sessionId);
     const indexer = await getIndexer();
     
     return NextResponse.json({
       success: true,
-      status: 'ready'
+      status: await indexer.getStatus(workspacePath)
     });
   } catch (error: any) {
     return NextResponse.json(
       { success: false, error: error.message },
-      { status: 500 }
+      { status: error instanceof WorkspacePathError ? error.status : 500 }
     );
   }
 }
-
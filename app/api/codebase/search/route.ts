@@ -1,22 +1,25 @@
 // API: 搜索代码库
 import { NextRequest, NextResponse } from 'next/server';
 import { getIndexer } from '@/lib/codebase/indexer';
+import { getWorkspacePath, WorkspacePathError } from '@/lib/workspace/paths';
 
 export async function POST(req: NextRequest) {
   try {
-    const { query, topK = 5 } = await req.json();
+    const { sessionId, query, topK = 5, filePattern, types, language } = await req.json();
     
-    if (!query) {
+    if (!sessionId || !query) {
       return NextResponse.json(
-        { success: false, error: 'query is required' },
+        { success: false, error: 'sessionId and query are required' },
         { status: 400 }
       );
     }
     
+    const workspacePath = getWorkspacePath(sessionId);
+    
     console.log(`Searching codebase: "${query}"`);
     
     const indexer = await getIndexer();
-    const results = await indexer.search(query, topK);
+    const results = await indexer.search(workspacePath, query, { topK, filePattern, types, language });
     
     console.log(`Found ${results.length} results`);
     
@@ -29,7 +32,7 @@ export async function POST(req: NextRequest) {
     console.error('Search error:', error);
     return NextResponse.json(
       { success: false, error: error.message },
-      { status: 500 }
+      { status: error instanceof WorkspacePathError ? error.status : 500 }
     );
   }
 }
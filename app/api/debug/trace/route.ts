@@ -1,6 +1,7 @@
 // API 路由 - 获取调试追踪数据
 import { NextRequest, NextResponse } from 'next/server';
 import { debugTracer } from '@/lib/debug/tracer';
+import { costLedger } from '@/lib/debug/cost';
 
 /**
  * GET /api/debug/trace?sessionId=xxx
@@ -97,6 +98,7 @@ export async function POST(request: NextRequest) {
       }
 
       debugTracer.clearSession(sessionId);
+      costLedger.clearSession(sessionId);
       return NextResponse.json({
         success: true,
         message: `Cleared session ${sessionId}`
@@ -1,9 +1,7 @@
 // API 路由 - Spec 管理
 import { NextRequest, NextResponse } from 'next/server';
 import { SpecManager } from '@/lib/sdd/spec-manager';
-import path from 'path';
-
-const WORKSPACE_PATH = process.env.WORKSPACE_PATH || './workspace';
+import { getWorkspacePath, WorkspacePathError } from '@/lib/workspace/paths';
 
 /**
  * GET /api/spec?sessionId=xxx
@@ -22,7 +20,7 @@ export async function GET(request: NextRequest) {
       );
     }
 
-    const workspacePath = path.join(WORKSPACE_PATH, sessionId);
+    const workspacePath = getWorkspacePath(sessionId);
     const specManager = new SpecManager(workspacePath);
 
     // 如果指定了文件名，读取该文件
@@ -44,7 +42,7 @@ export async function GET(request: NextRequest) {
     console.error('Error in spec API:', error);
     return NextResponse.json(
       { error: error.message },
-      { status: 500 }
+      { status: error instanceof WorkspacePathError ? error.status : 500 }
     );
   }
 }
@@ -65,7 +63,7 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    const workspacePath = path.join(WORKSPACE_PATH, sessionId);
+    const workspacePath = getWorkspacePath(sessionId);
     const specManager = new SpecManager(workspacePath);
 
     const fileName = await specManager.createSpec(spec, format);
@@ -79,7 +77,7 @@ export async function POST(request: NextRequest) {
     console.error('Error creating spec:', error);
     return NextResponse.json(
       { error: error.message },
-      { status: 500 }
+      { status: error instanceof WorkspacePathError ? error.status : 500 }
     );
   }
 }
@@ -100,7 +98,7 @@ export async function PUT(request: NextRequest) {
       );
     }
 
-    const workspacePath = path.join(WORKSPACE_PATH, sessionId);
+    const workspacePath = getWorkspacePath(sessionId);
     const specManager = new SpecManager(workspacePath);
 
     await specManager.updateSpec(fileName, spec);
@@ -113,7 +111,7 @@ export async function PUT(request: NextRequest) {
     console.error('Error updating spec:', error);
     return NextResponse.json(
       { error: error.message },
-      { status: 500 }
+      { status: error instanceof WorkspacePathError ? error.status : 500 }
     );
   }
 }
@@ -135,7 +133,7 @@ export async function DELETE(request: NextRequest) {
       );
     }
 
-    const workspacePath = path.join(WORKSPACE_PATH, sessionId);
+    const workspacePath = getWorkspacePath(sessionId);
     const specManager = new SpecManager(workspacePath);
 
     await specManager.deleteSpec(fileName);
@@ -148,7 +146,7 @@ export async function DELETE(request: NextRequest) {
     console.error('Error deleting spec:', error);
     return NextResponse.json(
       { error: error.message },
-      { status: 500 }
+      { status: error instanceof WorkspacePathError ? error.status : 500 }
     );
   }
 }
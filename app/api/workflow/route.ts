@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { workflowManager } from '@/lib/agent/workflow';
 import { checkpointStore } from '@/lib/agent/checkpoints';
+import { costLedger } from '@/lib/debug/cost';
 
 export async function GET(request: NextRequest) {
   const sessionId = request.nextUrl.searchParams.get('sessionId');
@@ -12,8 +13,9 @@ export async function GET(request: NextRequest) {
   }
 
   const workflow = workflowManager.getWorkflow(sessionId);
+  const ledger = costLedger.getLedger(sessionId) || null;
   if (!workflow) {
-    return NextResponse.json({ success: true, workflow: null, checkpoints: [] });
+    return NextResponse.json({ success: true, workflow: null, checkpoints: [], costLedger: ledger });
   }
 
   const checkpoints = checkpointStore.listBySession(sessionId);
@@ -22,5 +24,6 @@ export async function GET(request: NextRequest) {
     success: true,
     workflow,
     checkpoints,
+    costLedger: ledger,
   });
 }
@@ -2,6 +2,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import fs from 'fs/promises';
 import path from 'path';
+import { getWorkspacePath, resolveWorkspacePath, WorkspacePathError } from '@/lib/workspace/paths';
 
 export const runtime = 'nodejs';
 
@@ -11,6 +12,7 @@ async function walkDir(dir: string, baseDir: string): Promise<any[]> {
   const items: any[] = [];
   
   for (const entry of entries) {
+    if (entry.name === '.git') continue; // 不显示 git 仓库的内部文件
     const fullPath = path.join(dir, entry.name);
     const relativePath = path.relative(baseDir, fullPath);
     
@@ -47,11 +49,7 @@ export async function GET(request: NextRequest) {
       return NextResponse.json({ error: 'Missing sessionId' }, { status: 400 });
     }
     
-    const workspacePath = path.join(
-      process.cwd(),
-      process.env.WORKSPACE_PATH || 'workspace',
-      sessionId
-    );
+    const workspacePath = getWorkspacePath(sessionId);
     
     // 确保工作空间存在
     await fs.mkdir(workspacePath, { recursive: true });
@@ -61,7 +59,10 @@ export async function GET(request: NextRequest) {
     return NextResponse.json({ files });
   } catch (error: any) {
     console.error('List files error:', error);
-    return NextResponse.json({ error: error.message }, { status: 500 });
+    return NextResponse.json(
+      { error: error.message },
+      { status: error instanceof WorkspacePathError ? error.status : 500 }
+    );
   }
 }
 
@@ -77,25 +78,20 @@ export async function POST(request: NextRequest) {
       );
     }
     
-    const workspacePath = path.join(
-      process.cwd(),
-      process.env.WORKSPACE_PATH || 'workspace',
-      sessionId
-    );
-    
-    const fullPath = path.join(workspacePath, filePath);
+    const workspacePath = getWorkspacePath(sessionId);
     
-    // 安全检查：确保文件在工作空间内
-    if (!fullPath.startsWith(workspacePath)) {
-      return NextResponse.json({ error: 'Invalid file path' }, { status: 403 });
-    }
+    // 安全检查：确保文件在工作空间内（包括符号链接指向）
+    const fullPath = await resolveWorkspacePath(workspacePath, filePath);
     
     const content = await fs.readFile(fullPath, 'utf-8');
     
     return NextResponse.json({ content, path: filePath });
   } catch (error: any) {
     console.error('Read file error:', error);
-    return NextResponse.json({ error: error.message }, { status: 500 });
+    return NextResponse.json(
+      { error: error.message },
+      { status: error instanceof WorkspacePathError ? error.status : 500 }
+    );
   }
 }
 
@@ -0,0 +1,101 @@
+// 工作空间 Git API
+import { NextRequest, NextResponse } from 'next/server';
+import { getWorkspacePath, WorkspacePathError } from '@/lib/workspace/paths';
+import { isGitRepository, gitInit, gitStatus, gitDiff, gitLog, gitBlame, gitCommit } from '@/lib/workspace/git';
+
+export const runtime = 'nodejs';
+
+function errorResponse(error: any) {
+  return NextResponse.json(
+    { error: error.message },
+    { status: error instanceof WorkspacePathError ? error.status : 500 }
+  );
+}
+
+/**
+ * GET /api/workspace/git?sessionId=xxx&action=status|log|diff|blame&path=...
+ * 未初始化仓库时 status 返回 { initialized: false }
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const searchParams = request.nextUrl.searchParams;
+    const sessionId = searchParams.get('sessionId');
+    const action = searchParams.get('action') || 'status';
+    const filePath = searchParams.get('path') || undefined;
+
+    if (!sessionId) {
+      return NextResponse.json({ error: 'Missing sessionId' }, { status: 400 });
+    }
+
+    const workspacePath = getWorkspacePath(sessionId);
+    if (!(await isGitRepository(workspacePath))) {
+      return NextResponse.json({ initialized: false });
+    }
+
+    switch (action) {
+      case 'status':
+        return NextResponse.json({ initialized: true, ...(await gitStatus(workspacePath)) });
+      case 'log':
+        return NextResponse.json({
+          initialized: true,
+          commits: await gitLog(workspacePath, {
+            path: filePath,
+            maxCount: Number(searchParams.get('maxCount')) || undefined,
+          }),
+        });
+      case 'diff':
+        return NextResponse.json({
+          initialized: true,
+          ...(await gitDiff(workspacePath, {
+            path: filePath,
+            staged: searchParams.get('staged') === 'true',
+            ref: searchParams.get('ref') || undefined,
+          })),
+        });
+      case 'blame':
+        if (!filePath) {
+          return NextResponse.json({ error: 'Missing path' }, { status: 400 });
+        }
+        return NextResponse.json({ initialized: true, lines: await gitBlame(workspacePath, filePath) });
+      default:
+        return NextResponse.json({ error: `Unknown action: ${action}` }, { status: 400 });
+    }
+  } catch (error: any) {
+    console.error('Git API error:', error);
+    return errorResponse(error);
+  }
+}
+
+/**
+ * POST /api/workspace/git
+ * 初始化：{ sessionId, action: 'init' }
+ * 提交：{ sessionId, action: 'commit', message, paths? }
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const { sessionId, action, message, paths } = await request.json();
+
+    if (!sessionId || !action) {
+      return NextResponse.json({ error: 'Missing sessionId or action' }, { status: 400 });
+    }
+
+    const workspacePath = getWorkspacePath(sessionId);
+
+    if (action === 'init') {
+      return NextResponse.json({ success: true, ...(await gitInit(workspacePath)) });
+    }
+
+    if (action === 'commit') {
+      if (typeof message !== 'string' || !message.trim()) {
+        return NextResponse.json({ error: 'Missing commit message' }, { status: 400 });
+      }
+      const commit = await gitCommit(workspacePath, message.trim(), Array.isArray(paths) ? paths : undefined);
+      return NextResponse.json({ success: true, commit });
+    }
+
+    return NextResponse.json({ error: `Unknown action: ${action}` }, { status: 400 });
+  } catch (error: any) {
+    console.error('Git API error:', error);
+    return errorResponse(error);
+  }
+}
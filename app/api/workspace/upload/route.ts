@@ -2,6 +2,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import fs from 'fs/promises';
 import path from 'path';
+import { getWorkspacePath, resolveWorkspacePath, WorkspacePathError } from '@/lib/workspace/paths';
 
 export const runtime = 'nodejs';
 
@@ -15,11 +16,7 @@ export async function POST(request: NextRequest) {
       return NextResponse.json({ error: 'Missing sessionId' }, { status: 400 });
     }
     
-    const workspacePath = path.join(
-      process.cwd(),
-      process.env.WORKSPACE_PATH || 'workspace',
-      sessionId
-    );
+    const workspacePath = getWorkspacePath(sessionId);
     
     await fs.mkdir(workspacePath, { recursive: true });
     
@@ -30,7 +27,7 @@ export async function POST(request: NextRequest) {
       
       // 获取文件路径（包含目录结构）
       const filePath = (file as any).webkitRelativePath || file.name;
-      const fullPath = path.join(workspacePath, filePath);
+      const fullPath = await resolveWorkspacePath(workspacePath, filePath);
       
       // 创建目录
       await fs.mkdir(path.dirname(fullPath), { recursive: true });
@@ -49,7 +46,10 @@ export async function POST(request: NextRequest) {
     });
   } catch (error: any) {
     console.error('Upload error:', error);
-    return NextResponse.json({ error: error.message }, { status: 500 });
+    return NextResponse.json(
+      { error: error.message },
+      { status: error instanceof WorkspacePathError ? error.status : 500 }
+    );
   }
 }
 
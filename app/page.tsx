@@ -6,7 +6,14 @@ import { CodeEditor } from '@/components/CodeEditor';
 import { ChatPanel, DiffPanelPayload } from '@/components/ChatPanel';
 import { DebugPanel } from '@/components/DebugPanel';
 import { DiffViewer } from '@/components/DiffViewer';
+import { GitPanel } from '@/components/GitPanel';
 import { generateUUID } from '@/lib/utils/uuid';
+import type { CostLedger } from '@/lib/debug/cost';
+import type { FileDiagnostic } from '@/lib/agent/types';
+
+function normalizeFilePath(filePath: string) {
+  return filePath.replace(/\\/g, '/').replace(/^\.?\//, '');
+}
 
 export default function Home() {
   const [sessionId] = useState(() => generateUUID());
@@ -21,7 +28,10 @@ export default function Home() {
   const [workflowData, setWorkflowData] = useState<any>(null);
   const [workflowLoading, setWorkflowLoading] = useState(false);
   const [workflowError, setWorkflowError] = useState<string | null>(null);
+  const [costLedgerData, setCostLedgerData] = useState<CostLedger | null>(null);
   const [diffPanel, setDiffPanel] = useState<DiffPanelPayload | null>(null);
+  // 修改后检查的诊断（按文件路径）
+  const [diagnostics, setDiagnostics] = useState<Record<string, FileDiagnostic[]>>({});
   
   const fetchWorkflow = useCallback(async () => {
     try {
@@ -33,6 +43,7 @@ export default function Home() {
         throw new Error(data.error || 'Failed to fetch workflow');
       }
       setWorkflowData(data.workflow);
+      setCostLedgerData(data.costLedger || null);
     } catch (error: any) {
       setWorkflowError(error.message);
     } finally {
@@ -54,6 +65,17 @@ export default function Home() {
     setDiffPanel(payload);
   }, []);
 
+  // 每次检查覆盖被检查文件之前的诊断（AI 给出的路径可能带有 ./ 前缀）
+  const handleDiagnostics = useCallback((filePaths: string[], fileDiagnostics: FileDiagnostic[]) => {
+    setDiagnostics(prev => {
+      const next = { ...prev };
+      for (const filePath of filePaths) {
+        next[normalizeFilePath(filePath)] = fileDiagnostics.filter(diagnostic => diagnostic.filePath === filePath);
+      }
+      return next;
+    });
+  }, []);
+
   useEffect(() => {
     if (activeTab === 'debug') {
       fetchWorkflow();
@@ -64,22 +86,25 @@ export default function Home() {
     <div className="flex h-screen bg-white text-gray-900">
       {/* 文件浏览器 */}
       <div
-        className="border-r border-gray-200 overflow-hidden bg-gray-50"
+        className="border-r border-gray-200 overflow-hidden bg-gray-50 flex flex-col"
         style={{ width: sidebarWidth }}
       >
-        <FileExplorer
-          sessionId={sessionId}
-          onSelectFile={(path, content) => {
-            setCurrentFile({ path, content });
-          }}
-          refreshTrigger={refreshTrigger}
-          currentFilePath={currentFile?.path}
-          onFileUpdate={(path, content) => {
-            if (currentFile?.path === path) {
+        <div className="flex-1 min-h-0">
+          <FileExplorer
+            sessionId={sessionId}
+            onSelectFile={(path, content) => {
               setCurrentFile({ path, content });
-            }
-          }}
-        />
+            }}
+            refreshTrigger={refreshTrigger}
+            currentFilePath={currentFile?.path}
+            onFileUpdate={(path, content) => {
+              if (currentFile?.path === path) {
+                setCurrentFile({ path, content });
+              }
+            }}
+          />
+        </div>
+        <GitPanel sessionId={sessionId} refreshTrigger={refreshTrigger} />
       </div>
       
       {/* 调整大小手柄 - 加宽点击区域 */}
@@ -151,13 +176,21 @@ export default function Home() {
             </div>
             <div className="flex-1 overflow-hidden p-4">
               <DiffViewer
+                kind={diffPanel.kind}
                 filePath={diffPanel.filePath}
+                targetPath={diffPanel.targetPath}
                 originalContent={diffPanel.originalContent}
                 modifiedContent={diffPanel.modifiedContent}
                 isApplying={diffPanel.isApplying}
                 mode={diffPanel.source === 'approval' ? 'approval' : 'preview'}
                 showActions={false}
                 height="100%"
+                files={diffPanel.files}
+                activeFileId={diffPanel.checkpointId}
+                onSelectFile={diffPanel.onSelectFile}
+                onRollback={diffPanel.onRollback}
+                isRollingBack={diffPanel.isRollingBack}
+                rolledBack={diffPanel.rolledBack}
               />
             </div>
             {diffPanel.source === 'approval' && (
@@ -176,6 +209,15 @@ export default function Home() {
                 >
                   ✓ 确认
                 </button>
+                {diffPanel.onApproveAll && (
+                  <button
+                    onClick={diffPanel.onApproveAll}
+                    disabled={diffPanel.isApplying}
+                    className="px-5 py-2.5 text-sm font-semibold text-white bg-green-600 rounded-lg hover:bg-green-700 disabled:bg-green-400 disabled:cursor-not-allowed"
+                  >
+                    ✓ 全部确认
+                  </button>
+                )}
               </div>
             )}
           </div>
@@ -183,6 +225,7 @@ export default function Home() {
           <div className="flex-1 overflow-hidden">
             <CodeEditor
               file={currentFile}
+              diagnostics={currentFile ? diagnostics[normalizeFilePath(currentFile.path)] : undefined}
               onContentChange={(content) => {
                 if (currentFile) {
                   setCurrentFile({ ...currentFile, content });
@@ -260,10 +303,12 @@ export default function Home() {
               onFileModified={refreshCurrentFile}
               onDebugEvent={handleDebugEvent}
               onDiffPanelChange={handleDiffPanelChange}
+              onDiagnostics={handleDiagnostics}
             />
           ) : (
             <DebugPanel 
               workflow={workflowData}
+              costLedger={costLedgerData}
               isLoading={workflowLoading}
               error={workflowError}
               onRefresh={fetchWorkflow}
@@ -2,7 +2,8 @@
 
 import { useState, useRef, useEffect, useMemo, useCallback } from 'react';
 import { generateUUID } from '@/lib/utils/uuid';
-import { WorkflowRun, WorkflowStep } from '@/lib/agent/types';
+import { WorkflowRun, WorkflowStep, ChangeReview, FileDiagnostic, CheckpointKind, CheckpointStatus } from '@/lib/agent/types';
+import { describeFileChange, type DiffFileItem } from './DiffViewer';
 
 interface Message {
   id: string;
@@ -15,26 +16,64 @@ interface Message {
   };
 }
 
+type PendingChangeStatus = DiffFileItem['status'];
+
 interface PendingChange {
   id: string;
+  kind?: CheckpointKind;
   filePath: string;
+  targetPath?: string;
   originalContent: string;
   modifiedContent: string;
+  status: PendingChangeStatus;
+}
+
+// 同一轮中 AI 提出的所有文件修改
+interface PendingChangeSet {
+  id: string;
+  changes: PendingChange[];
+  activeChangeId: string;
   reasoning: string;
+  review?: ChangeReview; // 审查 Agent 的意见（pipeline 模式）
   isApplying?: boolean;
 }
 
+// 等待用户批准的命令（不在允许列表中）
+interface PendingCommand {
+  id: string;
+  command: string;
+  reason: string;
+  isSubmitting?: boolean;
+}
+
+// 正在执行的命令及其实时输出
+interface RunningCommand {
+  command: string;
+  output: string;
+}
+
+// 界面上最多保留的命令输出（字符）
+const MAX_COMMAND_OUTPUT_DISPLAY = 20000;
+
 export interface DiffPanelPayload {
   source: 'approval' | 'workflow';
   checkpointId?: string;
+  kind?: CheckpointKind;
   filePath: string;
+  targetPath?: string;
   originalContent: string;
   modifiedContent: string;
   title: string;
   subtitle?: string;
   isApplying?: boolean;
+  files?: DiffFileItem[];
+  onSelectFile?: (checkpointId: string) => void;
   onApprove?: () => void | Promise<void>;
   onReject?: () => void | Promise<void>;
+  onApproveAll?: () => void | Promise<void>;
+  onRollback?: () => void | Promise<void>;
+  isRollingBack?: boolean;
+  rolledBack?: boolean;
 }
 
 interface ChatPanelProps {
@@ -44,105 +83,226 @@ interface ChatPanelProps {
   onFileModified?: () => void;
   onDebugEvent?: (event: any) => void;
   onDiffPanelChange?: (data: DiffPanelPayload | null) => void;
+  onDiagnostics?: (filePaths: string[], diagnostics: FileDiagnostic[]) => void;
 }
 
-export function ChatPanel({ sessionId, currentFile, workflow, onFileModified, onDebugEvent, onDiffPanelChange }: ChatPanelProps) {
+export function ChatPanel({ sessionId, currentFile, workflow, onFileModified, onDebugEvent, onDiffPanelChange, onDiagnostics }: ChatPanelProps) {
   const [messages, setMessages] = useState<Message[]>([]);
   const [input, setInput] = useState('');
   const [isLoading, setIsLoading] = useState(false);
+  const [isCancelling, setIsCancelling] = useState(false);
+  const [pipelineMode, setPipelineMode] = useState(false);
   const messagesEndRef = useRef<HTMLDivElement>(null);
   const [currentAssistantMessage, setCurrentAssistantMessage] = useState('');
-  const [pendingChange, setPendingChange] = useState<PendingChange | null>(null);
+  const [pendingChangeSet, setPendingChangeSet] = useState<PendingChangeSet | null>(null);
+  const [pendingCommand, setPendingCommand] = useState<PendingCommand | null>(null);
+  const [runningCommand, setRunningCommand] = useState<RunningCommand | null>(null);
   const [selectedWorkflowStepId, setSelectedWorkflowStepId] = useState<string | null>(null);
   const [checkpointPreview, setCheckpointPreview] = useState<{
+    id: string;
+    status: CheckpointStatus;
+    canRollback: boolean; // 已应用且记录了回滚数据
+    kind?: CheckpointKind;
     filePath: string;
+    targetPath?: string;
     originalContent: string;
     modifiedContent: string;
   } | null>(null);
   const [checkpointPreviewLoading, setCheckpointPreviewLoading] = useState(false);
   const [checkpointPreviewError, setCheckpointPreviewError] = useState<string | null>(null);
+  const [isRollingBack, setIsRollingBack] = useState(false);
 
-  const applyPendingChange = useCallback(async () => {
-    if (!pendingChange) return;
-    setPendingChange(prev => prev ? { ...prev, isApplying: true } : prev);
+  const pushAssistantMessage = useCallback((content: string) => {
+    const msg: Message = {
+      id: generateUUID(),
+      role: 'assistant',
+      content,
+      timestamp: new Date(),
+    };
+    setMessages(prev => [...prev, msg]);
+  }, []);
+
+  // 更新变更集中文件的审批状态，全部处理完后关闭审批界面
+  const markChanges = useCallback((checkpointIds: string[], status: PendingChangeStatus) => {
+    setPendingChangeSet(prev => {
+      if (!prev) return prev;
+      const changes = prev.changes.map(change =>
+        checkpointIds.includes(change.id) ? { ...change, status } : change
+      );
+      if (changes.every(change => change.status !== 'pending')) {
+        return null;
+      }
+      const nextActive = changes.find(change => change.status === 'pending');
+      return {
+        ...prev,
+        changes,
+        isApplying: false,
+        activeChangeId: nextActive ? nextActive.id : prev.activeChangeId,
+      };
+    });
+    if (onDebugEvent) {
+      onDebugEvent({
+        type: 'checkpoint_update',
+        timestamp: Date.now(),
+        data: { checkpointIds, status: status === 'applied' ? 'approved' : 'rejected' }
+      });
+    }
+  }, [onDebugEvent]);
+
+  const submitApproval = useCallback(async (
+    targets: PendingChange[],
+    approved: boolean,
+    body: Record<string, any>
+  ) => {
+    if (!pendingChangeSet || targets.length === 0) return;
+    setPendingChangeSet(prev => prev ? { ...prev, isApplying: true } : prev);
 
     try {
       const response = await fetch('/api/agent/approve', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({
-          sessionId,
-          filePath: pendingChange.filePath,
-          content: pendingChange.modifiedContent,
-          approved: true,
-          checkpointId: pendingChange.id,
-        }),
+        body: JSON.stringify({ sessionId, approved, ...body }),
       });
 
-      if (response.ok) {
-        setPendingChange(null);
+      const result = await response.json();
+      if (!response.ok) {
+        throw new Error(result.error || '审批失败');
+      }
+
+      const ids = targets.map(change => change.id);
+      const paths = targets.map(change => change.filePath).join(', ');
+      if (approved) {
+        markChanges(ids, 'applied');
         if (onFileModified) onFileModified();
-        if (onDebugEvent) {
-          onDebugEvent({
-            type: 'checkpoint_update',
-            timestamp: Date.now(),
-            data: { checkpointId: pendingChange.id, status: 'approved' }
-          });
+        // 工作空间是 git 仓库时，修改已自动提交
+        pushAssistantMessage(`✅ 已应用修改到 ${paths}${result.commitSha ? `（已提交 ${result.commitSha.slice(0, 7)}）` : ''}`);
+
+        // 修改后检查的结果：显示为编辑器标记，有错误时提示（错误同时会反馈给 AI）
+        const diagnostics: FileDiagnostic[] | undefined = result.diagnostics;
+        if (diagnostics) {
+          // 删除和移动的源文件不再有诊断，一并清除
+          onDiagnostics?.([...(result.paths || []), ...(result.verifiedPaths || [])], diagnostics);
+          const errorCount = diagnostics.filter(diagnostic => diagnostic.severity === 'error').length;
+          if (errorCount > 0) {
+            pushAssistantMessage(`⚠️ 修改后检查发现 ${errorCount} 个错误，已反馈给 AI`);
+          }
         }
-        if (onDiffPanelChange) onDiffPanelChange(null);
-
-        const successMsg: Message = {
-          id: generateUUID(),
-          role: 'assistant',
-          content: `✅ 已应用修改到 ${pendingChange.filePath}`,
-          timestamp: new Date(),
-        };
-        setMessages(prev => [...prev, successMsg]);
       } else {
+        markChanges(ids, 'rejected');
+        pushAssistantMessage(`已拒绝对 ${paths} 的修改`);
+      }
+    } catch (error: any) {
+      console.error('Failed to submit approval:', error);
+      setPendingChangeSet(prev => prev ? { ...prev, isApplying: false } : prev);
+      pushAssistantMessage(`❌ 审批失败: ${error.message}`);
+    }
+  }, [pendingChangeSet, sessionId, onFileModified, onDiagnostics, markChanges, pushAssistantMessage]);
+
+  const activeChange = useMemo(() => {
+    if (!pendingChangeSet) return null;
+    return pendingChangeSet.changes.find(change => change.id === pendingChangeSet.activeChangeId) || null;
+  }, [pendingChangeSet]);
+
+  const approveChange = useCallback(async (change: PendingChange | null) => {
+    if (!change || change.status !== 'pending') return;
+    await submitApproval([change], true, {
+      checkpointId: change.id,
+      filePath: change.filePath,
+      content: change.modifiedContent,
+    });
+  }, [submitApproval]);
+
+  const rejectChange = useCallback(async (change: PendingChange | null) => {
+    if (!change || change.status !== 'pending') return;
+    await submitApproval([change], false, {
+      checkpointId: change.id,
+      filePath: change.filePath,
+    });
+  }, [submitApproval]);
+
+  const approveAllChanges = useCallback(async () => {
+    if (!pendingChangeSet) return;
+    await submitApproval(
+      pendingChangeSet.changes.filter(change => change.status === 'pending'),
+      true,
+      { changeSetId: pendingChangeSet.id }
+    );
+  }, [pendingChangeSet, submitApproval]);
+
+  // 批准或拒绝执行命令
+  const submitCommandDecision = useCallback(async (approved: boolean) => {
+    if (!pendingCommand || pendingCommand.isSubmitting) return;
+    setPendingCommand(prev => prev ? { ...prev, isSubmitting: true } : prev);
+
+    try {
+      const response = await fetch('/api/agent/approve', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ sessionId, commandId: pendingCommand.id, approved }),
+      });
+
+      if (!response.ok) {
         const error = await response.json();
         throw new Error(error.error || '审批失败');
       }
-    } catch (error) {
-      console.error('Failed to apply changes:', error);
-      setPendingChange(prev => prev ? { ...prev, isApplying: false } : prev);
+      setPendingCommand(null);
+    } catch (error: any) {
+      console.error('Failed to submit command decision:', error);
+      setPendingCommand(prev => prev ? { ...prev, isSubmitting: false } : prev);
+      pushAssistantMessage(`❌ 审批失败: ${error.message}`);
     }
-  }, [pendingChange, sessionId, onFileModified, onDiffPanelChange, onDebugEvent]);
+  }, [pendingCommand, sessionId, pushAssistantMessage]);
+
+  // 回滚检查点预览中已应用的修改（文件在应用之后又被修改时服务端拒绝）
+  const rollbackCheckpoint = useCallback(async () => {
+    if (!checkpointPreview || isRollingBack) return;
+    const target = checkpointPreview;
+    setIsRollingBack(true);
 
-  const rejectPendingChange = useCallback(async () => {
-    if (!pendingChange) return;
-    setPendingChange(prev => prev ? { ...prev, isApplying: true } : prev);
     try {
-      await fetch('/api/agent/approve', {
+      const response = await fetch('/api/agent/rollback', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({
-          sessionId,
-          filePath: pendingChange.filePath,
-          approved: false,
-          checkpointId: pendingChange.id,
-        }),
+        body: JSON.stringify({ sessionId, checkpointId: target.id }),
       });
-    } catch (error) {
-      console.error('Failed to reject changes:', error);
+      const result = await response.json();
+      if (!response.ok) {
+        throw new Error(result.error || '回滚失败');
+      }
+
+      setCheckpointPreview(prev =>
+        prev && prev.id === target.id ? { ...prev, status: 'rolled_back', canRollback: false } : prev);
+      if (onFileModified) onFileModified();
+      pushAssistantMessage(`↩️ 已回滚：${describeFileChange(target.kind, target.filePath, target.targetPath)}${
+        result.commitSha ? `（已提交 ${result.commitSha.slice(0, 7)}）` : ''}`);
+    } catch (error: any) {
+      console.error('Failed to roll back checkpoint:', error);
+      pushAssistantMessage(`❌ 回滚失败: ${error.message}`);
+    } finally {
+      setIsRollingBack(false);
     }
-    setPendingChange(null);
-    if (onDebugEvent) {
-      onDebugEvent({
-        type: 'checkpoint_update',
-        timestamp: Date.now(),
-        data: { checkpointId: pendingChange.id, status: 'rejected' }
+  }, [checkpointPreview, isRollingBack, sessionId, onFileModified, pushAssistantMessage]);
+
+  const selectChange = useCallback((checkpointId: string) => {
+    setPendingChangeSet(prev => prev ? { ...prev, activeChangeId: checkpointId } : prev);
+  }, []);
+  
+  // 停止当前正在运行的 Agent 执行
+  const cancelExecution = useCallback(async () => {
+    if (!isLoading || isCancelling) return;
+    setIsCancelling(true);
+    try {
+      await fetch('/api/agent/cancel', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ sessionId }),
       });
+    } catch (error) {
+      console.error('Failed to cancel execution:', error);
+      setIsCancelling(false);
     }
-    if (onDiffPanelChange) onDiffPanelChange(null);
-    const rejectMsg: Message = {
-      id: generateUUID(),
-      role: 'assistant',
-      content: '已拒绝本次修改',
-      timestamp: new Date(),
-    };
-    setMessages(prev => [...prev, rejectMsg]);
-  }, [pendingChange, sessionId, onDiffPanelChange, onDebugEvent]);
-  
+  }, [isLoading, isCancelling, sessionId]);
+
   // 从 localStorage 加载聊天记录
   useEffect(() => {
     const savedMessages = localStorage.getItem(`chat_messages_${sessionId}`);
@@ -216,7 +376,12 @@ export function ChatPanel({ sessionId, currentFile, workflow, onFileModified, on
         }
         if (!cancelled) {
           setCheckpointPreview({
+            id: data.checkpoint.id,
+            status: data.checkpoint.status,
+            canRollback: data.checkpoint.status === 'applied' && !!data.checkpoint.undo,
+            kind: data.checkpoint.kind,
             filePath: data.checkpoint.filePath,
+            targetPath: data.checkpoint.targetPath,
             originalContent: data.checkpoint.originalContent,
             modifiedContent: data.checkpoint.modifiedContent,
           });
@@ -244,6 +409,7 @@ export function ChatPanel({ sessionId, currentFile, workflow, onFileModified, on
     in_progress: 'bg-blue-50 text-blue-700 border border-blue-100',
     completed: 'bg-green-50 text-green-700 border border-green-100',
     error: 'bg-red-50 text-red-600 border border-red-100',
+    cancelled: 'bg-gray-100 text-gray-500 border border-gray-200',
   };
 
   const workflowStatusLabel = (status: string) => {
@@ -256,6 +422,8 @@ export function ChatPanel({ sessionId, currentFile, workflow, onFileModified, on
         return '已完成';
       case 'error':
         return '失败';
+      case 'cancelled':
+        return '已取消';
       default:
         return status;
     }
@@ -277,18 +445,32 @@ export function ChatPanel({ sessionId, currentFile, workflow, onFileModified, on
   useEffect(() => {
     if (!onDiffPanelChange) return;
 
-    if (pendingChange) {
+    if (pendingChangeSet && activeChange) {
+      const total = pendingChangeSet.changes.length;
       onDiffPanelChange({
         source: 'approval',
-        checkpointId: pendingChange.id,
-        filePath: pendingChange.filePath,
-        originalContent: pendingChange.originalContent,
-        modifiedContent: pendingChange.modifiedContent,
-        title: `修改 ${pendingChange.filePath}`,
+        checkpointId: activeChange.id,
+        kind: activeChange.kind,
+        filePath: activeChange.filePath,
+        targetPath: activeChange.targetPath,
+        originalContent: activeChange.originalContent,
+        modifiedContent: activeChange.modifiedContent,
+        title: total > 1
+          ? `修改 ${total} 个文件`
+          : describeFileChange(activeChange.kind, activeChange.filePath, activeChange.targetPath),
         subtitle: 'AI 正等待您审批这些修改',
-        isApplying: pendingChange.isApplying,
-        onApprove: applyPendingChange,
-        onReject: rejectPendingChange,
+        isApplying: pendingChangeSet.isApplying,
+        files: pendingChangeSet.changes.map(change => ({
+          id: change.id,
+          kind: change.kind,
+          filePath: change.filePath,
+          targetPath: change.targetPath,
+          status: change.status,
+        })),
+        onSelectFile: selectChange,
+        onApprove: () => approveChange(activeChange),
+        onReject: () => rejectChange(activeChange),
+        onApproveAll: total > 1 ? approveAllChanges : undefined,
       });
       return;
     }
@@ -297,23 +479,33 @@ export function ChatPanel({ sessionId, currentFile, workflow, onFileModified, on
       onDiffPanelChange({
         source: 'workflow',
         checkpointId: selectedWorkflowStep.metadata.checkpointId,
+        kind: checkpointPreview.kind,
         filePath: checkpointPreview.filePath,
+        targetPath: checkpointPreview.targetPath,
         originalContent: checkpointPreview.originalContent,
         modifiedContent: checkpointPreview.modifiedContent,
         title: selectedWorkflowStep.title,
         subtitle: selectedWorkflowStep.metadata?.filePath || undefined,
+        onRollback: checkpointPreview.canRollback ? rollbackCheckpoint : undefined,
+        isRollingBack,
+        rolledBack: checkpointPreview.status === 'rolled_back',
       });
       return;
     }
 
     onDiffPanelChange(null);
   }, [
-    pendingChange,
+    pendingChangeSet,
+    activeChange,
     checkpointPreview,
     selectedWorkflowStep,
     onDiffPanelChange,
-    applyPendingChange,
-    rejectPendingChange,
+    selectChange,
+    approveChange,
+    rejectChange,
+    approveAllChanges,
+    rollbackCheckpoint,
+    isRollingBack,
   ]);
   
   const sendMessage = async () => {
@@ -358,6 +550,7 @@ export function ChatPanel({ sessionId, currentFile, workflow, onFileModified, on
         body: JSON.stringify({
           message: enhancedMessage, // 发送增强后的消息
           sessionId,
+          mode: pipelineMode ? 'pipeline' : 'single',
         }),
       });
       
@@ -373,6 +566,7 @@ export function ChatPanel({ sessionId, currentFile, workflow, onFileModified, on
       let buffer = '';
       let assistantMessageContent = '';
       let lastToolCallTime: number | null = null;
+      let commandOutput = '';
       
       while (true) {
         const { done, value } = await reader.read();
@@ -405,6 +599,18 @@ export function ChatPanel({ sessionId, currentFile, workflow, onFileModified, on
                 
                 assistantMessageContent += `\n\n🔧 ${event.content}`;
                 setCurrentAssistantMessage(assistantMessageContent);
+
+                if (event.data?.name === 'run_command') {
+                  commandOutput = '';
+                  setRunningCommand({ command: event.data.args?.command || '', output: '' });
+                } else if (event.data?.name === 'run_tests') {
+                  commandOutput = '';
+                  setRunningCommand({ command: `run_tests ${event.data.args?.target || ''}`.trim(), output: '' });
+                }
+              } else if (event.type === 'tool_output') {
+                // 命令的 stdout / stderr 实时输出
+                commandOutput = (commandOutput + event.content).slice(-MAX_COMMAND_OUTPUT_DISPLAY);
+                setRunningCommand(prev => prev ? { ...prev, output: commandOutput } : prev);
               } else if (event.type === 'tool_result') {
                 // 计算工具执行耗时
                 const duration = lastToolCallTime ? Date.now() - lastToolCallTime : 0;
@@ -435,6 +641,42 @@ export function ChatPanel({ sessionId, currentFile, workflow, onFileModified, on
                     }
                   };
                   setMessages(prev => [...prev, searchResultMessage]);
+                } else if (event.data?.tool === 'run_command' && event.data?.status !== 'rejected') {
+                  // 命令结束：把输出保存为一条消息
+                  const commandMessage: Message = {
+                    id: generateUUID(),
+                    role: 'assistant',
+                    content: event.content,
+                    timestamp: new Date(),
+                    metadata: {
+                      type: 'command_output',
+                      data: {
+                        command: event.data.command,
+                        output: commandOutput,
+                        exitCode: event.data.exitCode,
+                        timedOut: event.data.timedOut,
+                      }
+                    }
+                  };
+                  setMessages(prev => [...prev, commandMessage]);
+                  setRunningCommand(null);
+                  commandOutput = '';
+                  if (onFileModified) setTimeout(() => onFileModified(), 500);
+                } else if (event.data?.tool === 'run_tests') {
+                  // 测试结束：显示统计和失败用例
+                  const testMessage: Message = {
+                    id: generateUUID(),
+                    role: 'assistant',
+                    content: event.content,
+                    timestamp: new Date(),
+                    metadata: {
+                      type: 'test_result',
+                      data: event.data
+                    }
+                  };
+                  setMessages(prev => [...prev, testMessage]);
+                  setRunningCommand(null);
+                  commandOutput = '';
                 } else {
                   assistantMessageContent += `\n✅ ${event.content}`;
                   setCurrentAssistantMessage(assistantMessageContent);
@@ -455,14 +697,34 @@ export function ChatPanel({ sessionId, currentFile, workflow, onFileModified, on
                   });
                 }
                 
-                // AI 请求用户审批代码修改
-                setPendingChange({
-                  id: event.data.id,
-                  filePath: event.data.filePath,
-                  originalContent: event.data.originalContent,
-                  modifiedContent: event.data.modifiedContent,
-                  reasoning: event.content,
-                });
+                // AI 请求执行不在允许列表中的命令
+                if (event.data?.commandApproval) {
+                  setPendingCommand({
+                    id: event.data.commandApproval.id,
+                    command: event.data.commandApproval.command,
+                    reason: event.data.commandApproval.reason,
+                  });
+                }
+                
+                // AI 请求用户审批代码修改（一个变更集可能包含多个文件）
+                const changes: PendingChange[] = (event.data.changes || []).map((change: any) => ({
+                  id: change.id,
+                  kind: change.kind,
+                  filePath: change.filePath,
+                  targetPath: change.targetPath,
+                  originalContent: change.originalContent,
+                  modifiedContent: change.modifiedContent,
+                  status: 'pending',
+                }));
+                if (changes.length > 0) {
+                  setPendingChangeSet({
+                    id: event.data.changeSetId,
+                    changes,
+                    activeChangeId: changes[0].id,
+                    reasoning: event.content,
+                    review: event.data.review,
+                  });
+                }
                 assistantMessageContent += `\n\n💡 ${event.content}`;
                 setCurrentAssistantMessage(assistantMessageContent);
               } else if (event.type === 'error') {
@@ -478,6 +740,29 @@ export function ChatPanel({ sessionId, currentFile, workflow, onFileModified, on
                 
                 assistantMessageContent += `\n\n❌ 错误: ${event.content}`;
                 setCurrentAssistantMessage(assistantMessageContent);
+                if (event.data?.tool === 'run_command') {
+                  setRunningCommand(null);
+                }
+              } else if (event.type === 'cancelled') {
+                if (onDebugEvent) {
+                  onDebugEvent({
+                    type: 'cancelled',
+                    content: event.content,
+                    timestamp: Date.now()
+                  });
+                }
+
+                const cancelledMessage: Message = {
+                  id: generateUUID(),
+                  role: 'assistant',
+                  content: `${assistantMessageContent}\n\n⏹ 已停止: ${event.content}`.trim(),
+                  timestamp: new Date(),
+                };
+                setMessages(prev => [...prev, cancelledMessage]);
+                setCurrentAssistantMessage('');
+                setPendingChangeSet(null);
+                setPendingCommand(null);
+                setRunningCommand(null);
               } else if (event.type === 'done') {
                 const assistantMessage: Message = {
                   id: generateUUID(),
@@ -526,6 +811,9 @@ export function ChatPanel({ sessionId, currentFile, workflow, onFileModified, on
       setCurrentAssistantMessage('');
     } finally {
       setIsLoading(false);
+      setIsCancelling(false);
+      setPendingCommand(null);
+      setRunningCommand(null);
     }
   };
   
@@ -718,6 +1006,37 @@ export function ChatPanel({ sessionId, currentFile, workflow, onFileModified, on
                     </div>
                   ))}
                 </div>
+              ) : message.metadata?.type === 'command_output' && message.metadata.data ? (
+                <div className="space-y-2">
+                  <div className="text-sm text-gray-700">{message.content}</div>
+                  <pre className="text-xs bg-gray-900 text-gray-100 p-3 rounded-lg overflow-x-auto max-h-64 whitespace-pre-wrap break-words">
+                    <span className="text-green-400">$ {message.metadata.data.command}</span>
+                    {'\n'}
+                    {message.metadata.data.output || '（无输出）'}
+                  </pre>
+                </div>
+              ) : message.metadata?.type === 'test_result' && message.metadata.data ? (
+                <div className="space-y-2">
+                  <div className={`text-sm font-medium ${message.metadata.data.success ? 'text-green-700' : 'text-red-600'}`}>
+                    {message.metadata.data.success ? '✅' : '❌'} {message.content}
+                  </div>
+                  {message.metadata.data.failures?.map((failure: any, idx: number) => (
+                    <div key={idx} className="bg-white rounded-lg p-3 border border-red-100 text-xs">
+                      <div className="font-medium text-gray-800">{failure.name}</div>
+                      {failure.location && (
+                        <div className="text-blue-600 font-mono mt-0.5">{failure.location}</div>
+                      )}
+                      <pre className="mt-2 bg-gray-50 p-2 rounded overflow-x-auto text-gray-700 whitespace-pre-wrap break-words max-h-40">
+                        {failure.message}
+                      </pre>
+                    </div>
+                  ))}
+                  {message.metadata.data.output && (
+                    <pre className="text-xs bg-gray-900 text-gray-100 p-3 rounded-lg overflow-x-auto max-h-64 whitespace-pre-wrap break-words">
+                      {message.metadata.data.output}
+                    </pre>
+                  )}
+                </div>
               ) : (
                 <>
                   <div className="whitespace-pre-wrap break-words text-sm leading-relaxed">
@@ -748,15 +1067,121 @@ export function ChatPanel({ sessionId, currentFile, workflow, onFileModified, on
           </div>
         )}
         
+        {/* 正在执行的命令（实时输出） */}
+        {runningCommand && (
+          <div className="flex justify-start">
+            <pre className="max-w-[85%] w-full text-xs bg-gray-900 text-gray-100 p-3 rounded-2xl overflow-x-auto max-h-64 whitespace-pre-wrap break-words">
+              <span className="text-green-400">$ {runningCommand.command}</span>
+              {'\n'}
+              {runningCommand.output}
+              <span className="inline-block w-2 h-3 ml-1 bg-green-400 animate-pulse" />
+            </pre>
+          </div>
+        )}
+        
+        {/* 命令执行审批提示 */}
+        {pendingCommand && (
+          <div className="px-4 py-3">
+            <div className="border border-amber-200 bg-amber-50 rounded-xl p-4">
+              <p className="text-sm text-gray-900 font-semibold mb-1">等待批准: 执行命令</p>
+              <p className="text-xs text-gray-600">{pendingCommand.reason}，需要您确认后才会执行。</p>
+              <pre className="mt-2 text-xs bg-gray-900 text-gray-100 px-3 py-2 rounded-lg whitespace-pre-wrap break-words">
+                $ {pendingCommand.command}
+              </pre>
+              <div className="mt-3 flex justify-end gap-2">
+                <button
+                  onClick={() => submitCommandDecision(false)}
+                  disabled={pendingCommand.isSubmitting}
+                  className="text-xs px-3 py-1 rounded-lg text-gray-600 bg-white border border-gray-200 hover:bg-gray-100 disabled:opacity-50"
+                >
+                  拒绝
+                </button>
+                <button
+                  onClick={() => submitCommandDecision(true)}
+                  disabled={pendingCommand.isSubmitting}
+                  className="text-xs px-3 py-1 rounded-lg text-white bg-amber-600 hover:bg-amber-700 disabled:bg-amber-400"
+                >
+                  执行
+                </button>
+              </div>
+            </div>
+          </div>
+        )}
+        
         {/* 代码修改审批提示 */}
-        {pendingChange && (
+        {pendingChangeSet && (
           <div className="px-4 py-3">
             <div className="border border-blue-100 bg-blue-50 rounded-xl p-4">
-              <p className="text-sm text-gray-900 font-semibold mb-1">等待审批: {pendingChange.filePath}</p>
+              <div className="flex items-center justify-between mb-1">
+                <p className="text-sm text-gray-900 font-semibold">
+                  等待审批: {pendingChangeSet.changes.length} 个文件
+                </p>
+                {pendingChangeSet.changes.filter(change => change.status === 'pending').length > 1 && (
+                  <button
+                    onClick={approveAllChanges}
+                    disabled={pendingChangeSet.isApplying}
+                    className="text-xs px-2.5 py-1 rounded-lg text-white bg-blue-600 hover:bg-blue-700 disabled:bg-blue-400"
+                  >
+                    全部确认
+                  </button>
+                )}
+              </div>
               <p className="text-xs text-gray-600">
-                AI 已生成新的代码差异，并在中间编辑区展示。请在编辑区确认或拒绝本次修改。
+                AI 已生成新的代码差异，并在中间编辑区展示。请逐个确认或拒绝，也可以一次性全部确认。
               </p>
-              {pendingChange.isApplying && (
+              {pendingChangeSet.review && (
+                <div className="mt-2 rounded-lg bg-white border border-purple-100 px-2.5 py-2 text-xs text-gray-700">
+                  <span className="font-semibold text-purple-600">审查意见：</span>
+                  {pendingChangeSet.review.summary || '无'}
+                  {activeChange && pendingChangeSet.review.comments[activeChange.filePath] && (
+                    <p className="mt-1 text-gray-500">
+                      {activeChange.filePath}: {pendingChangeSet.review.comments[activeChange.filePath]}
+                    </p>
+                  )}
+                </div>
+              )}
+              <div className="mt-3 space-y-1.5">
+                {pendingChangeSet.changes.map(change => (
+                  <div
+                    key={change.id}
+                    className={`flex items-center gap-2 rounded-lg px-2.5 py-1.5 text-xs bg-white border ${
+                      change.id === pendingChangeSet.activeChangeId ? 'border-blue-300' : 'border-gray-200'
+                    }`}
+                  >
+                    <button
+                      onClick={() => selectChange(change.id)}
+                      className="flex-1 text-left font-mono text-gray-800 truncate hover:text-blue-600"
+                    >
+                      {change.kind && change.kind !== 'edit'
+                        ? describeFileChange(change.kind, change.filePath, change.targetPath)
+                        : change.filePath}
+                    </button>
+                    {change.status === 'pending' ? (
+                      <>
+                        <button
+                          onClick={() => rejectChange(change)}
+                          disabled={pendingChangeSet.isApplying}
+                          className="px-2 py-0.5 rounded text-gray-600 hover:bg-gray-100 disabled:opacity-50"
+                        >
+                          拒绝
+                        </button>
+                        <button
+                          onClick={() => approveChange(change)}
+                          disabled={pendingChangeSet.isApplying}
+                          className="px-2 py-0.5 rounded text-blue-600 hover:bg-blue-50 disabled:opacity-50"
+                        >
+                          确认
+                        </button>
+                      </>
+                    ) : (
+                      <span className={change.status === 'applied' ? 'text-green-600' : 'text-gray-400'}>
+                        {change.status === 'applied' ? '已应用' : '已拒绝'}
+                      </span>
+                    )}
+                  </div>
+                ))}
+              </div>
+              {pendingChangeSet.isApplying && (
                 <p className="text-xs text-blue-600 mt-2">正在应用修改...</p>
               )}
             </div>
@@ -789,17 +1214,40 @@ export function ChatPanel({ sessionId, currentFile, workflow, onFileModified, on
             className="flex-1 px-4 py-3 bg-gray-50 border border-gray-200 rounded-xl focus:outline-none focus:border-blue-500 focus:bg-white text-sm transition-colors"
             disabled={isLoading}
           />
-          <button
-            onClick={sendMessage}
-            disabled={isLoading || !input.trim()}
-            className="px-5 py-3 bg-blue-500 hover:bg-blue-600 disabled:bg-gray-300 disabled:cursor-not-allowed rounded-xl text-sm font-medium text-white transition-all shadow-sm hover:shadow disabled:shadow-none"
-          >
-            {isLoading ? '...' : '发送'}
-          </button>
+          {isLoading ? (
+            <button
+              onClick={cancelExecution}
+              disabled={isCancelling}
+              className="px-5 py-3 bg-red-500 hover:bg-red-600 disabled:bg-red-300 disabled:cursor-not-allowed rounded-xl text-sm font-medium text-white transition-all shadow-sm hover:shadow disabled:shadow-none"
+              title="停止 AI 执行"
+            >
+              {isCancelling ? '...' : '停止'}
+            </button>
+          ) : (
+            <button
+              onClick={sendMessage}
+              disabled={!input.trim()}
+              className="px-5 py-3 bg-blue-500 hover:bg-blue-600 disabled:bg-gray-300 disabled:cursor-not-allowed rounded-xl text-sm font-medium text-white transition-all shadow-sm hover:shadow disabled:shadow-none"
+            >
+              发送
+            </button>
+          )}
+        </div>
+        <div className="flex items-center justify-between mt-2">
+          <label className="flex items-center gap-1.5 text-xs text-gray-500 cursor-pointer select-none">
+            <input
+              type="checkbox"
+              checked={pipelineMode}
+              onChange={(e) => setPipelineMode(e.target.checked)}
+              disabled={isLoading}
+              className="rounded border-gray-300"
+            />
+            多 Agent 模式（规划 → 执行 → 审查）
+          </label>
+          <p className="text-xs text-gray-400">
+            按 Enter 发送，Shift + Enter 换行
+          </p>
         </div>
-        <p className="text-xs text-gray-400 mt-2 text-center">
-          按 Enter 发送，Shift + Enter 换行
-        </p>
       </div>
     </div>
   );
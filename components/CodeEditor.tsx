@@ -1,7 +1,8 @@
 'use client';
 
-import { useEffect, useRef } from 'react';
+import { useEffect, useRef, useState } from 'react';
 import dynamic from 'next/dynamic';
+import type { FileDiagnostic } from '@/lib/agent/types';
 
 const Editor = dynamic(() => import('@monaco-editor/react'), {
   ssr: false,
@@ -18,16 +19,21 @@ const Editor = dynamic(() => import('@monaco-editor/react'), {
 interface CodeEditorProps {
   file: { path: string; content: string } | null;
   onContentChange?: (content: string) => void;
+  diagnostics?: FileDiagnostic[]; // 修改后检查的结果，显示为编辑器标记
 }
 
-export function CodeEditor({ file, onContentChange }: CodeEditorProps) {
+export function CodeEditor({ file, onContentChange, diagnostics }: CodeEditorProps) {
   const editorRef = useRef<any>(null);
+  const monacoRef = useRef<any>(null);
+  const [editorReady, setEditorReady] = useState(false);
   
   const handleEditorDidMount = (
     editor: any,
     monaco: any
   ) => {
     editorRef.current = editor;
+    monacoRef.current = monaco;
+    setEditorReady(true);
     
     // 配置 Monaco 主题（Cursor Light）
     monaco.editor.defineTheme('cursor-light', {
@@ -90,6 +96,30 @@ export function CodeEditor({ file, onContentChange }: CodeEditorProps) {
     }
   }, [file?.path]);
   
+  // 没有打开文件时编辑器会被卸载，重新打开后等待 onMount
+  useEffect(() => {
+    if (!file) setEditorReady(false);
+  }, [file]);
+
+  // 把诊断显示为 Monaco 标记（波浪线 + 悬停信息）
+  useEffect(() => {
+    const monaco = monacoRef.current;
+    const model = editorRef.current?.getModel();
+    if (!editorReady || !monaco || !model || model.isDisposed()) return;
+
+    const markers = (diagnostics || []).map(diagnostic => ({
+      severity: diagnostic.severity === 'error' ? monaco.MarkerSeverity.Error : monaco.MarkerSeverity.Warning,
+      message: diagnostic.message,
+      code: diagnostic.code,
+      source: diagnostic.source,
+      startLineNumber: diagnostic.line,
+      startColumn: diagnostic.column,
+      endLineNumber: diagnostic.endLine,
+      endColumn: Math.max(diagnostic.endColumn, diagnostic.line === diagnostic.endLine ? diagnostic.column + 1 : 1),
+    }));
+    monaco.editor.setModelMarkers(model, 'agent-verification', markers);
+  }, [diagnostics, editorReady, file?.path, file?.content]);
+  
   if (!file) {
     return (
       <div className="h-full flex items-center justify-center bg-white">
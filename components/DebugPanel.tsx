@@ -2,10 +2,12 @@
 
 import React, { useEffect, useMemo, useState } from 'react';
 import { WorkflowRun, WorkflowStep } from '@/lib/agent/types';
+import type { CostLedger } from '@/lib/debug/cost';
 import { DiffViewer } from './DiffViewer';
 
 interface DebugPanelProps {
   workflow: WorkflowRun | null;
+  costLedger?: CostLedger | null;
   isLoading?: boolean;
   error?: string | null;
   onRefresh?: () => void;
@@ -19,7 +21,7 @@ interface CheckpointPreview {
   status: string;
 }
 
-export function DebugPanel({ workflow, isLoading, error, onRefresh }: DebugPanelProps) {
+export function DebugPanel({ workflow, costLedger, isLoading, error, onRefresh }: DebugPanelProps) {
   const [selectedStep, setSelectedStep] = useState<WorkflowStep | null>(null);
   const [checkpointPreview, setCheckpointPreview] = useState<CheckpointPreview | null>(null);
   const [checkpointLoading, setCheckpointLoading] = useState(false);
@@ -81,6 +83,7 @@ export function DebugPanel({ workflow, isLoading, error, onRefresh }: DebugPanel
     in_progress: 'bg-blue-50 text-blue-700 border-blue-100',
     completed: 'bg-green-50 text-green-700 border-green-100',
     error: 'bg-red-50 text-red-600 border-red-100',
+    cancelled: 'bg-gray-100 text-gray-500 border-gray-200',
   };
 
   const renderContent = () => {
@@ -176,6 +179,9 @@ export function DebugPanel({ workflow, isLoading, error, onRefresh }: DebugPanel
                 {selectedStep.metadata?.tool && (
                   <span>工具：{selectedStep.metadata.tool}</span>
                 )}
+                {selectedStep.metadata?.role && (
+                  <span>角色：{selectedStep.metadata.role}</span>
+                )}
                 {selectedStep.metadata?.filePath && (
                   <span>文件：{selectedStep.metadata.filePath}</span>
                 )}
@@ -234,11 +240,47 @@ export function DebugPanel({ workflow, isLoading, error, onRefresh }: DebugPanel
           </button>
         )}
       </div>
+      {costLedger && costLedger.totals.calls > 0 && (
+        <div className="px-4 py-3 border-b bg-white text-xs text-gray-600 space-y-2">
+          <div className="flex flex-wrap items-center gap-x-4 gap-y-1">
+            <span className="font-semibold text-gray-900">Token 用量 & 费用</span>
+            <span>LLM 调用：{costLedger.totals.calls} 次</span>
+            <span>
+              Token：{formatTokens(costLedger.totals.total)}
+              （输入 {formatTokens(costLedger.totals.prompt)} / 输出 {formatTokens(costLedger.totals.completion)}）
+            </span>
+            <span className="font-medium text-gray-900">
+              费用：{formatCost(costLedger.totals.cost, costLedger.currency)}
+            </span>
+            {costLedger.totals.estimated && (
+              <span className="px-2 py-0.5 rounded-full border border-yellow-100 bg-yellow-50 text-yellow-700">
+                含估算用量
+              </span>
+            )}
+          </div>
+          <div className="flex flex-wrap gap-2">
+            {Object.entries(costLedger.byModel).map(([model, stats]) => (
+              <span key={model} className="px-2 py-1 rounded-lg bg-gray-50 border border-gray-200">
+                {model}：{stats.calls} 次 · {formatTokens(stats.total)} tokens · {formatCost(stats.cost, costLedger.currency)}
+                {costLedger.entries.some(entry => entry.model === model && !entry.priced) && '（未配置价格）'}
+              </span>
+            ))}
+          </div>
+        </div>
+      )}
       {renderContent()}
     </div>
   );
 }
 
+function formatTokens(tokens: number) {
+  return tokens >= 1000 ? `${(tokens / 1000).toFixed(1)}k` : String(tokens);
+}
+
+function formatCost(cost: number, currency: string) {
+  return `${cost.toFixed(4)} ${currency}`;
+}
+
 function statusLabel(status: string) {
   switch (status) {
     case 'pending':
@@ -249,6 +291,8 @@ function statusLabel(status: string) {
       return '已完成';
     case 'error':
       return '失败';
+    case 'cancelled':
+      return '已取消';
     default:
       return status;
   }
@@ -2,6 +2,7 @@
 
 import { useEffect, useRef } from 'react';
 import dynamic from 'next/dynamic';
+import type { CheckpointKind } from '@/lib/agent/types';
 
 // 正确导入 DiffEditor
 const DiffEditor = dynamic(
@@ -12,8 +13,49 @@ const DiffEditor = dynamic(
   }
 );
 
+// 变更集中的单个文件
+export interface DiffFileItem {
+  id: string;
+  kind?: CheckpointKind;
+  filePath: string;
+  targetPath?: string;
+  status: 'pending' | 'applied' | 'rejected';
+}
+
+// 文件操作的简短描述（edit 只显示路径前缀「修改」）
+export function describeFileChange(kind: CheckpointKind | undefined, filePath: string, targetPath?: string) {
+  switch (kind) {
+    case 'move':
+      return `移动 ${filePath} → ${targetPath}`;
+    case 'delete':
+      return `删除 ${filePath}`;
+    case 'mkdir':
+      return `创建目录 ${filePath}`;
+    default:
+      return `修改 ${filePath}`;
+  }
+}
+
+// 文件操作的提示条样式
+const CHANGE_BANNERS: Record<Exclude<CheckpointKind, 'edit'>, { className: string; text: (filePath: string, targetPath?: string) => string }> = {
+  move: {
+    className: 'bg-amber-50 text-amber-800 border-amber-100',
+    text: (filePath, targetPath) => `文件将从 ${filePath} 移动到 ${targetPath}，内容不变`,
+  },
+  delete: {
+    className: 'bg-red-50 text-red-700 border-red-100',
+    text: filePath => `文件 ${filePath} 将被删除`,
+  },
+  mkdir: {
+    className: 'bg-green-50 text-green-700 border-green-100',
+    text: filePath => `将创建目录 ${filePath}`,
+  },
+};
+
 interface DiffViewerProps {
+  kind?: CheckpointKind;
   filePath: string;
+  targetPath?: string;
   originalContent: string;
   modifiedContent: string;
   onApprove?: () => void;
@@ -22,10 +64,19 @@ interface DiffViewerProps {
   mode?: 'approval' | 'preview';
   height?: number | string;
   showActions?: boolean;
+  files?: DiffFileItem[];
+  activeFileId?: string;
+  onSelectFile?: (id: string) => void;
+  onApproveAll?: () => void;
+  onRollback?: () => void; // 预览已应用的检查点时显示「回滚」
+  isRollingBack?: boolean;
+  rolledBack?: boolean;
 }
 
 export function DiffViewer({
+  kind = 'edit',
   filePath,
+  targetPath,
   originalContent,
   modifiedContent,
   onApprove,
@@ -34,6 +85,13 @@ export function DiffViewer({
   mode = 'approval',
   height = 500,
   showActions = true,
+  files,
+  activeFileId,
+  onSelectFile,
+  onApproveAll,
+  onRollback,
+  isRollingBack = false,
+  rolledBack = false,
 }: DiffViewerProps) {
   const editorRef = useRef<any>(null);
   const isFullHeight = typeof height === 'string' && height === '100%';
@@ -65,6 +123,7 @@ export function DiffViewer({
   };
 
   const isPreview = mode === 'preview';
+  const banner = kind !== 'edit' ? CHANGE_BANNERS[kind] : null;
 
   return (
     <div
@@ -97,19 +156,74 @@ export function DiffViewer({
                 <span className="text-xs text-gray-500 animate-pulse">thinking...</span>
               ) : (
                 <span className={`px-2 py-0.5 text-xs font-medium rounded ${
-                  isPreview ? 'text-gray-600 bg-gray-100' : 'text-blue-700 bg-blue-100'
+                  rolledBack
+                    ? 'text-amber-700 bg-amber-100'
+                    : isPreview ? 'text-gray-600 bg-gray-100' : 'text-blue-700 bg-blue-100'
                 }`}>
-                  {isPreview ? '预览' : '待审批'}
+                  {rolledBack ? '已回滚' : isPreview ? '预览' : '待审批'}
                 </span>
               )}
             </div>
-            <span className="text-xs text-gray-500 mt-0.5 block">{filePath}</span>
+            <span className="text-xs text-gray-500 mt-0.5 block">
+              {kind === 'move' ? `${filePath} → ${targetPath}` : filePath}
+            </span>
           </div>
+          {isPreview && onRollback && !rolledBack && (
+            <button
+              onClick={() => onRollback()}
+              disabled={isRollingBack}
+              className="px-3 py-1.5 text-xs font-medium text-amber-700 bg-white border border-amber-300 rounded-lg hover:bg-amber-50 disabled:opacity-50 disabled:cursor-not-allowed transition-all"
+            >
+              {isRollingBack ? '回滚中...' : '↶ 回滚'}
+            </button>
+          )}
         </div>
       </div>
 
-      {/* Diff 编辑器 */}
+      {/* 变更集文件列表 */}
+      {files && files.length > 1 && (
+        <div className="px-4 py-2 bg-white border-b border-gray-200 flex gap-2 overflow-x-auto">
+          {files.map(file => (
+            <button
+              key={file.id}
+              onClick={() => onSelectFile?.(file.id)}
+              className={`shrink-0 flex items-center gap-1.5 px-2.5 py-1 rounded-lg text-xs font-mono border transition-all ${
+                file.id === activeFileId
+                  ? 'border-blue-300 bg-blue-50 text-blue-700'
+                  : 'border-gray-200 text-gray-600 hover:border-blue-200'
+              }`}
+            >
+              <span
+                className={`w-1.5 h-1.5 rounded-full ${
+                  file.status === 'applied'
+                    ? 'bg-green-500'
+                    : file.status === 'rejected'
+                      ? 'bg-gray-300'
+                      : 'bg-blue-500'
+                }`}
+              />
+              {file.kind && file.kind !== 'edit'
+                ? describeFileChange(file.kind, file.filePath, file.targetPath)
+                : file.filePath}
+            </button>
+          ))}
+        </div>
+      )}
+
+      {/* 移动 / 删除 / 创建目录的说明 */}
+      {banner && (
+        <div className={`px-4 py-2 text-xs font-medium border-b ${banner.className}`}>
+          {banner.text(filePath, targetPath)}
+        </div>
+      )}
+
+      {/* Diff 编辑器（创建目录没有内容差异） */}
       <div className={`bg-gray-50 ${isFullHeight ? 'flex-1' : ''}`} style={diffAreaStyle}>
+        {kind === 'mkdir' ? (
+          <div className="h-full flex items-center justify-center text-sm text-gray-500">
+            📁 {filePath}
+          </div>
+        ) : (
         <DiffEditor
           key={`${filePath}-${originalContent?.length}-${modifiedContent?.length}`}
           original={originalContent}
@@ -132,6 +246,7 @@ export function DiffViewer({
             renderWhitespace: 'boundary',
           }}
         />
+        )}
       </div>
 
       {/* 底部操作按钮 */}
@@ -153,6 +268,15 @@ export function DiffViewer({
               >
                 ✓ 确认
               </button>
+              {onApproveAll && (
+                <button
+                  onClick={() => onApproveAll()}
+                  disabled={isApplying}
+                  className="px-5 py-2.5 text-sm font-semibold text-white bg-green-600 rounded-lg hover:bg-green-700 disabled:bg-green-400 disabled:cursor-not-allowed transition-all shadow-sm hover:shadow"
+                >
+                  ✓ 全部确认
+                </button>
+              )}
             </div>
           </div>
         </div>
@@ -0,0 +1,179 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import type { GitFileStatus, GitCommitInfo } from '@/lib/workspace/git';
+
+interface GitPanelProps {
+  sessionId: string;
+  refreshTrigger?: number;
+}
+
+interface GitState {
+  initialized: boolean;
+  branch?: string | null;
+  files?: GitFileStatus[];
+}
+
+// porcelain 状态 -> 显示的字母和颜色
+function statusBadge(file: GitFileStatus) {
+  const code = file.index === '?' ? 'U' : (file.workTree.trim() || file.index.trim());
+  const colors: Record<string, string> = {
+    M: 'text-amber-600',
+    A: 'text-green-600',
+    U: 'text-green-600',
+    D: 'text-red-600',
+    R: 'text-blue-600',
+  };
+  return { code, className: colors[code] || 'text-gray-500' };
+}
+
+export function GitPanel({ sessionId, refreshTrigger }: GitPanelProps) {
+  const [collapsed, setCollapsed] = useState(false);
+  const [state, setState] = useState<GitState | null>(null);
+  const [commits, setCommits] = useState<GitCommitInfo[]>([]);
+  const [message, setMessage] = useState('');
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadStatus = useCallback(async () => {
+    try {
+      const [statusResponse, logResponse] = await Promise.all([
+        fetch(`/api/workspace/git?sessionId=${sessionId}&action=status`),
+        fetch(`/api/workspace/git?sessionId=${sessionId}&action=log&maxCount=5`),
+      ]);
+      const status = await statusResponse.json();
+      const log = await logResponse.json();
+      if (!statusResponse.ok) {
+        throw new Error(status.error || 'Failed to load git status');
+      }
+      setState(status);
+      setCommits(log.commits || []);
+    } catch (error) {
+      console.error('Failed to load git status:', error);
+    }
+  }, [sessionId]);
+
+  useEffect(() => {
+    loadStatus();
+    const interval = setInterval(loadStatus, 5000);
+    return () => clearInterval(interval);
+  }, [loadStatus, refreshTrigger]);
+
+  const runAction = async (body: Record<string, any>) => {
+    setBusy(true);
+    setError(null);
+    try {
+      const response = await fetch('/api/workspace/git', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ sessionId, ...body }),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Git operation failed');
+      }
+      return data;
+    } catch (error: any) {
+      setError(error.message);
+      return null;
+    } finally {
+      setBusy(false);
+      loadStatus();
+    }
+  };
+
+  const handleCommit = async () => {
+    if (!message.trim()) return;
+    const result = await runAction({ action: 'commit', message });
+    if (result) setMessage('');
+  };
+
+  const changedFiles = state?.files || [];
+
+  return (
+    <div className="border-t border-gray-200 bg-gray-50 flex flex-col max-h-[45%]">
+      {/* 头部 */}
+      <button
+        onClick={() => setCollapsed(prev => !prev)}
+        className="px-3 py-2 flex items-center justify-between text-left hover:bg-gray-100 transition-colors"
+      >
+        <span className="text-xs font-semibold text-gray-900 uppercase tracking-wider">
+          源代码管理
+        </span>
+        <span className="text-xs text-gray-500">
+          {state?.initialized ? `⎇ ${state.branch || 'HEAD'}${changedFiles.length ? ` · ${changedFiles.length}` : ''}` : ''}
+          <span className="ml-2">{collapsed ? '▸' : '▾'}</span>
+        </span>
+      </button>
+
+      {!collapsed && state && (
+        <div className="px-3 pb-3 overflow-y-auto text-xs">
+          {!state.initialized ? (
+            <div className="py-2">
+              <p className="text-gray-500 mb-2">工作空间还不是 git 仓库。初始化后，批准的修改会自动提交。</p>
+              <button
+                onClick={() => runAction({ action: 'init' })}
+                disabled={busy}
+                className="w-full px-3 py-1.5 bg-blue-500 hover:bg-blue-600 text-white rounded transition-colors disabled:opacity-50"
+              >
+                初始化仓库
+              </button>
+            </div>
+          ) : (
+            <>
+              {/* 提交 */}
+              <div className="flex gap-1 mb-2">
+                <input
+                  value={message}
+                  onChange={(e) => setMessage(e.target.value)}
+                  onKeyDown={(e) => {
+                    if (e.key === 'Enter') handleCommit();
+                  }}
+                  placeholder="提交信息"
+                  className="flex-1 min-w-0 px-2 py-1 border border-gray-300 rounded bg-white focus:outline-none focus:border-blue-400"
+                />
+                <button
+                  onClick={handleCommit}
+                  disabled={busy || !message.trim() || changedFiles.length === 0}
+                  className="px-2 py-1 bg-blue-500 hover:bg-blue-600 text-white rounded transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  提交
+                </button>
+              </div>
+
+              {/* 改动的文件 */}
+              {changedFiles.length === 0 ? (
+                <p className="text-gray-400 mb-2">没有未提交的改动</p>
+              ) : (
+                <ul className="mb-2 space-y-0.5">
+                  {changedFiles.map(file => {
+                    const badge = statusBadge(file);
+                    return (
+                      <li key={file.path} className="flex items-center gap-2" title={file.from ? `${file.from} → ${file.path}` : file.path}>
+                        <span className={`w-3 font-mono font-semibold ${badge.className}`}>{badge.code}</span>
+                        <span className="truncate text-gray-700">{file.path}</span>
+                      </li>
+                    );
+                  })}
+                </ul>
+              )}
+
+              {/* 最近的提交 */}
+              {commits.length > 0 && (
+                <ul className="border-t border-gray-200 pt-2 space-y-1">
+                  {commits.map(commit => (
+                    <li key={commit.sha} className="flex gap-2" title={`${commit.author} · ${new Date(commit.date).toLocaleString()}`}>
+                      <span className="font-mono text-gray-400">{commit.shortSha}</span>
+                      <span className="truncate text-gray-700">{commit.subject}</span>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </>
+          )}
+          {error && <p className="mt-2 text-red-600">{error}</p>}
+        </div>
+      )}
+    </div>
+  );
+}
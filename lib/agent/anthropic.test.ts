@@ -0,0 +1,117 @@
+import http from 'http';
+import type { AddressInfo } from 'net';
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { toAnthropicMessages } from './anthropic';
+import { LLMClient, LLMStreamChunk } from './llm';
+import type { Message } from './types';
+
+// 本地 Messages API：记录请求，按 SSE 返回固定的事件序列
+const events = [
+  { type: 'message_start', message: { id: 'msg_1', model: 'claude-test', usage: { input_tokens: 12, cache_read_input_tokens: 3, output_tokens: 1 } } },
+  { type: 'content_block_start', index: 0, content_block: { type: 'text', text: '' } },
+  { type: 'content_block_delta', index: 0, delta: { type: 'text_delta', text: '读取' } },
+  { type: 'content_block_delta', index: 0, delta: { type: 'text_delta', text: '文件' } },
+  { type: 'content_block_stop', index: 0 },
+  { type: 'content_block_start', index: 1, content_block: { type: 'tool_use', id: 'toolu_1', name: 'read_file', input: {} } },
+  { type: 'content_block_delta', index: 1, delta: { type: 'input_json_delta', partial_json: '{"path":' } },
+  { type: 'content_block_delta', index: 1, delta: { type: 'input_json_delta', partial_json: '"src/a.ts"}' } },
+  { type: 'content_block_stop', index: 1 },
+  { type: 'ping' },
+  { type: 'message_delta', delta: { stop_reason: 'tool_use' }, usage: { output_tokens: 20 } },
+  { type: 'message_stop' },
+];
+
+let server: http.Server;
+let baseUrl: string;
+const requests: { headers: http.IncomingHttpHeaders; body: any }[] = [];
+
+beforeAll(async () => {
+  server = http.createServer((req, res) => {
+    let raw = '';
+    req.on('data', chunk => (raw += chunk));
+    req.on('end', () => {
+      requests.push({ headers: req.headers, body: JSON.parse(raw) });
+      res.writeHead(200, { 'Content-Type': 'text/event-stream' });
+      for (const event of events) {
+        res.write(`event: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`);
+      }
+      res.end();
+    });
+  });
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/v1`;
+});
+
+afterAll(async () => {
+  await new Promise(resolve => server.close(resolve));
+});
+
+const conversation: Message[] = [
+  { role: 'system', content: '你是编程助手' },
+  { role: 'user', content: '看看 a.ts 和 b.ts' },
+  {
+    role: 'assistant',
+    content: '',
+    tool_calls: [
+      { id: 'toolu_a', type: 'function', function: { name: 'read_file', arguments: '{"path":"a.ts"}' } },
+      { id: 'toolu_b', type: 'function', function: { name: 'read_file', arguments: '{"path":"b.ts"}' } },
+    ],
+  },
+  { role: 'tool', tool_call_id: 'toolu_a', content: 'const a = 1;' },
+  { role: 'system', content: '文件较大，只读取需要的部分' },
+  { role: 'tool', tool_call_id: 'toolu_b', content: 'const b = 2;' },
+];
+
+describe('toAnthropicMessages', () => {
+  it('puts tool_result blocks before system text in the user turn', () => {
+    const { system, messages } = toAnthropicMessages(conversation);
+
+    expect(system).toBe('你是编程助手');
+    expect(messages.map(message => message.role)).toEqual(['user', 'assistant', 'user']);
+    expect(messages[1].content.map((block: any) => block.type)).toEqual(['tool_use', 'tool_use']);
+    expect(messages[2].content).toEqual([
+      { type: 'tool_result', tool_use_id: 'toolu_a', content: 'const a = 1;' },
+      { type: 'tool_result', tool_use_id: 'toolu_b', content: 'const b = 2;' },
+      { type: 'text', text: '[系统提示] 文件较大，只读取需要的部分' },
+    ]);
+  });
+});
+
+describe('LLMClient with the claude provider', () => {
+  it('maps a streamed Messages response to text, tool calls and usage', async () => {
+    const client = new LLMClient({
+      provider: 'claude',
+      apiKey: 'test-key',
+      baseUrl,
+      model: 'claude-test',
+      retry: { maxRetries: 0 },
+    });
+
+    const chunks: LLMStreamChunk[] = [];
+    for await (const chunk of client.streamChat(conversation, [{
+      type: 'function',
+      function: { name: 'read_file', description: 'Read a file', parameters: { type: 'object', properties: { path: { type: 'string' } } } },
+    }])) {
+      chunks.push(chunk);
+    }
+
+    const request = requests[requests.length - 1];
+    expect(request.headers['x-api-key']).toBe('test-key');
+    expect(request.headers['anthropic-version']).toBeDefined();
+    expect(request.body).toMatchObject({
+      model: 'claude-test',
+      system: '你是编程助手',
+      stream: true,
+      tools: [{ name: 'read_file', input_schema: { type: 'object' } }],
+    });
+    expect(request.body.messages[2].content[0].type).toBe('tool_result');
+
+    expect(chunks.map(chunk => chunk.delta).join('')).toBe('读取文件');
+    expect(chunks.flatMap(chunk => chunk.tool_calls || [])).toEqual([
+      { id: 'toolu_1', type: 'function', function: { name: 'read_file', arguments: '{"path":"src/a.ts"}' } },
+    ]);
+    const done = chunks[chunks.length - 1];
+    expect(done.done).toBe(true);
+    expect(done.usage).toEqual({ prompt: 15, completion: 20, total: 35 });
+  });
+});
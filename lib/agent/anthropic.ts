@@ -0,0 +1,220 @@
+// Anthropic Messages API 适配器
+// 内部统一使用 OpenAI 格式的 Message / tools，这里负责与 Anthropic 格式互相转换
+import type { Message, TokenUsage } from './types';
+import type { LLMStreamChunk, ToolCallAccumulator } from './llm';
+
+export const ANTHROPIC_VERSION = '2023-06-01';
+export const ANTHROPIC_DEFAULT_MAX_TOKENS = 4096;
+
+/**
+ * toolsToFunctions 的输出 -> Anthropic tool 定义
+ */
+export function toAnthropicTools(functions: any[]): any[] {
+  return functions.map(fn => ({
+    name: fn.function.name,
+    description: fn.function.description,
+    input_schema: fn.function.parameters || { type: 'object', properties: {} },
+  }));
+}
+
+/**
+ * OpenAI 格式消息 -> { system, messages }
+ * - 开头的 system 消息合并为顶层 system 字段
+ * - 对话中途插入的 system 消息转换为 user 文本
+ * - assistant 的 tool_calls 转换为 tool_use 块，tool 消息转换为 tool_result 块
+ * - 相邻的同角色消息合并（Anthropic 要求 user / assistant 交替）
+ * - 合并后的 user 消息中 tool_result 块排在文本之前（Messages API 要求 tool_result 在最前面）
+ */
+export function toAnthropicMessages(messages: Message[]): { system?: string; messages: any[] } {
+  const systemParts: string[] = [];
+  const result: { role: 'user' | 'assistant'; content: any[] }[] = [];
+
+  const push = (role: 'user' | 'assistant', blocks: any[]) => {
+    if (blocks.length === 0) return;
+    const last = result[result.length - 1];
+    if (last && last.role === role) {
+      last.content.push(...blocks);
+    } else {
+      result.push({ role, content: blocks });
+    }
+  };
+
+  const textBlock = (text: string) => (text ? [{ type: 'text', text }] : []);
+
+  for (const message of messages) {
+    switch (message.role) {
+      case 'system':
+        if (result.length === 0) {
+          systemParts.push(message.content);
+        } else {
+          push('user', textBlock(`[系统提示] ${message.content}`));
+        }
+        break;
+
+      case 'user':
+        push('user', textBlock(message.content));
+        break;
+
+      case 'assistant': {
+        const blocks: any[] = textBlock(message.content);
+        for (const toolCall of message.tool_calls || []) {
+          let input: any = {};
+          try {
+            input = JSON.parse(toolCall.function.arguments || '{}');
+          } catch {
+            input = {}; // 非法参数已经作为错误反馈给模型
+          }
+          blocks.push({
+            type: 'tool_use',
+            id: toolCall.id,
+            name: toolCall.function.name,
+            input,
+          });
+        }
+        push('assistant', blocks);
+        break;
+      }
+
+      case 'tool':
+        push('user', [{
+          type: 'tool_result',
+          tool_use_id: message.tool_call_id,
+          content: message.content,
+        }]);
+        break;
+    }
+  }
+
+  for (const message of result) {
+    if (message.role === 'user') {
+      message.content = [
+        ...message.content.filter(block => block.type === 'tool_result'),
+        ...message.content.filter(block => block.type !== 'tool_result'),
+      ];
+    }
+  }
+
+  return {
+    ...(systemParts.length > 0 ? { system: systemParts.join('\n\n') } : {}),
+    messages: result,
+  };
+}
+
+// Anthropic usage -> TokenUsage（输入 token 包含缓存读写的部分）
+function toTokenUsage(usage: any): TokenUsage {
+  const prompt = (usage.input_tokens || 0)
+    + (usage.cache_creation_input_tokens || 0)
+    + (usage.cache_read_input_tokens || 0);
+  const completion = usage.output_tokens || 0;
+  return { prompt, completion, total: prompt + completion };
+}
+
+/**
+ * 处理一条 Messages 流式事件，返回需要交出的 chunk
+ * 事件类型：message_start / content_block_start / content_block_delta /
+ * content_block_stop / message_delta / message_stop / ping / error
+ * usage 在 message_start（输入）和 message_delta（累计输出）中返回，结束时随 done chunk 交出
+ */
+export function handleAnthropicEvent(
+  event: any,
+  toolCalls: ToolCallAccumulator,
+  usage: { current?: TokenUsage }
+): LLMStreamChunk[] {
+  switch (event.type) {
+    case 'message_start':
+      if (event.message?.usage) {
+        usage.current = toTokenUsage(event.message.usage);
+      }
+      return [];
+
+    case 'message_delta':
+      if (event.usage && usage.current) {
+        const completion = event.usage.output_tokens ?? usage.current.completion;
+        usage.current = { ...usage.current, completion, total: usage.current.prompt + completion };
+      }
+      return [];
+
+    case 'content_block_start': {
+      const block = event.content_block;
+      if (block?.type === 'tool_use') {
+        const hasInput = block.input && Object.keys(block.input).length > 0;
+        toolCalls.add([{
+          index: event.index,
+          id: block.id,
+          function: { name: block.name, arguments: hasInput ? JSON.stringify(block.input) : '' },
+        }]);
+      } else if (block?.type === 'text' && block.text) {
+        return [{ delta: block.text, done: false }];
+      }
+      return [];
+    }
+
+    case 'content_block_delta': {
+      const delta = event.delta;
+      if (delta?.type === 'text_delta' && delta.text) {
+        return [{ delta: delta.text, done: false }];
+      }
+      if (delta?.type === 'input_json_delta') {
+        toolCalls.add([{ index: event.index, function: { arguments: delta.partial_json || '' } }]);
+      }
+      return [];
+    }
+
+    case 'message_stop': {
+      const pending = toolCalls.flushChunk();
+      return [
+        ...(pending ? [pending] : []),
+        { delta: '', done: true, ...(usage.current ? { usage: usage.current } : {}) },
+      ];
+    }
+
+    case 'error':
+      throw new Error(`LLM API error: ${event.error?.type || 'error'} - ${event.error?.message || ''}`);
+
+    default:
+      return [];
+  }
+}
+
+/**
+ * 非流式响应 -> OpenAI chat.completion 格式（调用方统一读取 choices[0].message）
+ */
+export function fromAnthropicResponse(data: any): any {
+  const blocks: any[] = data.content || [];
+  const text = blocks
+    .filter(block => block.type === 'text')
+    .map(block => block.text)
+    .join('');
+  const toolCalls = blocks
+    .filter(block => block.type === 'tool_use')
+    .map(block => ({
+      id: block.id,
+      type: 'function',
+      function: {
+        name: block.name,
+        arguments: JSON.stringify(block.input || {}),
+      },
+    }));
+  const usage = data.usage ? toTokenUsage(data.usage) : undefined;
+
+  return {
+    id: data.id,
+    model: data.model,
+    choices: [{
+      index: 0,
+      message: {
+        role: 'assistant',
+        content: text,
+        ...(toolCalls.length > 0 ? { tool_calls: toolCalls } : {}),
+      },
+      finish_reason: data.stop_reason === 'tool_use' ? 'tool_calls' : data.stop_reason,
+    }],
+    usage: usage
+      ? {
+          prompt_tokens: usage.prompt,
+          completion_tokens: usage.completion,
+          total_tokens: usage.total,
+        }
+      : undefined,
+  };
+}
@@ -0,0 +1,41 @@
+// 正在运行的 Agent 执行注册表 - 支持按 sessionId 取消
+class ExecutionRegistry {
+  private controllers: Map<string, AbortController> = new Map();
+
+  /**
+   * 登记一次新的执行（同一会话中旧的执行会被取消）
+   */
+  start(sessionId: string): AbortController {
+    this.cancel(sessionId, '新的请求已开始');
+    const controller = new AbortController();
+    this.controllers.set(sessionId, controller);
+    return controller;
+  }
+
+  /**
+   * 取消会话当前的执行，返回是否存在正在运行的执行
+   */
+  cancel(sessionId: string, reason = '用户取消了执行'): boolean {
+    const controller = this.controllers.get(sessionId);
+    if (!controller) return false;
+
+    this.controllers.delete(sessionId);
+    controller.abort(reason);
+    return true;
+  }
+
+  /**
+   * 执行结束后移除登记（仅当仍是同一个执行时）
+   */
+  finish(sessionId: string, controller: AbortController) {
+    if (this.controllers.get(sessionId) === controller) {
+      this.controllers.delete(sessionId);
+    }
+  }
+
+  isRunning(sessionId: string): boolean {
+    return this.controllers.has(sessionId);
+  }
+}
+
+export const executionRegistry = new ExecutionRegistry();
@@ -0,0 +1,128 @@
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { applyCheckpointWrites, checkpointStore, rollbackCheckpoints } from './checkpoints';
+import type { CheckpointKind, CodeCheckpoint } from './types';
+
+let workspace: string;
+
+beforeEach(async () => {
+  workspace = await fs.mkdtemp(path.join(os.tmpdir(), 'checkpoints-'));
+  await fs.mkdir(path.join(workspace, 'src'));
+  await fs.writeFile(path.join(workspace, 'src/a.ts'), 'export const a = 1;\n');
+});
+
+afterEach(async () => {
+  checkpointStore.clearSession('test');
+  await fs.rm(workspace, { recursive: true, force: true });
+});
+
+function checkpoint(kind: CheckpointKind, filePath: string, extra: Partial<CodeCheckpoint> = {}): CodeCheckpoint {
+  return checkpointStore.create('test', {
+    kind,
+    filePath,
+    originalContent: '',
+    modifiedContent: '',
+    ...extra,
+  });
+}
+
+// 应用并标记为已应用（与审批接口相同）
+async function apply(checkpoints: CodeCheckpoint[], content = '') {
+  await applyCheckpointWrites(workspace, checkpoints.map(cp => ({ checkpoint: cp, content })));
+  checkpoints.forEach(cp => checkpointStore.resolveDecision(cp.id, { status: 'applied' }));
+}
+
+const read = (filePath: string) => fs.readFile(path.join(workspace, filePath), 'utf-8').catch(() => null);
+
+describe('rollbackCheckpoints', () => {
+  it('restores edited and newly created files', async () => {
+    const edit = checkpoint('edit', 'src/a.ts');
+    const created = checkpoint('edit', 'src/new/b.ts');
+    await apply([edit, created], 'changed\n');
+
+    await rollbackCheckpoints(workspace, [edit, created]);
+
+    expect(await read('src/a.ts')).toBe('export const a = 1;\n');
+    expect(await read('src/new/b.ts')).toBeNull();
+    expect(checkpointStore.get(edit.id)?.status).toBe('rolled_back');
+  });
+
+  it('moves a file back and removes the directory the move created', async () => {
+    const move = checkpoint('move', 'src/a.ts', { targetPath: 'lib/deep/a.ts' });
+    await apply([move]);
+    expect(await read('lib/deep/a.ts')).toBe('export const a = 1;\n');
+
+    await rollbackCheckpoints(workspace, [move]);
+
+    expect(await read('src/a.ts')).toBe('export const a = 1;\n');
+    await expect(fs.access(path.join(workspace, 'lib'))).rejects.toThrow();
+  });
+
+  it('restores a deleted file', async () => {
+    const remove = checkpoint('delete', 'src/a.ts');
+    await apply([remove]);
+    expect(await read('src/a.ts')).toBeNull();
+
+    await rollbackCheckpoints(workspace, [remove]);
+
+    expect(await read('src/a.ts')).toBe('export const a = 1;\n');
+  });
+
+  it('removes a created directory but keeps files added to it later', async () => {
+    const mkdir = checkpoint('mkdir', 'docs/api');
+    await apply([mkdir]);
+    await fs.writeFile(path.join(workspace, 'docs/notes.md'), 'keep');
+
+    await rollbackCheckpoints(workspace, [mkdir]);
+
+    await expect(fs.access(path.join(workspace, 'docs/api'))).rejects.toThrow();
+    expect(await read('docs/notes.md')).toBe('keep');
+  });
+
+  it('refuses to roll back a file modified after it was applied', async () => {
+    const edit = checkpoint('edit', 'src/a.ts');
+    await apply([edit], 'changed\n');
+    await fs.writeFile(path.join(workspace, 'src/a.ts'), 'edited by the user\n');
+
+    await expect(rollbackCheckpoints(workspace, [edit])).rejects.toThrow('又被修改');
+    expect(await read('src/a.ts')).toBe('edited by the user\n');
+    expect(checkpointStore.get(edit.id)?.status).toBe('applied');
+  });
+
+  it('rejects checkpoints that were not applied', async () => {
+    const edit = checkpoint('edit', 'src/a.ts');
+    await expect(rollbackCheckpoints(workspace, [edit])).rejects.toThrow('没有可回滚的修改');
+  });
+});
+
+describe('checkpointStore.clearSession', () => {
+  it('rejects pending decisions so waiting executors resume', async () => {
+    const edit = checkpoint('edit', 'src/a.ts');
+    const decision = checkpointStore.waitForDecision(edit.id);
+
+    checkpointStore.clearSession('test');
+
+    await expect(decision).resolves.toEqual({ status: 'rejected', reason: 'session cleared' });
+    expect(checkpointStore.get(edit.id)).toBeUndefined();
+  });
+});
+
+describe('checkpointStore.claim', () => {
+  it('lets only one approval request process a checkpoint at a time', () => {
+    const first = checkpoint('edit', 'src/a.ts');
+    const second = checkpoint('edit', 'src/b.ts');
+
+    expect(checkpointStore.claim([first.id])).toBe(true);
+    // 重复点击和包含该文件的变更集审批都被拒绝，且不占用其他文件
+    expect(checkpointStore.claim([first.id])).toBe(false);
+    expect(checkpointStore.claim([first.id, second.id])).toBe(false);
+    expect(checkpointStore.claim([second.id])).toBe(true);
+
+    checkpointStore.release([first.id, second.id]);
+    checkpointStore.resolveDecision(first.id, { status: 'applied' });
+    expect(checkpointStore.claim([first.id])).toBe(false);
+    expect(checkpointStore.claim([second.id])).toBe(true);
+  });
+});
@@ -1,17 +1,29 @@
 import crypto from 'crypto';
-import { CodeCheckpoint, CheckpointStatus } from './types';
+import fs from 'fs/promises';
+import path from 'path';
+import { CodeCheckpoint, CheckpointStatus, CheckpointDecision, CheckpointUndo, ChangeSet } from './types';
+import { resolveWorkspacePath, WorkspacePathError } from '../workspace/paths';
+import { gitCommit, isGitRepository } from '../workspace/git';
 
 class CheckpointStore {
   private checkpoints: Map<string, CodeCheckpoint> = new Map();
+  private changeSets: Map<string, ChangeSet> = new Map();
+  // 等待审批结果的执行器（checkpointId -> resolve）
+  private waiters: Map<string, (decision: CheckpointDecision) => void> = new Map();
+  // 正在被审批请求处理（应用、检查、提交）的检查点
+  private claimed: Set<string> = new Set();
 
   create(sessionId: string, data: Omit<CodeCheckpoint, 'id' | 'status' | 'createdAt' | 'updatedAt' | 'sessionId'> & { status?: CheckpointStatus }): CodeCheckpoint {
     const checkpoint: CodeCheckpoint = {
       id: crypto.randomUUID(),
       sessionId,
+      kind: data.kind || 'edit',
       filePath: data.filePath,
+      ...(data.targetPath ? { targetPath: data.targetPath } : {}),
       originalContent: data.originalContent,
       modifiedContent: data.modifiedContent,
       status: data.status || 'pending',
+      changeSetId: data.changeSetId,
       createdAt: Date.now(),
       updatedAt: Date.now(),
     };
@@ -36,13 +48,421 @@ class CheckpointStore {
     return cp;
   }
 
+  /**
+   * 将同一轮提出的多个检查点归为一个变更集
+   */
+  createChangeSet(sessionId: string, checkpointIds: string[]): ChangeSet {
+    const changeSet: ChangeSet = {
+      id: crypto.randomUUID(),
+      sessionId,
+      checkpointIds,
+      status: 'pending',
+      createdAt: Date.now(),
+      updatedAt: Date.now(),
+    };
+
+    for (const id of checkpointIds) {
+      const cp = this.checkpoints.get(id);
+      if (cp) cp.changeSetId = changeSet.id;
+    }
+
+    this.changeSets.set(changeSet.id, changeSet);
+    return changeSet;
+  }
+
+  getChangeSet(changeSetId: string): ChangeSet | undefined {
+    return this.changeSets.get(changeSetId);
+  }
+
+  getChangeSetCheckpoints(changeSetId: string): CodeCheckpoint[] {
+    const changeSet = this.changeSets.get(changeSetId);
+    if (!changeSet) return [];
+    return changeSet.checkpointIds
+      .map(id => this.checkpoints.get(id))
+      .filter((cp): cp is CodeCheckpoint => !!cp);
+  }
+
+  private refreshChangeSetStatus(changeSetId: string) {
+    const changeSet = this.changeSets.get(changeSetId);
+    if (!changeSet) return;
+
+    const statuses = this.getChangeSetCheckpoints(changeSetId).map(cp => cp.status);
+    if (statuses.some(status => status === 'pending')) {
+      changeSet.status = 'pending';
+    } else if (statuses.every(status => status === 'applied')) {
+      changeSet.status = 'applied';
+    } else if (statuses.every(status => status === 'rejected')) {
+      changeSet.status = 'rejected';
+    } else if (statuses.every(status => status === 'rolled_back')) {
+      changeSet.status = 'rolled_back';
+    } else {
+      changeSet.status = 'partial';
+    }
+    changeSet.updatedAt = Date.now();
+  }
+
+  /**
+   * 挂起直到用户审批（或拒绝）该检查点
+   */
+  waitForDecision(checkpointId: string): Promise<CheckpointDecision> {
+    const cp = this.checkpoints.get(checkpointId);
+    if (cp && cp.status !== 'pending') {
+      // 已回滚的检查点当时的审批结果是应用
+      return Promise.resolve({ status: cp.status === 'rolled_back' ? 'applied' : cp.status });
+    }
+
+    return new Promise(resolve => {
+      this.waiters.set(checkpointId, resolve);
+    });
+  }
+
+  /**
+   * 记录审批结果并唤醒等待中的执行器
+   */
+  resolveDecision(checkpointId: string, decision: CheckpointDecision): boolean {
+    const cp = this.updateStatus(checkpointId, decision.status);
+    if (!cp) return false;
+    if (cp.changeSetId) {
+      this.refreshChangeSetStatus(cp.changeSetId);
+    }
+
+    const resolve = this.waiters.get(checkpointId);
+    if (resolve) {
+      this.waiters.delete(checkpointId);
+      resolve(decision);
+    }
+    return true;
+  }
+
+  /**
+   * 占用一组待审批的检查点，防止并发的审批请求重复应用和提交。
+   * 任意检查点不是 pending 或已被占用时不占用任何检查点，返回 false；处理完成后调用 release
+   */
+  claim(checkpointIds: string[]): boolean {
+    const available = checkpointIds.every(id =>
+      this.checkpoints.get(id)?.status === 'pending' && !this.claimed.has(id)
+    );
+    if (!available) return false;
+    checkpointIds.forEach(id => this.claimed.add(id));
+    return true;
+  }
+
+  release(checkpointIds: string[]) {
+    checkpointIds.forEach(id => this.claimed.delete(id));
+  }
+
+  setCommitSha(checkpointId: string, commitSha: string) {
+    const cp = this.checkpoints.get(checkpointId);
+    if (cp) cp.commitSha = commitSha;
+  }
+
+  setUndo(checkpointId: string, undo: CheckpointUndo) {
+    const cp = this.checkpoints.get(checkpointId);
+    if (cp) cp.undo = undo;
+  }
+
+  /**
+   * 标记检查点已回滚（回滚后不能再次回滚）
+   */
+  markRolledBack(checkpointId: string) {
+    const cp = this.updateStatus(checkpointId, 'rolled_back');
+    if (!cp) return;
+    delete cp.undo;
+    if (cp.changeSetId) {
+      this.refreshChangeSetStatus(cp.changeSetId);
+    }
+  }
+
+  // 清除会话的检查点；等待中的执行器收到拒绝，以便结束执行
   clearSession(sessionId: string) {
-    for (const [id, checkpoint] of this.checkpoints.entries()) {
+    Array.from(this.checkpoints.values()).forEach(checkpoint => {
       if (checkpoint.sessionId === sessionId) {
-        this.checkpoints.delete(id);
+        this.checkpoints.delete(checkpoint.id);
+        this.claimed.delete(checkpoint.id);
+        const resolve = this.waiters.get(checkpoint.id);
+        if (resolve) {
+          this.waiters.delete(checkpoint.id);
+          resolve({ status: 'rejected', reason: 'session cleared' });
+        }
       }
-    }
+    });
+    Array.from(this.changeSets.values()).forEach(changeSet => {
+      if (changeSet.sessionId === sessionId) {
+        this.changeSets.delete(changeSet.id);
+      }
+    });
   }
 }
 
 export const checkpointStore = new CheckpointStore();
+
+/**
+ * 检查点的简短描述（用于工作流节点和反馈给 AI 的结果）
+ */
+export function describeCheckpoint(checkpoint: CodeCheckpoint): string {
+  switch (checkpoint.kind) {
+    case 'move':
+      return `移动 ${checkpoint.filePath} → ${checkpoint.targetPath}`;
+    case 'delete':
+      return `删除 ${checkpoint.filePath}`;
+    case 'mkdir':
+      return `创建目录 ${checkpoint.filePath}`;
+    default:
+      return `修改 ${checkpoint.filePath}`;
+  }
+}
+
+export interface CheckpointWrite {
+  checkpoint: CodeCheckpoint;
+  content: string; // 只对 edit 检查点有效
+}
+
+async function pathExists(fullPath: string): Promise<boolean> {
+  try {
+    await fs.access(fullPath);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+// fs.mkdir 返回的第一个新建目录 -> 相对工作空间的路径
+function relativeDir(workspacePath: string, created: string | undefined): string | undefined {
+  return created ? path.relative(path.resolve(workspacePath), created) : undefined;
+}
+
+// 删除回滚时新建的目录，目录中有其他文件时保留（不删除用户之后添加的内容）
+async function removeCreatedDir(workspacePath: string, relativePath: string | undefined): Promise<void> {
+  if (!relativePath) return;
+  const removeEmpty = async (dir: string): Promise<boolean> => {
+    const entries = await fs.readdir(dir, { withFileTypes: true }).catch(() => null);
+    if (!entries) return true;
+    let empty = true;
+    for (const entry of entries) {
+      const removed = entry.isDirectory() && await removeEmpty(path.join(dir, entry.name));
+      if (!removed) empty = false;
+    }
+    if (empty) await fs.rmdir(dir);
+    return empty;
+  };
+  await removeEmpty(await resolveWorkspacePath(workspacePath, relativePath));
+}
+
+/**
+ * 执行单个检查点的文件操作，返回回滚该操作需要的数据
+ */
+async function applyCheckpoint(workspacePath: string, { checkpoint, content }: CheckpointWrite): Promise<CheckpointUndo> {
+  const fullPath = await resolveWorkspacePath(workspacePath, checkpoint.filePath);
+
+  switch (checkpoint.kind) {
+    case 'move': {
+      if (!checkpoint.targetPath) {
+        throw new Error(`移动 ${checkpoint.filePath} 缺少目标路径`);
+      }
+      const targetPath = await resolveWorkspacePath(workspacePath, checkpoint.targetPath);
+      if (await pathExists(targetPath)) {
+        throw new Error(`目标已存在: ${checkpoint.targetPath}`);
+      }
+      const createdDir = await fs.mkdir(path.dirname(targetPath), { recursive: true });
+      await fs.rename(fullPath, targetPath);
+      return { createdDir: relativeDir(workspacePath, createdDir) };
+    }
+
+    case 'delete': {
+      const previous = await fs.readFile(fullPath);
+      await fs.rm(fullPath);
+      return { deletedContent: previous.toString('base64') };
+    }
+
+    case 'mkdir': {
+      // 返回值为第一个新建的目录（目录已存在时为 undefined）
+      const created = await fs.mkdir(fullPath, { recursive: true });
+      return { createdDir: relativeDir(workspacePath, created) };
+    }
+
+    default: {
+      let previous: string | null = null;
+      try {
+        previous = await fs.readFile(fullPath, 'utf-8');
+      } catch {
+        previous = null; // 新文件
+      }
+
+      await fs.mkdir(path.dirname(fullPath), { recursive: true });
+      await fs.writeFile(fullPath, content, 'utf-8');
+      return { previousContent: previous, appliedContent: content };
+    }
+  }
+}
+
+/**
+ * 检查已应用的检查点能否回滚：文件在应用之后又被修改、移动或重新创建时拒绝，避免覆盖之后的改动
+ */
+async function checkRevert(workspacePath: string, checkpoint: CodeCheckpoint, undo: CheckpointUndo): Promise<void> {
+  const fullPath = await resolveWorkspacePath(workspacePath, checkpoint.filePath);
+
+  switch (checkpoint.kind) {
+    case 'move': {
+      const targetPath = await resolveWorkspacePath(workspacePath, checkpoint.targetPath || '');
+      if (!(await pathExists(targetPath))) {
+        throw new Error(`${checkpoint.targetPath} 已不存在`);
+      }
+      if (await pathExists(fullPath)) {
+        throw new Error(`${checkpoint.filePath} 已被重新创建`);
+      }
+      return;
+    }
+
+    case 'delete':
+      if (await pathExists(fullPath)) {
+        throw new Error(`${checkpoint.filePath} 已被重新创建`);
+      }
+      return;
+
+    case 'mkdir':
+      return;
+
+    default: {
+      const current = await fs.readFile(fullPath, 'utf-8').catch(() => null);
+      if (current !== undo.appliedContent) {
+        throw new Error(`${checkpoint.filePath} 在应用之后又被修改`);
+      }
+    }
+  }
+}
+
+/**
+ * 撤销单个检查点的文件操作
+ */
+async function revertCheckpoint(workspacePath: string, checkpoint: CodeCheckpoint, undo: CheckpointUndo): Promise<void> {
+  const fullPath = await resolveWorkspacePath(workspacePath, checkpoint.filePath);
+
+  switch (checkpoint.kind) {
+    case 'move': {
+      const targetPath = await resolveWorkspacePath(workspacePath, checkpoint.targetPath || '');
+      await fs.mkdir(path.dirname(fullPath), { recursive: true });
+      await fs.rename(targetPath, fullPath);
+      await removeCreatedDir(workspacePath, undo.createdDir);
+      return;
+    }
+
+    case 'delete':
+      await fs.mkdir(path.dirname(fullPath), { recursive: true });
+      await fs.writeFile(fullPath, Buffer.from(undo.deletedContent || '', 'base64'));
+      return;
+
+    case 'mkdir':
+      await removeCreatedDir(workspacePath, undo.createdDir);
+      return;
+
+    default:
+      if (undo.previousContent === null || undo.previousContent === undefined) {
+        await fs.rm(fullPath, { force: true });
+      } else {
+        await fs.writeFile(fullPath, undo.previousContent, 'utf-8');
+      }
+  }
+}
+
+/**
+ * 原子地应用一组检查点（修改、移动、删除、创建目录）：任意一步失败时，按相反顺序撤销已完成的操作。
+ * 成功后在每个检查点上记录回滚数据
+ */
+export async function applyCheckpointWrites(
+  workspacePath: string,
+  writes: CheckpointWrite[]
+): Promise<void> {
+  const applied: { checkpoint: CodeCheckpoint; undo: CheckpointUndo }[] = [];
+
+  try {
+    for (const write of writes) {
+      applied.push({ checkpoint: write.checkpoint, undo: await applyCheckpoint(workspacePath, write) });
+    }
+  } catch (error: any) {
+    for (const { checkpoint, undo } of applied.reverse()) {
+      try {
+        await revertCheckpoint(workspacePath, checkpoint, undo);
+      } catch (rollbackError) {
+        console.error('Failed to roll back checkpoint:', rollbackError);
+      }
+    }
+    const message = `应用修改失败，已回滚: ${error.message}`;
+    throw error instanceof WorkspacePathError ? new WorkspacePathError(message) : new Error(message);
+  }
+
+  for (const { checkpoint, undo } of applied) {
+    checkpointStore.setUndo(checkpoint.id, undo);
+  }
+}
+
+/**
+ * 回滚一组已应用的检查点（按应用的相反顺序）。先检查全部检查点，任意一个无法回滚时不做任何修改；
+ * 回滚后检查点状态变为 rolled_back
+ */
+export async function rollbackCheckpoints(
+  workspacePath: string,
+  checkpoints: CodeCheckpoint[]
+): Promise<void> {
+  const targets = [...checkpoints].reverse();
+  for (const checkpoint of targets) {
+    if (checkpoint.status !== 'applied' || !checkpoint.undo) {
+      throw new Error(`检查点 ${describeCheckpoint(checkpoint)} 没有可回滚的修改`);
+    }
+    try {
+      await checkRevert(workspacePath, checkpoint, checkpoint.undo);
+    } catch (error: any) {
+      const message = `无法回滚 ${describeCheckpoint(checkpoint)}: ${error.message}`;
+      throw error instanceof WorkspacePathError ? new WorkspacePathError(message) : new Error(message);
+    }
+  }
+
+  for (const checkpoint of targets) {
+    await revertCheckpoint(workspacePath, checkpoint, checkpoint.undo!);
+    checkpointStore.markRolledBack(checkpoint.id);
+  }
+}
+
+/**
+ * 自动提交是否开启（AGENT_GIT_AUTO_COMMIT=false 关闭；工作空间不是 git 仓库时不提交）
+ */
+export function isAutoCommitEnabled(): boolean {
+  return process.env.AGENT_GIT_AUTO_COMMIT !== 'false';
+}
+
+/**
+ * 把已应用（或已回滚，rollback 为 true）的检查点提交到工作空间的 git 仓库，应用时在检查点上记录提交的 SHA。
+ * 只提交这些检查点涉及的路径；提交失败不影响已应用的修改，返回 null
+ */
+export async function commitCheckpoints(
+  workspacePath: string,
+  checkpoints: CodeCheckpoint[],
+  { rollback = false }: { rollback?: boolean } = {}
+): Promise<string | null> {
+  if (checkpoints.length === 0 || !isAutoCommitEnabled() || !(await isGitRepository(workspacePath))) {
+    return null;
+  }
+
+  // git 不记录空目录
+  const paths = checkpoints
+    .filter(cp => cp.kind !== 'mkdir')
+    .flatMap(cp => (cp.targetPath ? [cp.filePath, cp.targetPath] : [cp.filePath]));
+  const descriptions = checkpoints.map(describeCheckpoint);
+  const summary = descriptions.length === 1
+    ? descriptions[0]
+    : `修改 ${descriptions.length} 个文件\n\n${descriptions.map(line => `- ${line}`).join('\n')}`;
+  const message = rollback ? `回滚：${summary}` : summary;
+
+  try {
+    const commit = await gitCommit(workspacePath, message, paths);
+    if (!commit) return null;
+    if (!rollback) {
+      for (const cp of checkpoints) {
+        checkpointStore.setCommitSha(cp.id, commit.sha);
+      }
+    }
+    return commit.sha;
+  } catch (error) {
+    console.error('Auto commit failed:', error);
+    return null;
+  }
+}
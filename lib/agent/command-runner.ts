@@ -0,0 +1,410 @@
+// 命令执行 - run_command 工具的策略检查（允许 / 拒绝列表）、环境变量清理和受限执行
+import crypto from 'crypto';
+import fs from 'fs/promises';
+import path from 'path';
+import { spawn } from 'child_process';
+import { CommandApproval, CommandDecision } from './types';
+
+export const DEFAULT_COMMAND_TIMEOUT_MS = 60_000;
+export const MAX_COMMAND_TIMEOUT_MS = 600_000;
+const DEFAULT_MAX_OUTPUT_BYTES = 64 * 1024;
+
+// 无需审批即可执行的命令（按单词前缀匹配，可用 AGENT_COMMAND_ALLOWLIST 补充，逗号分隔）。
+// 不包含解释器（node / python）、npm run 这类可以执行任意代码的命令，以及 find（-delete / -exec）；
+// npx 只允许 --no-install（CI=1 时 npx 会不经确认从 registry 下载并执行包）
+const DEFAULT_ALLOWED_COMMANDS = [
+  'ls', 'pwd', 'cat', 'head', 'tail', 'wc', 'grep', 'echo', 'tree', 'diff',
+  'npm test', 'npm ls', 'yarn test', 'pnpm test',
+  'npx --no-install tsc', 'npx --no-install eslint', 'npx --no-install prettier --check',
+  'npx --no-install jest', 'npx --no-install vitest', 'tsc',
+  'pytest', 'go test', 'go build', 'go vet', 'cargo test', 'cargo build', 'cargo check',
+  'git status', 'git diff', 'git log', 'git show', 'git branch',
+];
+
+// 会加载配置、插件或其他模块（即任意代码）的参数
+const ESLINT_CODE_FLAGS = ['-c', '--config', '--plugin', '--rulesdir', '--resolve-plugins-relative-to', '--parser', '-f', '--format'];
+const PRETTIER_CODE_FLAGS = ['--config', '--plugin', '--plugin-search-dir'];
+const JEST_CODE_FLAGS = [
+  '-c', '--config', '--preset', '--setupFiles', '--setupFilesAfterEnv', '--globalSetup', '--globalTeardown',
+  '--env', '--testEnvironment', '--transform', '--reporters', '--resolver', '--runner', '--testRunner',
+  '--testSequencer', '--testResultsProcessor', '--snapshotResolver', '--watchPlugins', '--filter',
+  '--rootDir', '--roots', '--projects',
+];
+const VITEST_CODE_FLAGS = [
+  '-c', '--config', '-r', '--root', '--dir', '--environment', '--reporter', '--globalSetup', '--setupFiles',
+  '--workspace', '--pool',
+];
+const PYTEST_CODE_FLAGS = ['-p', '-c', '--config-file', '-o', '--override-ini', '--confcutdir', '--rootdir'];
+
+// 允许列表中部分命令的参数检查：返回需要审批的参数，没有则返回 null
+const ARGUMENT_CHECKS: Record<string, (args: string[]) => string | null> = {
+  'npx --no-install eslint': args => findFlag(args, ESLINT_CODE_FLAGS),
+  'npx --no-install prettier --check': args => findFlag(args, PRETTIER_CODE_FLAGS),
+  'npx --no-install jest': args => findFlag(args, JEST_CODE_FLAGS),
+  'npx --no-install vitest': args => findFlag(args, VITEST_CODE_FLAGS),
+  'pytest': args => findFlag(args, PYTEST_CODE_FLAGS),
+  // 测试脚本的参数会透传给 jest / vitest / pytest
+  'npm test': args => findFlag(args, [...JEST_CODE_FLAGS, ...VITEST_CODE_FLAGS, ...PYTEST_CODE_FLAGS]),
+  'yarn test': args => findFlag(args, [...JEST_CODE_FLAGS, ...VITEST_CODE_FLAGS, ...PYTEST_CODE_FLAGS]),
+  'pnpm test': args => findFlag(args, [...JEST_CODE_FLAGS, ...VITEST_CODE_FLAGS, ...PYTEST_CODE_FLAGS]),
+  'git branch': gitBranchReadOnly,
+};
+
+// git branch 只允许列出分支（创建、删除、重命名需要审批）
+const GIT_BRANCH_LIST_FLAGS = [
+  '--list', '-l', '-a', '--all', '-r', '--remotes', '-v', '-vv', '--verbose', '--show-current',
+  '--no-color', '--merged', '--no-merged', '--contains', '--no-contains',
+];
+
+// 任何情况下都拒绝执行的命令（可用 AGENT_COMMAND_DENYLIST 补充，逗号分隔，按子串匹配）
+const DEFAULT_DENIED_PATTERNS: RegExp[] = [
+  /\bsudo\b/,
+  /(^|[;&|]\s*)su(\s|$)/,
+  /\brm\s+-[^\s]*[rR][^\s]*\s+(\/|~|\$HOME)(\s|\/?\*?$)/,
+  /\bmkfs\b/,
+  /\bdd\s+if=/,
+  /\b(shutdown|reboot|halt|poweroff)\b/,
+  /:\(\)\s*\{.*\};\s*:/, // fork bomb
+  /\b(curl|wget)\b[^|]*\|\s*(sh|bash|zsh)\b/,
+  /\bchmod\s+(-R\s+)?777\s+\//,
+  />\s*\/dev\/(sd|nvme|disk)/,
+];
+
+// 引号外出现时无法静态判断命令效果的 shell 语法：变量和命令替换、重定向、后台执行（单个 &）、
+// 子 shell、转义、~ 和通配符展开
+const UNPARSED_SHELL_CHARS = ['`', '$', '>', '<', '&', '(', ')', '{', '}', '\\', '~', '*', '?', '['];
+
+// 允许透传给命令的环境变量，其余（API Key 等）全部清除
+const ENV_PASSTHROUGH = [
+  'PATH', 'HOME', 'USER', 'LANG', 'LC_ALL', 'LC_CTYPE', 'TERM', 'SHELL',
+  'TMPDIR', 'TEMP', 'TMP', 'SystemRoot', 'COMSPEC', 'PATHEXT',
+];
+
+export interface CommandPolicyResult {
+  action: 'allow' | 'ask' | 'deny';
+  reason: string;
+}
+
+export interface CommandResult {
+  exitCode: number | null;
+  signal: string | null;
+  stdout: string;
+  stderr: string;
+  timedOut: boolean;
+  truncated: boolean; // 输出超过上限被截断
+  durationMs: number;
+}
+
+export interface RunCommandOptions {
+  cwd: string;
+  timeoutMs?: number;
+  maxOutputBytes?: number;
+  signal?: AbortSignal;
+  onOutput?: (stream: 'stdout' | 'stderr', chunk: string) => void;
+}
+
+function listFromEnv(name: string): string[] {
+  return (process.env[name] || '')
+    .split(',')
+    .map(item => item.trim())
+    .filter(Boolean);
+}
+
+/**
+ * 把命令按 && / || / ; / | / 换行拆分为若干段，每段拆分为去掉引号的参数（2>&1 忽略）。
+ * 遇到 UNPARSED_SHELL_CHARS（双引号内的 $ ` \\ 同样会展开）或引号不匹配时返回该字符
+ */
+function splitCommand(command: string): { segments: string[][] } | { unsupported: string } {
+  const segments: string[][] = [];
+  let words: string[] = [];
+  let word = '';
+  let inWord = false;
+  let quote: '"' | "'" | null = null;
+
+  const endWord = () => {
+    if (inWord) words.push(word);
+    word = '';
+    inWord = false;
+  };
+  const endSegment = () => {
+    endWord();
+    if (words.length > 0) segments.push(words);
+    words = [];
+  };
+
+  for (let i = 0; i < command.length; i++) {
+    const char = command[i];
+    if (quote === "'") {
+      if (char === "'") quote = null;
+      else word += char;
+      continue;
+    }
+    if (quote === '"') {
+      if (char === '"') quote = null;
+      else if (char === '$' || char === '`' || char === '\\') return { unsupported: char };
+      else word += char;
+      continue;
+    }
+
+    if (char === "'" || char === '"') {
+      quote = char;
+      inWord = true;
+    } else if (!inWord && command.startsWith('2>&1', i) && /^\s?$/.test(command[i + 4] || '')) {
+      i += 3; // 只是合并输出，不算重定向
+    } else if (command.startsWith('&&', i) || command.startsWith('||', i)) {
+      endSegment();
+      i++;
+    } else if (char === ';' || char === '|' || char === '\n') {
+      endSegment();
+    } else if (/\s/.test(char)) {
+      endWord();
+    } else if (UNPARSED_SHELL_CHARS.includes(char)) {
+      return { unsupported: char };
+    } else {
+      word += char;
+      inWord = true;
+    }
+  }
+  if (quote) {
+    return { unsupported: quote };
+  }
+  endSegment();
+  return { segments };
+}
+
+// 参数是否指向工作目录之外：绝对路径或包含 .. 段（也检查 --opt=value 和 -Xvalue 中的值）
+function escapesWorkingDirectory(arg: string): boolean {
+  const values = [arg];
+  if (arg.startsWith('-')) {
+    if (arg.includes('=')) values.push(arg.slice(arg.indexOf('=') + 1));
+    if (!arg.startsWith('--')) values.push(arg.slice(2));
+  }
+  return values.some(value =>
+    path.isAbsolute(value) || path.win32.isAbsolute(value) || value.split(/[\\/]/).includes('..')
+  );
+}
+
+// 参数中出现的 flags 之一（--flag / --flag=value，短参数也匹配 -xvalue）
+function findFlag(args: string[], flags: string[]): string | null {
+  return args.find(arg => flags.some(flag =>
+    arg === flag || (flag.startsWith('--') ? arg.startsWith(`${flag}=`) : !arg.startsWith('--') && arg.startsWith(flag))
+  )) || null;
+}
+
+function gitBranchReadOnly(args: string[]): string | null {
+  const listing = args.some(arg => arg === '--list' || arg === '-l');
+  return args.find(arg =>
+    arg.startsWith('-')
+      ? !GIT_BRANCH_LIST_FLAGS.includes(arg.split('=')[0])
+      : !listing // 不带 --list 时的位置参数是要创建的分支名
+  ) || null;
+}
+
+/**
+ * 检查命令：命中拒绝列表时拒绝；每一段都在允许列表中、且参数不指向工作目录之外时直接执行；
+ * 其余情况（包括变量、命令替换、重定向和后台执行）需要用户批准
+ */
+export function checkCommand(command: string): CommandPolicyResult {
+  const trimmed = command.trim();
+  if (!trimmed) {
+    return { action: 'deny', reason: '命令为空' };
+  }
+
+  const denied = DEFAULT_DENIED_PATTERNS.find(pattern => pattern.test(trimmed));
+  if (denied) {
+    return { action: 'deny', reason: `命令匹配禁止规则 ${denied}` };
+  }
+  const deniedCustom = listFromEnv('AGENT_COMMAND_DENYLIST').find(item => trimmed.includes(item));
+  if (deniedCustom) {
+    return { action: 'deny', reason: `命令包含禁止的内容「${deniedCustom}」` };
+  }
+
+  const parsed = splitCommand(trimmed);
+  if ('unsupported' in parsed) {
+    return { action: 'ask', reason: `命令包含需要审批的 shell 语法「${parsed.unsupported}」` };
+  }
+
+  const allowed = [...DEFAULT_ALLOWED_COMMANDS, ...listFromEnv('AGENT_COMMAND_ALLOWLIST')]
+    .map(prefix => prefix.split(/\s+/));
+  for (const words of parsed.segments) {
+    const prefix = allowed.find(prefixWords =>
+      prefixWords.length <= words.length && prefixWords.every((prefixWord, i) => words[i] === prefixWord)
+    );
+    if (!prefix) {
+      return { action: 'ask', reason: `「${words.join(' ')}」不在允许列表中` };
+    }
+    const args = words.slice(prefix.length);
+    const outside = args.find(escapesWorkingDirectory);
+    if (outside) {
+      return { action: 'ask', reason: `参数「${outside}」指向工作目录之外` };
+    }
+    const flagged = ARGUMENT_CHECKS[prefix.join(' ')]?.(args);
+    if (flagged) {
+      return { action: 'ask', reason: `参数「${flagged}」需要审批` };
+    }
+  }
+
+  return { action: 'allow', reason: '命令在允许列表中' };
+}
+
+// 只保留白名单中的环境变量（也不透传 NODE_ENV，避免开发服务器的 development 影响构建和测试）
+function scrubbedEnv(): NodeJS.ProcessEnv {
+  const env = {} as NodeJS.ProcessEnv;
+  for (const key of [...ENV_PASSTHROUGH, ...listFromEnv('AGENT_COMMAND_ENV_PASSTHROUGH')]) {
+    const value = process.env[key];
+    if (value !== undefined) {
+      env[key] = value;
+    }
+  }
+  env.CI = '1';
+  env.FORCE_COLOR = '0';
+  env.NO_COLOR = '1';
+  return env;
+}
+
+/**
+ * 在工作目录中执行命令：超时或取消时结束整个进程组，输出超过上限时截断
+ */
+export async function runCommand(command: string, options: RunCommandOptions): Promise<CommandResult> {
+  const timeoutMs = Math.min(options.timeoutMs || DEFAULT_COMMAND_TIMEOUT_MS, MAX_COMMAND_TIMEOUT_MS);
+  const maxOutputBytes = options.maxOutputBytes || DEFAULT_MAX_OUTPUT_BYTES;
+  const startedAt = Date.now();
+
+  if (options.signal?.aborted) {
+    throw new Error('执行已取消');
+  }
+  await fs.mkdir(options.cwd, { recursive: true });
+
+  return new Promise((resolve, reject) => {
+    const child = spawn(command, {
+      cwd: options.cwd,
+      env: scrubbedEnv(),
+      shell: true,
+      detached: process.platform !== 'win32', // 独立的进程组，便于结束子进程
+    });
+    child.stdin.end();
+
+    const output = { stdout: '', stderr: '' };
+    let outputBytes = 0;
+    let truncated = false;
+    let timedOut = false;
+
+    const kill = () => {
+      if (child.exitCode !== null || !child.pid) return;
+      try {
+        if (process.platform === 'win32') {
+          child.kill('SIGKILL');
+        } else {
+          process.kill(-child.pid, 'SIGKILL');
+        }
+      } catch {
+        // 进程已退出
+      }
+    };
+
+    const timer = setTimeout(() => {
+      timedOut = true;
+      kill();
+    }, timeoutMs);
+    options.signal?.addEventListener('abort', kill);
+
+    const collect = (stream: 'stdout' | 'stderr') => (data: Buffer) => {
+      if (truncated) return;
+      let chunk = data.toString('utf-8');
+      if (outputBytes + data.length > maxOutputBytes) {
+        chunk = data.subarray(0, Math.max(0, maxOutputBytes - outputBytes)).toString('utf-8');
+        chunk += `\n[输出超过 ${Math.round(maxOutputBytes / 1024)}KB，后续内容已截断]\n`;
+        truncated = true;
+      }
+      outputBytes += data.length;
+      output[stream] += chunk;
+      options.onOutput?.(stream, chunk);
+    };
+    child.stdout.on('data', collect('stdout'));
+    child.stderr.on('data', collect('stderr'));
+
+    const finish = () => {
+      clearTimeout(timer);
+      options.signal?.removeEventListener('abort', kill);
+    };
+
+    child.on('error', error => {
+      finish();
+      reject(error);
+    });
+    child.on('close', (exitCode, signal) => {
+      finish();
+      if (options.signal?.aborted) {
+        reject(new Error('执行已取消'));
+        return;
+      }
+      resolve({
+        exitCode,
+        signal,
+        stdout: output.stdout,
+        stderr: output.stderr,
+        timedOut,
+        truncated,
+        durationMs: Date.now() - startedAt,
+      });
+    });
+  });
+}
+
+/**
+ * 命令审批：与代码修改的检查点一样，执行器挂起等待用户在界面上确认
+ */
+class CommandApprovalStore {
+  private approvals: Map<string, CommandApproval> = new Map();
+  private waiters: Map<string, (decision: CommandDecision) => void> = new Map();
+
+  create(sessionId: string, data: Pick<CommandApproval, 'command' | 'cwd' | 'reason'>): CommandApproval {
+    const approval: CommandApproval = {
+      id: crypto.randomUUID(),
+      sessionId,
+      ...data,
+      status: 'pending',
+      createdAt: Date.now(),
+      updatedAt: Date.now(),
+    };
+    this.approvals.set(approval.id, approval);
+    return approval;
+  }
+
+  get(approvalId: string): CommandApproval | undefined {
+    return this.approvals.get(approvalId);
+  }
+
+  /**
+   * 挂起直到用户批准（或拒绝）该命令
+   */
+  waitForDecision(approvalId: string): Promise<CommandDecision> {
+    const approval = this.approvals.get(approvalId);
+    if (approval && approval.status !== 'pending') {
+      return Promise.resolve({ status: approval.status });
+    }
+
+    return new Promise(resolve => {
+      this.waiters.set(approvalId, resolve);
+    });
+  }
+
+  /**
+   * 记录审批结果并唤醒等待中的执行器
+   */
+  resolveDecision(approvalId: string, decision: CommandDecision): boolean {
+    const approval = this.approvals.get(approvalId);
+    if (!approval) return false;
+    approval.status = decision.status;
+    approval.updatedAt = Date.now();
+
+    const resolve = this.waiters.get(approvalId);
+    if (resolve) {
+      this.waiters.delete(approvalId);
+      resolve(decision);
+    }
+    return true;
+  }
+}
+
+export const commandApprovals = new CommandApprovalStore();
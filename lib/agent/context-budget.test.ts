@@ -0,0 +1,81 @@
+import { describe, expect, it } from 'vitest';
+import { ContextBudgeter, countMessageTokens } from './context-budget';
+import type { Message } from './types';
+
+// 预算 = 2000 - 500 = 1500 tokens
+const budgeter = new ContextBudgeter('mock', {
+  contextWindow: 2000,
+  reservedOutputTokens: 500,
+  keepRecentMessages: 4,
+});
+
+const summarize = async () => '用户要求修改 a.ts';
+
+function toolTurn(id: string, content: string): Message[] {
+  return [
+    {
+      role: 'assistant',
+      content: '',
+      tool_calls: [{ id, type: 'function', function: { name: 'read_file', arguments: '{"path":"a.ts"}' } }],
+    },
+    { role: 'tool', tool_call_id: id, name: 'read_file', content },
+  ];
+}
+
+describe('ContextBudgeter.compact', () => {
+  it('summarizes older messages and keeps recent ones intact when that is enough', async () => {
+    const messages: Message[] = [
+      { role: 'system', content: '系统提示词' },
+      { role: 'user', content: '旧的请求 '.repeat(200) },
+      { role: 'assistant', content: '旧的回复 '.repeat(200) },
+      { role: 'user', content: '修改 a.ts' },
+      ...toolTurn('call_1', 'const a = 1;'),
+      { role: 'assistant', content: '好的' },
+    ];
+
+    const result = await budgeter.compact(messages, summarize);
+
+    expect(result).toMatchObject({ removedMessages: 2, truncatedMessages: 0, summary: '用户要求修改 a.ts' });
+    expect(result!.messages.slice(2)).toEqual(messages.slice(3));
+  });
+
+  it('truncates the oldest kept messages when the recent turns alone exceed the budget', async () => {
+    const messages: Message[] = [
+      { role: 'system', content: '系统提示词' },
+      ...toolTurn('call_1', 'x'.repeat(8000)),
+      ...toolTurn('call_2', 'y'.repeat(8000)),
+    ];
+    const extraTokens = 200; // 工具定义
+
+    const result = await budgeter.compact(messages, summarize, extraTokens);
+
+    expect(result).not.toBeNull();
+    expect(result!.removedMessages).toBe(0);
+    expect(countMessageTokens(result!.messages) + extraTokens).toBeLessThanOrEqual(budgeter.budget);
+    // 先截断较早的工具结果，tool_calls 与结果的对应关系不变
+    expect(result!.messages.map(message => message.role)).toEqual(messages.map(message => message.role));
+    expect(result!.messages[2].content).toContain('已截断');
+    expect(result!.messages[4].content.startsWith('y'.repeat(100))).toBe(true);
+  });
+
+  it('returns null when the messages already fit and nothing is old enough to summarize', async () => {
+    const messages: Message[] = [
+      { role: 'system', content: '系统提示词' },
+      { role: 'user', content: '你好' },
+    ];
+
+    expect(await budgeter.compact(messages, summarize)).toBeNull();
+  });
+});
+
+describe('ContextBudgeter.fitToBudget', () => {
+  it('truncates non-ASCII content by its token estimate', () => {
+    const messages: Message[] = [
+      { role: 'system', content: '系统提示词' },
+      { role: 'user', content: '中'.repeat(3000) },
+    ];
+
+    expect(budgeter.fitToBudget(messages)).toBe(1);
+    expect(countMessageTokens(messages)).toBeLessThanOrEqual(budgeter.budget);
+  });
+});
@@ -0,0 +1,251 @@
+// 上下文预算 - 控制发送给 LLM 的消息不超过模型的上下文窗口
+import { Message } from './types';
+import { estimateTokens } from './llm';
+
+// 各模型的上下文窗口（token），按最长前缀匹配；可用 LLM_CONTEXT_WINDOW 覆盖
+const MODEL_CONTEXT_WINDOWS: Record<string, number> = {
+  'glm-4-flash': 128000,
+  'glm-4': 128000,
+  'gpt-4o': 128000,
+  'gpt-4-turbo': 128000,
+  'gpt-4': 8192,
+  'gpt-3.5-turbo': 16385,
+  'claude': 200000,
+  'mock': 8192,
+};
+
+const DEFAULT_CONTEXT_WINDOW = 8192;
+// 每条消息的固定开销（角色、分隔符等）
+const MESSAGE_OVERHEAD_TOKENS = 4;
+// 超出预算时截断消息内容，每条消息至少保留的 token 数
+const MIN_TRUNCATED_TOKENS = 100;
+const TRUNCATION_NOTICE = '\n...[为控制上下文长度，此消息已截断]';
+
+export interface ContextBudgetOptions {
+  contextWindow: number;
+  reservedOutputTokens: number; // 预留给模型回复
+  maxToolResultTokens: number; // 单个工具结果的上限，超出部分截断
+  keepRecentMessages: number; // 压缩时保留的最近消息数
+}
+
+/**
+ * 压缩结果（用于写入记忆和追踪）
+ */
+export interface CompactionResult {
+  messages: Message[];
+  summary: string;
+  removedMessages: number;
+  truncatedMessages: number; // 摘要后仍超出预算时被截断内容的消息数
+  tokensBefore: number;
+  tokensAfter: number;
+}
+
+export function getContextWindow(model: string): number {
+  if (process.env.LLM_CONTEXT_WINDOW) {
+    return Number(process.env.LLM_CONTEXT_WINDOW);
+  }
+
+  const prefix = Object.keys(MODEL_CONTEXT_WINDOWS)
+    .filter(key => model.startsWith(key))
+    .sort((a, b) => b.length - a.length)[0];
+  return prefix ? MODEL_CONTEXT_WINDOWS[prefix] : DEFAULT_CONTEXT_WINDOW;
+}
+
+/**
+ * 估算消息列表的 token 数
+ */
+export function countMessageTokens(messages: Message[]): number {
+  return messages.reduce((total, message) => {
+    const toolCalls = (message.tool_calls || [])
+      .map(call => call.function.name + call.function.arguments)
+      .join('');
+    return total + MESSAGE_OVERHEAD_TOKENS + estimateTokens(message.content || '') + estimateTokens(toolCalls);
+  }, 0);
+}
+
+// 按 token 预算截取一行的开头（非 ASCII 字符按 1 token 计）
+function sliceTokens(line: string, maxTokens: number): string {
+  let used = 0;
+  for (let i = 0; i < line.length; i++) {
+    used += line.charCodeAt(i) < 128 ? 0.25 : 1;
+    if (used > maxTokens) return line.slice(0, i);
+  }
+  return line;
+}
+
+// 按 token 预算截取文本开头（逐行截取，至少保留一行的一部分）
+function takeLines(text: string, maxTokens: number): { text: string; lines: number } {
+  const lines = text.split('\n');
+  const kept: string[] = [];
+  let used = 0;
+
+  for (const line of lines) {
+    const tokens = estimateTokens(line) + 1;
+    if (used + tokens > maxTokens) {
+      if (kept.length === 0) {
+        kept.push(sliceTokens(line, maxTokens));
+      }
+      break;
+    }
+    kept.push(line);
+    used += tokens;
+  }
+
+  return { text: kept.join('\n'), lines: kept.length };
+}
+
+export class ContextBudgeter {
+  private options: ContextBudgetOptions;
+
+  constructor(model: string, options: Partial<ContextBudgetOptions> = {}) {
+    const contextWindow = options.contextWindow || getContextWindow(model);
+    this.options = {
+      contextWindow,
+      reservedOutputTokens: Math.min(4096, Math.floor(contextWindow / 4)),
+      maxToolResultTokens: Math.min(6000, Math.floor(contextWindow / 4)),
+      keepRecentMessages: 6,
+      ...options,
+    };
+  }
+
+  // 可用于输入消息的 token 数
+  get budget(): number {
+    return this.options.contextWindow - this.options.reservedOutputTokens;
+  }
+
+  // extraTokens：不在消息中但同样占用上下文的内容（例如工具定义）
+  needsCompaction(messages: Message[], extraTokens = 0): boolean {
+    return countMessageTokens(messages) + extraTokens > this.budget;
+  }
+
+  /**
+   * 把工具结果序列化为消息内容，超出上限时截断并提示如何继续读取
+   */
+  formatToolResult(toolName: string, result: any): { content: string; truncated: boolean; originalTokens: number } {
+    const content = JSON.stringify(result);
+    const originalTokens = estimateTokens(content);
+    const maxTokens = this.options.maxToolResultTokens;
+    if (originalTokens <= maxTokens) {
+      return { content, truncated: false, originalTokens };
+    }
+
+    // read_file：按行截断，提示用 startLine 继续读取
+    if (toolName === 'read_file' && typeof result?.content === 'string') {
+      const startLine = result.startLine || 1;
+      const totalLines = result.totalLines || startLine - 1 + result.content.split('\n').length;
+      const { text, lines } = takeLines(result.content, maxTokens);
+      const endLine = startLine + lines - 1;
+      return {
+        content: JSON.stringify({
+          ...result,
+          content: text,
+          truncated: true,
+          startLine,
+          endLine,
+          totalLines,
+          hint: `文件内容过长，只返回了第 ${startLine}-${endLine} 行（共 ${totalLines} 行）。如需查看后续内容，请再次调用 read_file 并传入 startLine: ${endLine + 1}`,
+        }),
+        truncated: true,
+        originalTokens,
+      };
+    }
+
+    const { text } = takeLines(JSON.stringify(result, null, 2), maxTokens);
+    return {
+      content: JSON.stringify({
+        truncated: true,
+        partialResult: text,
+        hint: `工具结果过长（约 ${originalTokens} tokens），已截断。请缩小查询范围（例如指定更具体的路径或参数）后重新调用 ${toolName}`,
+      }),
+      truncated: true,
+      originalTokens,
+    };
+  }
+
+  /**
+   * 截断消息内容直到不超过预算：从最早的消息开始（跳过开头的系统提示词），每条至少保留 MIN_TRUNCATED_TOKENS。
+   * 原地修改 messages，返回截断的消息数
+   */
+  fitToBudget(messages: Message[], extraTokens = 0): number {
+    const head = messages[0]?.role === 'system' ? 1 : 0;
+    let truncated = 0;
+
+    for (let i = head; i < messages.length; i++) {
+      const excess = countMessageTokens(messages) + extraTokens - this.budget;
+      if (excess <= 0) break;
+
+      const content = messages[i].content || '';
+      const tokens = estimateTokens(content);
+      if (tokens <= MIN_TRUNCATED_TOKENS) continue;
+
+      const keep = Math.max(MIN_TRUNCATED_TOKENS, tokens - excess - estimateTokens(TRUNCATION_NOTICE));
+      messages[i] = { ...messages[i], content: `${takeLines(content, keep).text}${TRUNCATION_NOTICE}` };
+      truncated++;
+    }
+
+    return truncated;
+  }
+
+  /**
+   * 压缩对话：保留系统提示词和最近的消息，较早的消息交给 summarize 生成摘要；
+   * 摘要后（或没有较早的消息时）仍超出预算，再用 fitToBudget 截断保留的消息。
+   * 不会把 assistant 的 tool_calls 和对应的 tool 结果拆开；既没有可压缩也没有可截断的内容时返回 null
+   */
+  async compact(
+    messages: Message[],
+    summarize: (transcript: string) => Promise<string>,
+    extraTokens = 0
+  ): Promise<CompactionResult | null> {
+    const head = messages[0]?.role === 'system' ? 1 : 0;
+    let split = Math.max(head, messages.length - this.options.keepRecentMessages);
+    // 最近部分不能以 tool 结果开头
+    while (split > head && messages[split]?.role === 'tool') {
+      split--;
+    }
+
+    const older = messages.slice(head, split);
+    let summary = '';
+    let compacted = [...messages];
+    if (older.length > 0) {
+      const transcript = older
+        .map(message => {
+          const toolCalls = (message.tool_calls || [])
+            .map(call => `调用 ${call.function.name}(${call.function.arguments.slice(0, 300)})`)
+            .join('\n');
+          const content = message.role === 'tool'
+            ? (message.content || '').slice(0, 800)
+            : message.content || '';
+          return `[${message.role}${message.name ? `:${message.name}` : ''}] ${content}${toolCalls ? `\n${toolCalls}` : ''}`;
+        })
+        .join('\n\n');
+
+      summary = (await summarize(transcript)).trim();
+      compacted = [
+        ...messages.slice(0, head),
+        { role: 'system', content: `【之前对话的摘要】\n${summary}` },
+        ...messages.slice(split),
+      ];
+    }
+
+    const truncatedMessages = this.fitToBudget(compacted, extraTokens);
+    if (older.length === 0 && truncatedMessages === 0) {
+      return null;
+    }
+
+    return {
+      messages: compacted,
+      summary,
+      removedMessages: older.length,
+      truncatedMessages,
+      tokensBefore: countMessageTokens(messages),
+      tokensAfter: countMessageTokens(compacted),
+    };
+  }
+}
+
+// 压缩对话时使用的提示词
+export const COMPACTION_PROMPT = `你负责压缩 AI 编程助手的对话历史。请把下面的对话整理成简洁的摘要，供助手继续工作时参考：
+- 用户的目标和要求
+- 已经读取、创建或修改的文件及关键结论
+- 已完成的步骤和尚未完成的事项
+只输出摘要本身，不要超过 300 字。`;
@@ -0,0 +1,102 @@
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { AgentExecutor, ExecutorEvent } from './executor';
+import { LLMClient } from './llm';
+import { applyCheckpointWrites, checkpointStore } from './checkpoints';
+import { commandApprovals } from './command-runner';
+import type { MockResponse } from './mock-llm';
+
+let workspace: string;
+
+beforeEach(async () => {
+  workspace = await fs.mkdtemp(path.join(os.tmpdir(), 'executor-'));
+  await fs.writeFile(path.join(workspace, 'a.ts'), 'const a = 1;\nconst b = 2;\n');
+});
+
+afterEach(async () => {
+  checkpointStore.clearSession('test');
+  await fs.rm(workspace, { recursive: true, force: true });
+});
+
+// 用 Mock 提供商回放脚本执行一次任务，需要审批时批准所有修改（与审批接口相同），命令按 commandDecision 处理
+async function run(
+  responses: MockResponse[],
+  commandDecision: 'approved' | 'rejected' = 'approved'
+): Promise<ExecutorEvent[]> {
+  const fixture = path.join(workspace, '.mock-llm.json');
+  await fs.writeFile(fixture, JSON.stringify(responses));
+  const executor = new AgentExecutor({
+    sessionId: 'test',
+    workspacePath: workspace,
+    llmClient: new LLMClient({ provider: 'mock', apiKey: '', model: 'mock', mockFixture: fixture }),
+  });
+
+  const events: ExecutorEvent[] = [];
+  for await (const event of executor.execute('修改 a.ts')) {
+    events.push(event);
+    if (event.data?.commandApproval) {
+      commandApprovals.resolveDecision(event.data.commandApproval.id, { status: commandDecision });
+    } else if (event.type === 'approval_required') {
+      const checkpoints = event.data.changes.map((change: any) => checkpointStore.get(change.id)!);
+      await applyCheckpointWrites(workspace, checkpoints.map((checkpoint: any) => ({
+        checkpoint,
+        content: checkpoint.modifiedContent,
+      })));
+      checkpoints.forEach((checkpoint: any) => checkpointStore.resolveDecision(checkpoint.id, { status: 'applied' }));
+    }
+  }
+  return events;
+}
+
+describe('AgentExecutor edits', () => {
+  it('rejects a second pending edit to the same file in one change set', async () => {
+    const events = await run([
+      {
+        tool_calls: [
+          { name: 'search_and_replace', arguments: { path: 'a.ts', oldText: 'const a = 1;', newText: 'const a = 10;' } },
+          { name: 'search_and_replace', arguments: { path: './a.ts', oldText: 'const b = 2;', newText: 'const b = 20;' } },
+        ],
+      },
+      {
+        tool_calls: [
+          { name: 'search_and_replace', arguments: { path: 'a.ts', oldText: 'const b = 2;', newText: 'const b = 20;' } },
+        ],
+      },
+      { content: '完成' },
+    ]);
+
+    const approvals = events.filter(event => event.type === 'approval_required');
+    expect(approvals.map(event => event.data.changes.length)).toEqual([1, 1]);
+    expect(events.some(event => event.type === 'error' && event.content.includes('待审批的修改'))).toBe(true);
+    expect(events.filter(event => event.type === 'tool_result').map(event => event.data.status)).toEqual(['applied', 'applied']);
+    expect(await fs.readFile(path.join(workspace, 'a.ts'), 'utf-8')).toBe('const a = 10;\nconst b = 20;\n');
+  });
+});
+
+describe('AgentExecutor run_tests', () => {
+  it('asks for approval before running tests through an interpreter', async () => {
+    await fs.writeFile(path.join(workspace, 'marker.test.js'), "require('fs').writeFileSync('ran.txt', '1');\n");
+
+    const events = await run([
+      { tool_calls: [{ name: 'run_tests', arguments: { framework: 'node' } }] },
+      { content: '完成' },
+    ], 'rejected');
+
+    const approval = events.find(event => event.data?.commandApproval);
+    expect(approval?.data.commandApproval.command).toBe('node --test --test-reporter=tap');
+    expect(events.find(event => event.type === 'tool_result')?.data).toMatchObject({ tool: 'run_tests', status: 'rejected' });
+    await expect(fs.access(path.join(workspace, 'ran.txt'))).rejects.toThrow();
+  });
+
+  it('rejects an invalid target without asking', async () => {
+    const events = await run([
+      { tool_calls: [{ name: 'run_tests', arguments: { framework: 'node', target: '../outside.test.js' } }] },
+      { content: '完成' },
+    ]);
+
+    expect(events.some(event => event.data?.commandApproval)).toBe(false);
+    expect(events.some(event => event.type === 'error' && event.content.includes('超出了工作目录'))).toBe(true);
+  });
+});
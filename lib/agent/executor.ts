@@ -1,11 +1,26 @@
 // Agent 执行器 - 核心状态机
-import { Message, AgentContext } from './types';
-import { LLMClient } from './llm';
+import fs from 'fs/promises';
+import path from 'path';
+import { applyPatch } from 'diff';
+import { Message, AgentContext, AgentRole, CodeCheckpoint, ChangeReview, ToolCall, TokenUsage } from './types';
+import { LLMClient, ToolCallError, estimateTokens, normalizeUsage } from './llm';
+import { ContextBudgeter, COMPACTION_PROMPT } from './context-budget';
+import { LoopDetector } from './loop-detector';
+import { searchAndReplace } from './search-replace';
+import { replaceSymbol, insertAfterSymbol, deleteSymbol } from './symbol-edit';
+import { validateToolArgs } from './tool-schema';
 import { TOOLS, toolsToFunctions } from './tools';
 import { memoryManager } from './memory';
 import { debugTracer } from '../debug/tracer';
+import { costLedger } from '../debug/cost';
 import { workflowManager } from './workflow';
-import { checkpointStore } from './checkpoints';
+import { checkpointStore, describeCheckpoint } from './checkpoints';
+import { checkCommand, commandApprovals } from './command-runner';
+import { describeTestRun, planTestRun } from './test-runner';
+import { formatDiagnostics } from './verification';
+import { ToolExecutionContext } from './tool-schema';
+import { mapWithConcurrency, AsyncQueue } from '../utils/concurrency';
+import { resolveWorkspacePath } from '../workspace/paths';
 
 export interface AgentExecutorOptions {
   sessionId: string;
@@ -13,6 +28,56 @@ export interface AgentExecutorOptions {
   llmClient: LLMClient;
   maxIterations?: number;
   enableDebug?: boolean; // 启用调试追踪
+  signal?: AbortSignal; // 取消信号（见 executionRegistry）
+  role?: AgentRole; // 默认 executor
+  systemPrompt?: string; // 覆盖默认的系统提示词
+  toolNames?: string[]; // 限定可用的工具子集
+  parentStepId?: string; // 作为流水线子任务运行：步骤挂在该节点下，不单独管理调试会话和对话记忆
+  reviewChanges?: (checkpoints: CodeCheckpoint[]) => Promise<ChangeReview | null>; // 变更集交给用户前的审查
+  maxParallelTools?: number; // 同一轮中只读工具的最大并发数（默认 4）
+}
+
+export interface ExecutorEvent {
+  type: 'message' | 'tool_call' | 'tool_output' | 'tool_result' | 'done' | 'error' | 'approval_required' | 'cancelled';
+  content: string;
+  data?: any;
+}
+
+// 需要用户审批后才会写入磁盘的工具
+const EDIT_TOOLS = [
+  'write_file',
+  'apply_patch',
+  'search_and_replace',
+  'replace_symbol',
+  'insert_after_symbol',
+  'delete_symbol',
+  'move_file',
+  'delete_file',
+  'create_directory',
+];
+
+const DEFAULT_MAX_PARALLEL_TOOLS = 4;
+
+interface ProposedEdit {
+  toolCall: ToolCall;
+  toolName: string;
+  checkpoint: CodeCheckpoint;
+}
+
+// 参数已校验、等待执行的工具调用
+interface PreparedToolCall {
+  toolCall: ToolCall;
+  toolName: string;
+  toolArgs: any;
+}
+
+// 工具结果是否为执行失败（参数错误、工具抛出异常等）
+function isFailedToolResult(content: string): boolean {
+  try {
+    return !!JSON.parse(content)?.error;
+  } catch {
+    return false;
+  }
 }
 
 export class AgentExecutor {
@@ -22,16 +87,28 @@ export class AgentExecutor {
   private inferredFile: string | null = null;
   private workflowRootStepId: string | null = null;
   private toolCallSteps: Map<string, string> = new Map();
+  private budgeter: ContextBudgeter;
+  private loopDetector: LoopDetector = new LoopDetector();
   
   constructor(options: AgentExecutorOptions) {
     this.options = options;
+    this.budgeter = new ContextBudgeter(options.llmClient.getModel());
     this.context = {
       sessionId: options.sessionId,
       workspacePath: options.workspacePath,
       memory: [],
-      tools: Object.values(TOOLS),
+      tools: options.toolNames
+        ? options.toolNames.map(name => TOOLS[name]).filter(Boolean)
+        : Object.values(TOOLS),
     };
     
+    if (options.systemPrompt) {
+      this.systemPrompt = `${options.systemPrompt}
+
+工作目录: ${this.context.workspacePath}`;
+      return;
+    }
+    
     this.systemPrompt = `你是一个专业的 AI 编程助手，类似 Cursor IDE。
 
 ## 🚨 核心原则：必须使用工具执行操作
@@ -57,6 +134,21 @@ export class AgentExecutor {
 2. 找到相关文件后，read_file 读取
 3. write_file 修改代码
 
+### 精确查找用 grep
+知道要找的具体名称或文本时（例如某个函数的所有调用处），使用 **grep**，它返回每处匹配的 file:line:column：
+- grep({ pattern: "traceToolCall\\(", include: ["*.ts"] })
+- grep({ pattern: "TODO", literal: true, contextLines: 2 })
+
+### 移动、删除文件和创建目录
+- 重命名 / 移动文件用 **move_file**({ path, newPath })，不要先 write_file 新文件再清空旧文件
+- 删除文件用 **delete_file**({ path })，创建空目录用 **create_directory**({ path })
+- 这些操作和修改文件一样，需要用户审批后才会生效
+
+### Git
+- 工作空间是 git 仓库时，用户批准的修改会自动提交（审批结果中的 commitSha）
+- 用 **git_log** / **git_diff** / **git_blame** 了解代码的修改历史，例如某个函数是什么时候、为什么改的
+- 工作空间还不是 git 仓库（git_status 返回 initialized: false）且用户需要版本管理时，调用 **git_init**
+
 ## 📋 工作流程
 
 ### 创建新文件（必须调用工具！）
@@ -79,6 +171,8 @@ export class AgentExecutor {
 2. read_file({ path: "文件.py" })
 3. 分析代码
 4. write_file({ path: "文件.py", content: "修改后的完整代码" })
+   小范围修改可以用 search_and_replace({ path: "文件.py", oldText: "原代码片段", newText: "新代码片段" })，不用重写整个文件
+   修改 TS/JS 文件中的某个函数 / 类 / 方法时，可以用 list_symbols 查看符号，再用 replace_symbol / insert_after_symbol / delete_symbol 只修改该符号
 
 ## ❌ 错误示例
 用户："创建一个新文件"
@@ -94,6 +188,16 @@ export class AgentExecutor {
 你：✅ 调用 search_codebase({ query: "file upload handling" })
 你：✅ "我找到了相关代码，在 app/api/workspace/upload/route.ts..."
 
+## 🖥️ 执行命令
+需要安装依赖或构建时，调用 **run_command**（在工作目录中执行）：
+- run_command({ command: "npm install" })
+- 不在允许列表中的命令需要用户批准，被拒绝后不要反复尝试同一条命令
+
+## 🧪 运行测试
+运行测试时调用 **run_tests**（自动识别 jest / vitest / node:test / pytest）：
+- run_tests({}) 运行全部测试，run_tests({ target: "src/utils.test.ts" }) 只运行一个文件
+- 结果包含每个失败用例的信息和 file:line 位置，根据它修改代码后再次运行，直到测试通过
+
 ## 🎯 记住
 - 用户要求创建/修改文件时，**必须调用 write_file**
 - 不确定代码位置时，先用 search_codebase 搜索
@@ -142,32 +246,37 @@ export class AgentExecutor {
   }
   
   // 执行用户请求
-  async *execute(userMessage: string): AsyncGenerator<{
-    type: 'message' | 'tool_call' | 'tool_result' | 'done' | 'error' | 'approval_required';
-    content: string;
-    data?: any;
-  }> {
+  async *execute(userMessage: string): AsyncGenerator<ExecutorEvent> {
     try {
+      const isSubtask = !!this.options.parentStepId;
+
       // 启动调试会话
-      if (this.options.enableDebug) {
+      if (this.options.enableDebug && !isSubtask) {
         debugTracer.startSession(this.context.sessionId);
       }
 
       // 初始化工作流状态
       this.toolCallSteps.clear();
-      const rootStep = workflowManager.startWorkflow(
-        this.context.sessionId,
-        userMessage
-      );
-      this.workflowRootStepId = rootStep?.id || null;
+      this.loopDetector = new LoopDetector();
+      if (isSubtask) {
+        this.workflowRootStepId = this.options.parentStepId!;
+      } else {
+        const rootStep = workflowManager.startWorkflow(
+          this.context.sessionId,
+          userMessage
+        );
+        this.workflowRootStepId = rootStep?.id || null;
+      }
 
       // 保存用户消息到记忆
-      await memoryManager.addMemory({
-        sessionId: this.context.sessionId,
-        type: 'conversation',
-        content: userMessage,
-        metadata: { role: 'user' },
-      });
+      if (!isSubtask) {
+        await memoryManager.addMemory({
+          sessionId: this.context.sessionId,
+          type: 'conversation',
+          content: userMessage,
+          metadata: { role: 'user' },
+        });
+      }
       
       // 获取对话历史
       const recentMemories = await memoryManager.getRecentConversations(
@@ -187,6 +296,7 @@ export class AgentExecutor {
       
       // 准备工具
       const tools = toolsToFunctions(this.context.tools);
+      const toolTokens = estimateTokens(JSON.stringify(tools));
       
       let iterations = 0;
       const maxIterations = this.options.maxIterations || 10;
@@ -194,16 +304,25 @@ export class AgentExecutor {
       
       while (iterations < maxIterations) {
         iterations++;
+        this.throwIfCancelled();
         
-        let currentToolCalls: any[] = [];
+        let currentToolCalls: ToolCall[] = [];
+        const invalidToolCalls: Record<string, ToolCallError> = {};
         let currentResponse = '';
+        let usage: TokenUsage | undefined;
+        let servedModel = this.options.llmClient.getModel();
+        
+        // 超出上下文预算时，把较早的对话压缩为摘要
+        if (this.budgeter.needsCompaction(messages, toolTokens)) {
+          await this.compactMessages(messages, toolTokens);
+        }
         
         // 追踪 LLM 调用
         let llmEventId: string | undefined;
         if (this.options.enableDebug) {
           llmEventId = debugTracer.traceLLMCall(
             this.context.sessionId,
-            'glm-4-flash',
+            this.options.llmClient.getModel(),
             messages,
             tools,
             0.7
@@ -214,7 +333,9 @@ export class AgentExecutor {
         for await (const chunk of this.options.llmClient.streamChat(
           messages,
           tools,
-          0.7
+          0.7,
+          this.options.signal,
+          this.options.enableDebug ? this.context.sessionId : undefined
         )) {
           if (chunk.delta) {
             currentResponse += chunk.delta;
@@ -229,42 +350,59 @@ export class AgentExecutor {
             currentToolCalls.push(...chunk.tool_calls);
           }
           
+          if (chunk.tool_call_errors) {
+            for (const toolError of chunk.tool_call_errors) {
+              invalidToolCalls[toolError.toolCallId] = toolError;
+            }
+          }
+          
           if (chunk.done) {
+            usage = chunk.usage;
+            servedModel = chunk.model || servedModel;
             break;
           }
         }
+        this.throwIfCancelled();
+        
+        // 记录 token 用量和费用
+        if (usage) {
+          costLedger.record(this.context.sessionId, servedModel, usage, this.options.role);
+        }
         
         // 追踪 LLM 响应
         if (this.options.enableDebug && llmEventId) {
           debugTracer.traceLLMResponse(
             this.context.sessionId,
             llmEventId,
-            currentResponse
+            currentResponse,
+            usage,
+            currentToolCalls
           );
         }
         
-        // 如果有响应内容，添加到消息历史
-        if (currentResponse) {
+        // 如果有响应内容或工具调用，添加到消息历史
+        if (currentResponse || currentToolCalls.length > 0) {
           messages.push({
             role: 'assistant',
             content: currentResponse,
+            ...(currentToolCalls.length > 0 ? { tool_calls: currentToolCalls } : {}),
           });
         }
         
         // 如果没有工具调用，说明任务完成
         if (currentToolCalls.length === 0) {
           // 保存助手响应到记忆
-          await memoryManager.addMemory({
-            sessionId: this.context.sessionId,
-            type: 'conversation',
-            content: fullResponse,
-            metadata: { role: 'assistant' },
-          });
+          if (!isSubtask) {
+            await memoryManager.addMemory({
+              sessionId: this.context.sessionId,
+              type: 'conversation',
+              content: fullResponse,
+              metadata: { role: 'assistant' },
+            });
+          }
 
           // 结束调试会话
-          if (this.options.enableDebug) {
-            debugTracer.endSession(this.context.sessionId);
-          }
+          this.endDebugSession();
 
           if (this.workflowRootStepId) {
             workflowManager.completeStep(
@@ -281,253 +419,182 @@ export class AgentExecutor {
         // 执行工具调用
         console.log('Tool calls to execute:', currentToolCalls);
         
+        const proposedEdits: ProposedEdit[] = [];
+        // 工具结果按 tool_call_id 收集，本轮结束后按模型给出的原始顺序加入消息历史
+        const toolResults: Map<string, Message[]> = new Map();
+        // 连续的只读调用攒成一批并发执行
+        let readOnlyBatch: PreparedToolCall[] = [];
+        
         for (const toolCall of currentToolCalls) {
+          this.throwIfCancelled();
           const toolName = toolCall.function?.name;
           const toolArgsStr = toolCall.function?.arguments || '{}';
           
           console.log(`Executing tool: ${toolName} with args: ${toolArgsStr}`);
           
-          const toolArgs = JSON.parse(toolArgsStr);
-          
-          // 如果是 write_file，先读取原文件，然后请求用户审批
-          if (toolName === 'write_file') {
-            const filePath = toolArgs.path;
-            const newContent = toolArgs.content;
-            
-            // 尝试读取原文件
-            let originalContent = '';
-            try {
-              const readTool = TOOLS['read_file'];
-              const readResult = await readTool.execute({
-                path: filePath,
-                workspacePath: this.context.workspacePath,
-              });
-              originalContent = readResult.content || '';
-            } catch {
-              originalContent = ''; // 新文件
-            }
-            
-            // 修复换行符
-            const fixedNewContent = typeof newContent === 'string' 
-              ? newContent.replace(/\\r\\n/g, '\r\n').replace(/\\n/g, '\n')
-              : newContent;
-            const fixedOriginalContent = typeof originalContent === 'string'
-              ? originalContent.replace(/\\r\\n/g, '\r\n').replace(/\\n/g, '\n')
-              : originalContent;
-            
-            const checkpoint = checkpointStore.create(this.context.sessionId, {
-              filePath,
-              originalContent: fixedOriginalContent,
-              modifiedContent: fixedNewContent,
-              status: 'pending',
-            });
-
-            if (this.workflowRootStepId) {
-              workflowManager.startStep(this.context.sessionId, {
-                parentId: this.workflowRootStepId,
-                title: `修改 ${filePath}`,
-                description: 'AI 提交了代码修改，等待审批',
-                type: 'checkpoint',
-                status: 'pending',
-                metadata: {
-                  checkpointId: checkpoint.id,
-                  filePath,
-                },
-              });
+          // 参数不是合法 JSON：不执行，把错误反馈给模型让它重新调用
+          const invalid = invalidToolCalls[toolCall.id];
+          if (invalid) {
+            if (this.options.enableDebug) {
+              debugTracer.traceError(this.context.sessionId, invalid.message);
             }
 
-            // 请求用户审批
             yield {
-              type: 'approval_required',
-              content: `我想修改 ${filePath}，请查看修改内容并确认`,
-              data: {
-                id: checkpoint.id,
-                filePath,
-                originalContent: fixedOriginalContent,
-                modifiedContent: fixedNewContent,
-              },
+              type: 'error',
+              content: `工具参数格式错误: ${toolName}`,
+              data: { tool: toolName, error: invalid.message, arguments: invalid.arguments },
             };
-            
-            // 添加一个假的工具结果，告诉 AI 已经进入审批流程
-            messages.push({
+
+            toolResults.set(toolCall.id, [{
               role: 'tool',
-              content: JSON.stringify({ 
-                success: true, 
-                message: '修改建议已提交，等待用户审批' 
+              content: JSON.stringify({
+                error: invalid.message,
+                message: '工具参数不是合法的 JSON，未执行。请检查引号和转义后重新调用该工具。',
               }),
               tool_call_id: toolCall.id,
               name: toolName,
-            });
-            
-            // 结束本轮对话，等待用户审批
-            yield { type: 'done', content: '' };
-            break;
+            }]);
+            continue;
           }
           
-          yield {
-            type: 'tool_call',
-            content: `调用工具: ${toolName}`,
-            data: { name: toolName, args: toolArgs },
-          };
+          let toolArgs = JSON.parse(toolArgsStr);
           
-          // 追踪工具调用
-          let toolEventId: string | undefined;
-          if (this.options.enableDebug) {
-            toolEventId = debugTracer.traceToolCall(
-              this.context.sessionId,
-              toolName,
-              toolArgs
-            );
-          }
-
-          let workflowStepId: string | null = null;
-          if (this.workflowRootStepId) {
-            const description = (() => {
-              try {
-                return JSON.stringify(toolArgs, null, 2).slice(0, 500);
-              } catch {
-                return '';
+          // 参数不符合工具的 schema：不执行，把结构化的校验错误作为工具结果返回，让模型自行修正
+          const toolDef = this.context.tools.find(t => t.name === toolName);
+          if (toolDef) {
+            const validation = validateToolArgs(toolDef, toolArgs);
+            if (!validation.success) {
+              if (this.options.enableDebug) {
+                debugTracer.traceError(this.context.sessionId, validation.error.message);
               }
-            })();
-            const step = workflowManager.startStep(this.context.sessionId, {
-              parentId: this.workflowRootStepId,
-              title: `调用 ${toolName}`,
-              description,
-              type: 'tool',
-              metadata: { tool: toolName, args: toolArgs },
-            });
-            workflowStepId = step?.id || null;
-            if (workflowStepId) {
-              this.toolCallSteps.set(toolCall.id, workflowStepId);
+
+              yield {
+                type: 'error',
+                content: `工具参数校验失败: ${toolName}`,
+                data: { tool: toolName, error: validation.error.message, issues: validation.error.issues },
+              };
+
+              toolResults.set(toolCall.id, [{
+                role: 'tool',
+                content: JSON.stringify({
+                  ...validation.error,
+                  hint: '参数不符合工具定义，未执行。请根据 issues 修正参数后重新调用该工具。',
+                }),
+                tool_call_id: toolCall.id,
+                name: toolName,
+              }]);
+              continue;
             }
+            toolArgs = validation.data;
           }
           
-          try {
-            const tool = TOOLS[toolName];
-            if (!tool) {
-              throw new Error(`Unknown tool: ${toolName}`);
-            }
-            
-            const result = await tool.execute({
-              ...toolArgs,
-              workspacePath: this.context.workspacePath,
-            });
-            
-            // 追踪工具结果
-            if (this.options.enableDebug && toolEventId) {
-              debugTracer.traceToolResult(
-                this.context.sessionId,
-                toolEventId,
-                result
-              );
-            }
-
-            if (workflowStepId) {
-              workflowManager.completeStep(
-                this.context.sessionId,
-                workflowStepId,
-                { result }
-              );
-            }
-            
-            // 记录工具调用
-            await memoryManager.addMemory({
-              sessionId: this.context.sessionId,
-              type: 'file_operation',
-              content: `${toolName}: ${JSON.stringify(toolArgs)}`,
-              metadata: { tool: toolName, args: toolArgs, result },
-            });
-            
-            yield {
-              type: 'tool_result',
-              content: `工具执行成功: ${toolName}`,
-              data: {
-                tool: toolName,
-                ...result
-              },
-            };
-            
-            // 添加工具结果到消息历史
-            messages.push({
-              role: 'tool',
-              content: JSON.stringify(result),
-              tool_call_id: toolCall.id,
-              name: toolName,
-            });
-            
-            // 如果是 read_file，强制要求 AI 调用 write_file
-            if (toolName === 'read_file') {
-              messages.push({
-                role: 'system',
-                content: '【系统要求】你必须立即调用 write_file 工具来修改文件。不要说"完成"、不要给建议、不要输出代码块。直接调用工具！',
-              });
-            }
-          } catch (error: any) {
-            // 追踪错误
-            if (this.options.enableDebug) {
-              if (toolEventId) {
-                debugTracer.traceToolResult(
-                  this.context.sessionId,
-                  toolEventId,
-                  null,
-                  error.message
-                );
+          // 文件修改类工具：先生成检查点，本轮结束后统一提交审批
+          if (EDIT_TOOLS.includes(toolName) && toolDef) {
+            try {
+              this.assertNoPendingEdit(proposedEdits, toolArgs);
+              const checkpoint = await this.proposeEdit(toolName, toolArgs);
+              proposedEdits.push({ toolCall, toolName, checkpoint });
+            } catch (error: any) {
+              if (this.options.enableDebug) {
+                debugTracer.traceError(this.context.sessionId, error);
               }
-              debugTracer.traceError(this.context.sessionId, error);
-            }
 
-            const failedStepId = workflowStepId || this.toolCallSteps.get(toolCall.id);
-            if (failedStepId) {
-              workflowManager.failStep(
-                this.context.sessionId,
-                failedStepId,
-                error.message
-              );
+              yield {
+                type: 'error',
+                content: `工具执行失败: ${error.message}`,
+                data: { tool: toolName, error: error.message },
+              };
+
+              toolResults.set(toolCall.id, [{
+                role: 'tool',
+                content: JSON.stringify({ error: error.message }),
+                tool_call_id: toolCall.id,
+                name: toolName,
+              }]);
             }
+            continue;
+          }
+          
+          if (toolDef?.readOnly) {
+            readOnlyBatch.push({ toolCall, toolName, toolArgs });
+            continue;
+          }
+          
+          // 有副作用的工具：先执行排在它前面的只读调用，再单独执行，保证执行顺序
+          yield* this.runToolBatch(readOnlyBatch, toolResults);
+          readOnlyBatch = [];
+          if (toolName === 'run_command') {
+            yield* this.runCommandCall({ toolCall, toolName, toolArgs }, toolResults);
+          } else if (toolName === 'run_tests') {
+            yield* this.runTestsCall({ toolCall, toolName, toolArgs }, toolResults);
+          } else {
+            yield* this.runToolBatch([{ toolCall, toolName, toolArgs }], toolResults);
+          }
+        }
+        yield* this.runToolBatch(readOnlyBatch, toolResults);
 
-            yield {
-              type: 'error',
-              content: `工具执行失败: ${error.message}`,
-              data: { tool: toolName, error: error.message },
+        // 本轮的所有文件修改作为一个变更集统一审批
+        if (proposedEdits.length > 0) {
+          yield* this.reviewChangeSet(proposedEdits, toolResults);
+        }
+
+        for (const toolCall of currentToolCalls) {
+          messages.push(...(toolResults.get(toolCall.id) || []));
+        }
+
+        // 循环检测：重复调用、结果不变或没有进展时先提示模型，提示多次仍无效则停止
+        const detection = this.loopDetector.recordIteration(
+          currentToolCalls.map(toolCall => {
+            const output = (toolResults.get(toolCall.id) || [])
+              .filter(message => message.role === 'tool')
+              .map(message => message.content)
+              .join('\n');
+            return {
+              toolName: toolCall.function?.name,
+              args: toolCall.function?.arguments || '{}',
+              output,
+              failed: isFailedToolResult(output),
             };
-            
-            messages.push({
-              role: 'tool',
-              content: JSON.stringify({ error: error.message }),
-              tool_call_id: toolCall.id,
-              name: toolName,
-            });
+          })
+        );
+        if (detection) {
+          if (this.options.enableDebug) {
+            debugTracer.traceLoopDetection(
+              this.context.sessionId,
+              detection.pattern,
+              detection.action,
+              { message: detection.message, iteration: iterations, ...detection.details }
+            );
+          }
+
+          if (detection.action === 'stop') {
+            yield this.failExecution(
+              `检测到执行陷入循环，已停止：${detection.message}`,
+              { pattern: detection.pattern, ...detection.details }
+            );
+            return;
           }
+
+          messages.push({
+            role: 'system',
+            content: `【循环检测】${detection.hint}`,
+          });
         }
       }
       
       if (iterations >= maxIterations) {
-        if (this.options.enableDebug) {
-          debugTracer.traceError(
-            this.context.sessionId,
-            '达到最大迭代次数'
-          );
-          debugTracer.endSession(this.context.sessionId);
-        }
-
-        if (this.workflowRootStepId) {
-          workflowManager.failStep(
-            this.context.sessionId,
-            this.workflowRootStepId,
-            '达到最大迭代次数'
-          );
-        }
-        
-        yield {
-          type: 'error',
-          content: '达到最大迭代次数',
-        };
+        yield this.failExecution('达到最大迭代次数');
       }
     } catch (error: any) {
+      if (this.options.signal?.aborted) {
+        yield this.handleCancellation();
+        return;
+      }
+
       if (this.options.enableDebug) {
         debugTracer.traceError(this.context.sessionId, error);
-        debugTracer.endSession(this.context.sessionId);
       }
+      this.endDebugSession();
 
       if (this.workflowRootStepId) {
         workflowManager.failStep(
@@ -544,6 +611,753 @@ export class AgentExecutor {
     }
   }
   
+  /**
+   * 用 LLM 把较早的对话压缩为摘要（原地替换 messages），仍超出预算时截断保留的消息
+   * 摘要同时写入对话记忆，下次请求从摘要开始加载；生成摘要失败时只截断消息
+   */
+  private async compactMessages(messages: Message[], extraTokens: number): Promise<void> {
+    const { sessionId } = this.context;
+    const { llmClient, enableDebug, signal } = this.options;
+
+    try {
+      const result = await this.budgeter.compact(messages, async transcript => {
+        const response = await llmClient.chat(
+          [
+            { role: 'system', content: COMPACTION_PROMPT },
+            { role: 'user', content: transcript },
+          ],
+          undefined,
+          0.2,
+          signal,
+          enableDebug ? sessionId : undefined,
+          'compaction'
+        );
+        const usage = normalizeUsage(response.usage);
+        if (usage) {
+          costLedger.record(sessionId, response.model || llmClient.getModel(), usage, 'compaction');
+        }
+        return response.choices?.[0]?.message?.content || '';
+      }, extraTokens);
+      if (!result) return;
+
+      messages.splice(0, messages.length, ...result.messages);
+
+      if (result.removedMessages > 0 && !this.options.parentStepId) {
+        await memoryManager.addMemory({
+          sessionId,
+          type: 'conversation',
+          content: `【之前对话的摘要】\n${result.summary}`,
+          metadata: { role: 'system', compaction: true },
+        });
+      }
+
+      if (enableDebug) {
+        debugTracer.traceCompaction(sessionId, 'conversation', {
+          removedMessages: result.removedMessages,
+          truncatedMessages: result.truncatedMessages,
+          tokensBefore: result.tokensBefore,
+          tokensAfter: result.tokensAfter,
+          budget: this.budgeter.budget,
+          summary: result.summary,
+        });
+      }
+    } catch (error: any) {
+      if (signal?.aborted) throw error;
+      console.error('Conversation compaction failed:', error);
+      if (enableDebug) {
+        debugTracer.traceError(sessionId, `对话压缩失败: ${error.message}`);
+      }
+      this.budgeter.fitToBudget(messages, extraTokens);
+    }
+  }
+
+  // 以错误结束执行：记录追踪、关闭工作流节点，生成错误事件
+  private failExecution(reason: string, data?: any): ExecutorEvent {
+    if (this.options.enableDebug) {
+      debugTracer.traceError(this.context.sessionId, reason);
+    }
+    this.endDebugSession();
+
+    if (this.workflowRootStepId) {
+      workflowManager.failStep(
+        this.context.sessionId,
+        this.workflowRootStepId,
+        reason
+      );
+    }
+
+    return {
+      type: 'error',
+      content: reason,
+      ...(data ? { data } : {}),
+    };
+  }
+
+  // 子任务的调试会话由流水线负责结束
+  private endDebugSession() {
+    if (this.options.enableDebug && !this.options.parentStepId) {
+      debugTracer.endSession(this.context.sessionId);
+    }
+  }
+
+  private throwIfCancelled() {
+    if (this.options.signal?.aborted) {
+      throw new Error('执行已取消');
+    }
+  }
+
+  // 关闭工作流节点和追踪会话，生成取消事件
+  private handleCancellation(): ExecutorEvent {
+    const signal = this.options.signal;
+    const reason = typeof signal?.reason === 'string' ? signal.reason : '执行已取消';
+
+    workflowManager.cancelOpenSteps(this.context.sessionId, reason);
+
+    if (this.options.enableDebug) {
+      debugTracer.traceCancellation(this.context.sessionId, reason);
+    }
+    this.endDebugSession();
+
+    return { type: 'cancelled', content: reason };
+  }
+
+  /**
+   * 执行一批工具调用：多个调用时并发执行（受 maxParallelTools 限制）
+   * 事件和结果仍按调用顺序交出，结果写入 toolResults
+   */
+  private async *runToolBatch(
+    batch: PreparedToolCall[],
+    toolResults: Map<string, Message[]>
+  ): AsyncGenerator<ExecutorEvent> {
+    if (batch.length === 0) return;
+
+    for (const { toolName, toolArgs } of batch) {
+      yield {
+        type: 'tool_call',
+        content: `调用工具: ${toolName}`,
+        data: { name: toolName, args: toolArgs },
+      };
+    }
+
+    const parallel = batch.length > 1;
+    const outcomes = await mapWithConcurrency(
+      batch,
+      this.options.maxParallelTools || DEFAULT_MAX_PARALLEL_TOOLS,
+      call => this.runTool(call, parallel)
+    );
+    this.throwIfCancelled();
+
+    for (let i = 0; i < batch.length; i++) {
+      yield* this.collectToolOutcome(batch[i], outcomes[i], toolResults);
+    }
+  }
+
+  /**
+   * 执行 run_command：不在允许列表中的命令先请求用户批准，执行时把输出作为 tool_output 事件实时交出
+   */
+  private async *runCommandCall(
+    call: PreparedToolCall,
+    toolResults: Map<string, Message[]>
+  ): AsyncGenerator<ExecutorEvent> {
+    const command: string = call.toolArgs.command;
+    if (yield* this.approveCommand(call, command, toolResults)) {
+      yield* this.runStreamingTool(call, `执行命令: ${command}`, toolResults);
+    }
+  }
+
+  // run_tests：测试命令会执行工作区中的代码，与 run_command 一样经过命令策略检查和审批
+  private async *runTestsCall(
+    call: PreparedToolCall,
+    toolResults: Map<string, Message[]>
+  ): AsyncGenerator<ExecutorEvent> {
+    let plan;
+    try {
+      plan = await planTestRun(this.context.workspacePath, call.toolArgs);
+    } catch (error: any) {
+      yield* this.collectToolOutcome(call, { error }, toolResults);
+      return;
+    }
+
+    // 固定审批时识别出的框架，执行的就是审批过的命令
+    const planned = { ...call, toolArgs: { ...call.toolArgs, framework: plan.framework } };
+    if (yield* this.approveCommand(planned, plan.command, toolResults)) {
+      yield* this.runStreamingTool(
+        planned,
+        `运行测试${call.toolArgs.target ? `: ${call.toolArgs.target}` : ''}`,
+        toolResults
+      );
+    }
+  }
+
+  /**
+   * 按命令策略检查：拒绝时写入错误结果；需要审批时挂起等待用户决定，被拒绝时写入拒绝结果。
+   * 返回是否可以执行
+   */
+  private async *approveCommand(
+    call: PreparedToolCall,
+    command: string,
+    toolResults: Map<string, Message[]>
+  ): AsyncGenerator<ExecutorEvent, boolean> {
+    const { toolCall, toolName } = call;
+    const policy = checkCommand(command);
+
+    if (policy.action === 'deny') {
+      yield* this.collectToolOutcome(call, { error: new Error(`命令被拒绝执行: ${policy.reason}`) }, toolResults);
+      return false;
+    }
+
+    if (policy.action === 'ask') {
+      const approval = commandApprovals.create(this.context.sessionId, {
+        command,
+        cwd: this.context.workspacePath,
+        reason: policy.reason,
+      });
+      yield {
+        type: 'approval_required',
+        content: `我想执行命令 \`${command}\`（${policy.reason}），请确认`,
+        data: { commandApproval: approval },
+      };
+
+      // 执行被取消时视为拒绝，以便唤醒下面的等待
+      const rejectPending = () => {
+        commandApprovals.resolveDecision(approval.id, { status: 'rejected', reason: '执行已取消' });
+      };
+      this.options.signal?.addEventListener('abort', rejectPending);
+      const decision = await commandApprovals.waitForDecision(approval.id).finally(() => {
+        this.options.signal?.removeEventListener('abort', rejectPending);
+      });
+      this.throwIfCancelled();
+
+      if (decision.status === 'rejected') {
+        yield {
+          type: 'tool_result',
+          content: `命令被拒绝: ${command}`,
+          data: { tool: toolName, command, status: 'rejected' },
+        };
+        toolResults.set(toolCall.id, [{
+          role: 'tool',
+          content: JSON.stringify({
+            success: false,
+            status: 'rejected',
+            command,
+            message: '用户拒绝执行此命令',
+            reason: decision.reason,
+          }),
+          tool_call_id: toolCall.id,
+          name: toolName,
+        }]);
+        return false;
+      }
+    }
+
+    return true;
+  }
+
+  // 执行会持续输出的工具（run_command / run_tests），把输出作为 tool_output 事件实时交出
+  private async *runStreamingTool(
+    call: PreparedToolCall,
+    content: string,
+    toolResults: Map<string, Message[]>
+  ): AsyncGenerator<ExecutorEvent> {
+    const { toolCall, toolName, toolArgs } = call;
+    yield {
+      type: 'tool_call',
+      content,
+      data: { name: toolName, args: toolArgs },
+    };
+
+    const output = new AsyncQueue<ExecutorEvent>();
+    const running = this.runTool(call, false, {
+      onOutput: (stream, chunk) => output.push({
+        type: 'tool_output',
+        content: chunk,
+        data: { tool: toolName, toolCallId: toolCall.id, stream },
+      }),
+    }).finally(() => output.close());
+
+    yield* output.drain();
+    const outcome = await running;
+    this.throwIfCancelled();
+
+    yield* this.collectToolOutcome(call, outcome, toolResults);
+  }
+
+  // 把工具执行结果转换为事件，并写入 toolResults（过长的结果会被截断）
+  private *collectToolOutcome(
+    { toolCall, toolName }: PreparedToolCall,
+    outcome: { result?: any; error?: Error },
+    toolResults: Map<string, Message[]>
+  ): Generator<ExecutorEvent> {
+    if (outcome.error) {
+      yield {
+        type: 'error',
+        content: `工具执行失败: ${outcome.error.message}`,
+        data: { tool: toolName, error: outcome.error.message },
+      };
+
+      toolResults.set(toolCall.id, [{
+        role: 'tool',
+        content: JSON.stringify({ error: outcome.error.message }),
+        tool_call_id: toolCall.id,
+        name: toolName,
+      }]);
+      return;
+    }
+
+    const result = outcome.result;
+    yield {
+      type: 'tool_result',
+      content: toolName === 'run_command'
+        ? `命令结束: ${result.command}（${result.timedOut ? '超时' : `退出码 ${result.exitCode}`}）`
+        : toolName === 'run_tests'
+          ? `测试结束: ${result.summary}`
+          : `工具执行成功: ${toolName}`,
+      data: {
+        tool: toolName,
+        ...result
+      },
+    };
+
+    // 添加工具结果到消息历史（过长的结果会被截断）
+    const formatted = this.budgeter.formatToolResult(toolName, result);
+    if (formatted.truncated && this.options.enableDebug) {
+      debugTracer.traceCompaction(this.context.sessionId, 'tool_result', {
+        tool: toolName,
+        originalTokens: formatted.originalTokens,
+        truncatedTokens: estimateTokens(formatted.content),
+      });
+    }
+    const resultMessages: Message[] = [{
+      role: 'tool',
+      content: formatted.content,
+      tool_call_id: toolCall.id,
+      name: toolName,
+    }];
+
+    // 如果是 read_file，强制要求 AI 调用 write_file（重复读取同一内容时不再追加，避免加剧循环）
+    if (toolName === 'read_file' && !this.loopDetector.hasSeen(toolName, toolCall.function.arguments)) {
+      resultMessages.push({
+        role: 'system',
+        content: '【系统要求】你必须立即调用 write_file 工具来修改文件。不要说"完成"、不要给建议、不要输出代码块。直接调用工具！',
+      });
+    }
+    toolResults.set(toolCall.id, resultMessages);
+  }
+
+  // 执行单个工具调用：每个调用有自己的工作流节点和追踪计时（不会抛出异常）
+  private async runTool(
+    { toolCall, toolName, toolArgs }: PreparedToolCall,
+    parallel: boolean,
+    context: Partial<ToolExecutionContext> = {}
+  ): Promise<{ result?: any; error?: Error }> {
+    // 追踪工具调用（并发调用互不嵌套）
+    let toolEventId: string | undefined;
+    if (this.options.enableDebug) {
+      toolEventId = debugTracer.traceToolCall(
+        this.context.sessionId,
+        toolName,
+        toolArgs,
+        parallel
+      );
+    }
+
+    let workflowStepId: string | null = null;
+    if (this.workflowRootStepId) {
+      const description = (() => {
+        try {
+          return JSON.stringify(toolArgs, null, 2).slice(0, 500);
+        } catch {
+          return '';
+        }
+      })();
+      const step = workflowManager.startStep(this.context.sessionId, {
+        parentId: this.workflowRootStepId,
+        title: `调用 ${toolName}`,
+        description,
+        type: 'tool',
+        metadata: { tool: toolName, args: toolArgs, ...(parallel ? { parallel: true } : {}) },
+      });
+      workflowStepId = step?.id || null;
+      if (workflowStepId) {
+        this.toolCallSteps.set(toolCall.id, workflowStepId);
+      }
+    }
+
+    try {
+      const tool = this.context.tools.find(t => t.name === toolName);
+      if (!tool) {
+        throw new Error(`Unknown tool: ${toolName}`);
+      }
+
+      const result = await tool.execute({
+        ...toolArgs,
+        ...context,
+        workspacePath: this.context.workspacePath,
+        signal: this.options.signal,
+      });
+
+      // 追踪工具结果
+      if (this.options.enableDebug && toolEventId) {
+        debugTracer.traceToolResult(
+          this.context.sessionId,
+          toolEventId,
+          result
+        );
+      }
+
+      if (workflowStepId) {
+        // 测试结果在工作流中显示为摘要（通过 / 失败数和失败位置）
+        if (toolName === 'run_tests') {
+          workflowManager.updateStep(this.context.sessionId, workflowStepId, {
+            title: `运行测试: ${result.summary}`,
+            description: describeTestRun(result),
+          });
+        }
+        workflowManager.completeStep(
+          this.context.sessionId,
+          workflowStepId,
+          { result }
+        );
+      }
+
+      // 记录工具调用
+      await memoryManager.addMemory({
+        sessionId: this.context.sessionId,
+        type: 'file_operation',
+        content: `${toolName}: ${JSON.stringify(toolArgs)}`,
+        metadata: { tool: toolName, args: toolArgs, result },
+      });
+
+      return { result };
+    } catch (error: any) {
+      // 追踪错误
+      if (this.options.enableDebug) {
+        if (toolEventId) {
+          debugTracer.traceToolResult(
+            this.context.sessionId,
+            toolEventId,
+            null,
+            error.message
+          );
+        }
+        debugTracer.traceError(this.context.sessionId, error);
+      }
+
+      const failedStepId = workflowStepId || this.toolCallSteps.get(toolCall.id);
+      if (failedStepId) {
+        workflowManager.failStep(
+          this.context.sessionId,
+          failedStepId,
+          error.message
+        );
+      }
+
+      return { error };
+    }
+  }
+
+  /**
+   * 同一轮中每个文件只能有一个待审批的修改：检查点的内容都基于磁盘上的原文件生成，
+   * 同一文件的第二个修改会在应用时覆盖第一个
+   */
+  private assertNoPendingEdit(proposedEdits: ProposedEdit[], toolArgs: any): void {
+    const resolve = (filePath: string) => path.resolve(this.context.workspacePath, filePath);
+    const paths = [toolArgs.path, toolArgs.newPath].filter(Boolean).map(resolve);
+    const pending = proposedEdits.find(({ checkpoint }) =>
+      [checkpoint.filePath, checkpoint.targetPath]
+        .filter((filePath): filePath is string => !!filePath)
+        .some(filePath => paths.includes(resolve(filePath)))
+    );
+    if (pending) {
+      throw new Error(
+        `本轮已有待审批的修改（${describeCheckpoint(pending.checkpoint)}），` +
+        '同一文件的多处修改请合并到一次调用中，或等本轮审批后再修改'
+      );
+    }
+  }
+
+  // 根据文件修改类工具（EDIT_TOOLS）的参数生成待审批的检查点
+  private async proposeEdit(toolName: string, toolArgs: any): Promise<CodeCheckpoint> {
+    const filePath = toolArgs.path;
+    // 越界的路径在生成检查点前就拒绝（不能当作新文件）
+    const fullPath = await resolveWorkspacePath(this.context.workspacePath, filePath);
+    if (['move_file', 'delete_file', 'create_directory'].includes(toolName)) {
+      return this.proposeFileOperation(toolName, toolArgs, fullPath);
+    }
+
+    // 尝试读取原文件
+    let originalContent = '';
+    try {
+      const readResult = await TOOLS['read_file'].execute({
+        path: filePath,
+        workspacePath: this.context.workspacePath,
+      });
+      originalContent = readResult.content || '';
+    } catch {
+      if (toolName !== 'write_file') {
+        throw new Error(`File not found: ${filePath}`);
+      }
+      originalContent = ''; // 新文件
+    }
+
+    let modifiedContent: string;
+    if (toolName === 'apply_patch') {
+      const patched = applyPatch(originalContent, toolArgs.patch);
+      if (patched === false) {
+        throw new Error('Failed to apply patch');
+      }
+      modifiedContent = patched;
+    } else if (toolName === 'search_and_replace') {
+      modifiedContent = searchAndReplace(
+        originalContent,
+        toolArgs.oldText,
+        toolArgs.newText,
+        toolArgs.replaceAll
+      ).content;
+    } else if (toolName === 'replace_symbol') {
+      modifiedContent = replaceSymbol(originalContent, filePath, toolArgs.symbol, toolArgs.newText).content;
+    } else if (toolName === 'insert_after_symbol') {
+      modifiedContent = insertAfterSymbol(originalContent, filePath, toolArgs.symbol, toolArgs.text).content;
+    } else if (toolName === 'delete_symbol') {
+      modifiedContent = deleteSymbol(originalContent, filePath, toolArgs.symbol).content;
+    } else {
+      // 修复换行符
+      modifiedContent = typeof toolArgs.content === 'string'
+        ? toolArgs.content.replace(/\\r\\n/g, '\r\n').replace(/\\n/g, '\n')
+        : toolArgs.content;
+      originalContent = originalContent.replace(/\\r\\n/g, '\r\n').replace(/\\n/g, '\n');
+    }
+
+    return checkpointStore.create(this.context.sessionId, {
+      filePath,
+      originalContent,
+      modifiedContent,
+      status: 'pending',
+    });
+  }
+
+  // 移动、删除文件和创建目录：先检查路径，生成对应类型的检查点（移动和删除保留原内容用于预览）
+  private async proposeFileOperation(toolName: string, toolArgs: any, fullPath: string): Promise<CodeCheckpoint> {
+    const filePath: string = toolArgs.path;
+    const stat = await fs.stat(fullPath).catch(() => null);
+    const readContent = async () => stat?.isFile() ? fs.readFile(fullPath, 'utf-8') : '';
+
+    if (toolName === 'create_directory') {
+      if (stat) {
+        throw new Error(`${filePath} 已存在，不需要创建`);
+      }
+      return checkpointStore.create(this.context.sessionId, {
+        kind: 'mkdir',
+        filePath,
+        originalContent: '',
+        modifiedContent: '',
+      });
+    }
+
+    if (!stat) {
+      throw new Error(`File not found: ${filePath}`);
+    }
+
+    if (toolName === 'move_file') {
+      const targetPath = await resolveWorkspacePath(this.context.workspacePath, toolArgs.newPath);
+      if (await fs.stat(targetPath).catch(() => null)) {
+        throw new Error(`目标已存在: ${toolArgs.newPath}`);
+      }
+      const content = await readContent();
+      return checkpointStore.create(this.context.sessionId, {
+        kind: 'move',
+        filePath,
+        targetPath: toolArgs.newPath,
+        originalContent: content,
+        modifiedContent: content,
+      });
+    }
+
+    if (stat.isDirectory()) {
+      throw new Error(`${filePath} 是目录，delete_file 只能删除文件`);
+    }
+    return checkpointStore.create(this.context.sessionId, {
+      kind: 'delete',
+      filePath,
+      originalContent: await readContent(),
+      modifiedContent: '',
+    });
+  }
+
+  // 提交变更集等待审批，并把每个文件的审批结果反馈给 AI
+  private async *reviewChangeSet(
+    edits: ProposedEdit[],
+    toolResults: Map<string, Message[]>
+  ): AsyncGenerator<ExecutorEvent> {
+    const changeSet = checkpointStore.createChangeSet(
+      this.context.sessionId,
+      edits.map(edit => edit.checkpoint.id)
+    );
+
+    if (this.workflowRootStepId) {
+      for (const { checkpoint } of edits) {
+        workflowManager.startStep(this.context.sessionId, {
+          parentId: this.workflowRootStepId,
+          title: describeCheckpoint(checkpoint),
+          description: 'AI 提交了代码修改，等待审批',
+          type: 'checkpoint',
+          status: 'pending',
+          metadata: {
+            checkpointId: checkpoint.id,
+            changeSetId: changeSet.id,
+            filePath: checkpoint.filePath,
+          },
+        });
+      }
+    }
+
+    // 交给用户前先由审查 Agent 检查；要求修改时直接退回给 AI
+    const review = this.options.reviewChanges
+      ? await this.options.reviewChanges(edits.map(edit => edit.checkpoint))
+      : null;
+    this.throwIfCancelled();
+
+    if (review?.verdict === 'revise') {
+      for (const { toolCall, toolName, checkpoint } of edits) {
+        const comment = review.comments[checkpoint.filePath] || review.summary;
+        workflowManager.rejectByCheckpoint(this.context.sessionId, checkpoint.id, `审查未通过: ${comment}`);
+        checkpointStore.resolveDecision(checkpoint.id, {
+          status: 'rejected',
+          reason: `审查未通过: ${comment}`,
+        });
+
+        yield {
+          type: 'tool_result',
+          content: `审查未通过，退回修改: ${checkpoint.filePath}`,
+          data: { tool: toolName, checkpointId: checkpoint.id, status: 'rejected', review },
+        };
+
+        toolResults.set(toolCall.id, [{
+          role: 'tool',
+          content: JSON.stringify({
+            success: false,
+            status: 'rejected_by_reviewer',
+            path: checkpoint.filePath,
+            message: '审查 Agent 要求修改后重新提交，文件未改变',
+            summary: review.summary,
+            comment,
+          }),
+          tool_call_id: toolCall.id,
+          name: toolName,
+        }]);
+      }
+      return;
+    }
+
+    const fileList = edits.map(edit => edit.checkpoint.filePath).join(', ');
+    yield {
+      type: 'approval_required',
+      content: edits.length > 1
+        ? `我想修改 ${edits.length} 个文件（${fileList}），请查看修改内容并确认`
+        : `我想${describeCheckpoint(edits[0].checkpoint)}，请查看修改内容并确认`,
+      data: {
+        changeSetId: changeSet.id,
+        changes: edits.map(({ checkpoint }) => ({
+          id: checkpoint.id,
+          kind: checkpoint.kind,
+          filePath: checkpoint.filePath,
+          targetPath: checkpoint.targetPath,
+          originalContent: checkpoint.originalContent,
+          modifiedContent: checkpoint.modifiedContent,
+        })),
+        ...(review ? { review } : {}),
+      },
+    };
+
+    // 执行被取消时，未审批的修改视为拒绝，以便唤醒下面的等待
+    const rejectPending = () => {
+      for (const { checkpoint } of edits) {
+        if (checkpoint.status === 'pending') {
+          checkpointStore.resolveDecision(checkpoint.id, {
+            status: 'rejected',
+            reason: '执行已取消',
+          });
+        }
+      }
+    };
+    this.options.signal?.addEventListener('abort', rejectPending);
+
+    // 挂起执行，直到变更集中的每个文件都被审批或拒绝
+    const decisions = await Promise.all(
+      edits.map(edit => checkpointStore.waitForDecision(edit.checkpoint.id))
+    ).finally(() => {
+      this.options.signal?.removeEventListener('abort', rejectPending);
+    });
+    this.throwIfCancelled();
+
+    for (let i = 0; i < edits.length; i++) {
+      const { toolCall, toolName, checkpoint } = edits[i];
+      const decision = decisions[i];
+      const filePath = checkpoint.filePath;
+      const approvalResult = decision.status === 'applied'
+        ? {
+            success: true,
+            status: 'applied',
+            path: filePath,
+            edited: !!decision.edited,
+            ...(checkpoint.targetPath ? { newPath: checkpoint.targetPath } : {}),
+            message: decision.edited
+              ? '用户修改后应用了此变更，文件的最终内容见 content'
+              : `用户已批准，已${describeCheckpoint(checkpoint)}`,
+            ...(decision.edited ? { content: decision.content } : {}),
+            ...(decision.diagnostics?.length ? { diagnostics: formatDiagnostics(decision.diagnostics) } : {}),
+            ...(decision.commitSha ? { commitSha: decision.commitSha } : {}),
+          }
+        : {
+            success: false,
+            status: 'rejected',
+            path: filePath,
+            message: '用户拒绝了此修改，文件未改变',
+            reason: decision.reason,
+          };
+
+      await memoryManager.addMemory({
+        sessionId: this.context.sessionId,
+        type: 'file_operation',
+        content: `${toolName}: ${filePath} (${decision.status})`,
+        metadata: { tool: toolName, path: filePath, checkpointId: checkpoint.id, decision },
+      });
+
+      yield {
+        type: 'tool_result',
+        content: decision.status === 'applied'
+          ? `已应用: ${describeCheckpoint(checkpoint)}`
+          : `已拒绝: ${describeCheckpoint(checkpoint)}`,
+        data: {
+          tool: toolName,
+          checkpointId: checkpoint.id,
+          changeSetId: changeSet.id,
+          ...approvalResult,
+        },
+      };
+
+      // 将真实的审批结果作为工具结果反馈给 AI，继续执行任务
+      toolResults.set(toolCall.id, [{
+        role: 'tool',
+        content: JSON.stringify(approvalResult),
+        tool_call_id: toolCall.id,
+        name: toolName,
+      }]);
+    }
+
+    // 修改后检查发现错误时，在变更集的最后一个工具结果之后追加观察，要求 AI 先修复
+    const errors = decisions
+      .flatMap(decision => decision.diagnostics || [])
+      .filter(diagnostic => diagnostic.severity === 'error');
+    if (errors.length > 0) {
+      const lastCall = edits[edits.length - 1].toolCall;
+      toolResults.get(lastCall.id)?.push({
+        role: 'system',
+        content: `【修改后检查】已应用的修改中有 ${errors.length} 个错误：\n${formatDiagnostics(errors.slice(0, 20)).join('\n')}\n请先修复这些错误再继续。`,
+      });
+    }
+  }
+  
   // 清除会话
   async clearSession(): Promise<void> {
     await memoryManager.clearSession(this.context.sessionId);
@@ -0,0 +1,59 @@
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { grepWorkspace } from './grep';
+
+let workspace: string;
+
+beforeAll(async () => {
+  workspace = await fs.mkdtemp(path.join(os.tmpdir(), 'grep-'));
+  await fs.mkdir(path.join(workspace, 'src'));
+  await fs.mkdir(path.join(workspace, 'node_modules'));
+  await fs.writeFile(path.join(workspace, 'src/a.ts'), 'export function add(a, b) {\n  return a + b;\n}\n');
+  await fs.writeFile(path.join(workspace, 'src/b.ts'), "import { add } from './a';\r\nadd(1, 2);\r\n");
+  await fs.writeFile(path.join(workspace, 'node_modules/dep.js'), 'add()');
+  await fs.writeFile(path.join(workspace, 'src/slow.txt'), `${'a'.repeat(40)}b\n`);
+});
+
+afterAll(async () => {
+  await fs.rm(workspace, { recursive: true, force: true });
+});
+
+describe('grepWorkspace', () => {
+  it('returns file:line:column for each matching line', async () => {
+    const result = await grepWorkspace(workspace, { pattern: 'add\\(', include: ['*.ts'], contextLines: 1 });
+
+    expect(result.matches).toEqual([
+      { location: 'src/a.ts:1:17', text: 'export function add(a, b) {', before: [], after: ['  return a + b;'] },
+      { location: 'src/b.ts:2:1', text: 'add(1, 2);', before: ["import { add } from './a';"], after: [''] },
+    ]);
+    expect(result).toMatchObject({ filesSearched: 2, filesMatched: 2, truncated: false });
+  });
+
+  it('rejects invalid regular expressions before searching', async () => {
+    await expect(grepWorkspace(workspace, { pattern: 'add(' })).rejects.toThrow('无效的正则表达式');
+    expect((await grepWorkspace(workspace, { pattern: 'add(', literal: true })).matches).toHaveLength(2);
+  });
+
+  it('stops a catastrophically backtracking pattern without blocking the event loop', async () => {
+    let ticks = 0;
+    const ticker = setInterval(() => ticks++, 10);
+    const startedAt = Date.now();
+
+    await expect(grepWorkspace(workspace, { pattern: '(a+)+$', path: 'src/slow.txt' }, { timeoutMs: 300 }))
+      .rejects.toThrow('已终止');
+
+    clearInterval(ticker);
+    expect(Date.now() - startedAt).toBeLessThan(5000);
+    expect(ticks).toBeGreaterThan(5);
+  });
+
+  it('stops when the signal is aborted', async () => {
+    const controller = new AbortController();
+    const search = grepWorkspace(workspace, { pattern: '(a+)+$', path: 'src/slow.txt' }, { signal: controller.signal });
+    setTimeout(() => controller.abort(), 100);
+
+    await expect(search).rejects.toThrow('搜索已取消');
+  });
+});
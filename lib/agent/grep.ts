@@ -0,0 +1,219 @@
+// 文本搜索 - grep 工具：在工作区中按正则或字面量精确查找，返回 file:line:column 位置
+import fs from 'fs/promises';
+import path from 'path';
+import { Worker } from 'worker_threads';
+import { shouldSkipDir } from '../codebase/skip-dirs';
+import { resolveWorkspacePath } from '../workspace/paths';
+import { globToRegExp } from '../utils/glob';
+
+export const DEFAULT_GREP_MAX_RESULTS = 100;
+export const MAX_GREP_RESULTS = 500;
+export const MAX_GREP_CONTEXT_LINES = 10;
+
+const MAX_FILE_SIZE = 1024 * 1024; // 跳过超过 1MB 的文件
+const MAX_FILES = 20_000;
+const MAX_LINE_LENGTH = 300;
+const DEFAULT_MATCH_TIMEOUT_MS = 10_000;
+
+// 逐行匹配在 worker 线程中执行：模型给出的正则可能灾难性回溯（如 (a+)+$），在服务线程中执行会阻塞所有会话。
+// 超时或取消时直接结束 worker。以源码字符串加载，不依赖打包后的文件路径
+const MATCH_WORKER_SOURCE = `
+const { parentPort, workerData } = require('worker_threads');
+const fs = require('fs');
+const path = require('path');
+const { workspacePath, files, source, flags, contextLines, maxResults, maxFileSize, maxLineLength } = workerData;
+const pattern = new RegExp(source, flags);
+const clipLine = line => line.length > maxLineLength ? line.slice(0, maxLineLength) + '...' : line;
+
+function readTextFile(fullPath) {
+  try {
+    if (fs.statSync(fullPath).size > maxFileSize) return null;
+    const buffer = fs.readFileSync(fullPath);
+    // 包含 NUL 字节的视为二进制文件
+    if (buffer.subarray(0, 8000).includes(0)) return null;
+    return buffer.toString('utf-8');
+  } catch {
+    return null;
+  }
+}
+
+const matches = [];
+let filesSearched = 0;
+let filesMatched = 0;
+let truncated = false;
+
+for (const file of files) {
+  const content = readTextFile(path.join(workspacePath, file));
+  if (content === null) continue;
+  filesSearched++;
+
+  const lines = content.split(/\\r?\\n/);
+  let matchedFile = false;
+  for (let i = 0; i < lines.length; i++) {
+    const match = pattern.exec(lines[i]);
+    if (!match) continue;
+
+    if (matches.length >= maxResults) {
+      truncated = true;
+      break;
+    }
+    matchedFile = true;
+    matches.push({
+      location: file + ':' + (i + 1) + ':' + (match.index + 1),
+      text: clipLine(lines[i]),
+      ...(contextLines > 0 ? {
+        before: lines.slice(Math.max(0, i - contextLines), i).map(clipLine),
+        after: lines.slice(i + 1, i + 1 + contextLines).map(clipLine),
+      } : {}),
+    });
+  }
+
+  if (matchedFile) filesMatched++;
+  if (truncated) break;
+}
+
+parentPort.postMessage({ matches, filesSearched, filesMatched, truncated });
+`;
+
+export interface GrepOptions {
+  pattern: string;
+  literal?: boolean; // 按字面量匹配（默认按正则）
+  caseSensitive?: boolean; // 默认区分大小写
+  path?: string; // 搜索的子目录或文件（相对工作区）
+  include?: string[]; // 只搜索匹配这些 glob 的文件
+  exclude?: string[]; // 跳过匹配这些 glob 的文件
+  contextLines?: number;
+  maxResults?: number;
+}
+
+export interface GrepRunOptions {
+  signal?: AbortSignal;
+  timeoutMs?: number; // 匹配的总时间上限（默认 10 秒）
+}
+
+export interface GrepMatch {
+  location: string; // file:line:column（1-based）
+  text: string;
+  before?: string[];
+  after?: string[];
+}
+
+export interface GrepResult {
+  matches: GrepMatch[];
+  filesSearched: number;
+  filesMatched: number;
+  truncated: boolean; // 达到结果上限，后续匹配未返回
+}
+
+function buildPattern(options: GrepOptions): RegExp {
+  const source = options.literal
+    ? options.pattern.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+    : options.pattern;
+  try {
+    return new RegExp(source, options.caseSensitive === false ? 'i' : '');
+  } catch (error: any) {
+    throw new Error(`无效的正则表达式 ${options.pattern}: ${error.message}。如需按原文查找，请设置 literal: true`);
+  }
+}
+
+// 遍历目录（跳过依赖和构建产物目录），返回相对工作区的文件路径
+async function collectFiles(workspacePath: string, start: string, files: string[]): Promise<void> {
+  if (files.length >= MAX_FILES) return;
+
+  let entries;
+  try {
+    entries = await fs.readdir(path.join(workspacePath, start), { withFileTypes: true });
+  } catch {
+    return;
+  }
+  entries.sort((a, b) => a.name.localeCompare(b.name));
+
+  for (const entry of entries) {
+    const relativePath = start ? `${start}/${entry.name}` : entry.name;
+    if (entry.isDirectory()) {
+      if (!shouldSkipDir(entry.name)) {
+        await collectFiles(workspacePath, relativePath, files);
+      }
+    } else if (entry.isFile()) {
+      files.push(relativePath);
+    }
+    if (files.length >= MAX_FILES) return;
+  }
+}
+
+// 在 worker 中逐行匹配，超时或取消时结束 worker 并抛出
+function matchInWorker(workerData: object, { signal, timeoutMs = DEFAULT_MATCH_TIMEOUT_MS }: GrepRunOptions): Promise<GrepResult> {
+  if (signal?.aborted) {
+    return Promise.reject(new Error('搜索已取消'));
+  }
+
+  return new Promise((resolve, reject) => {
+    const worker = new Worker(MATCH_WORKER_SOURCE, { eval: true, workerData });
+    let settled = false;
+    const finish = (error: Error | null, result?: GrepResult) => {
+      if (settled) return;
+      settled = true;
+      clearTimeout(timer);
+      signal?.removeEventListener('abort', onAbort);
+      worker.terminate().catch(() => {});
+      if (error) reject(error);
+      else resolve(result!);
+    };
+    const onAbort = () => finish(new Error('搜索已取消'));
+    const timer = setTimeout(() => finish(new Error(
+      `搜索超过 ${timeoutMs}ms 未完成，已终止。正则表达式可能存在大量回溯，请简化模式、缩小搜索范围或设置 literal: true`
+    )), timeoutMs);
+
+    signal?.addEventListener('abort', onAbort);
+    worker.once('message', result => finish(null, result));
+    worker.once('error', error => finish(error));
+    worker.once('exit', code => finish(new Error(`搜索进程异常退出（${code}）`)));
+  });
+}
+
+/**
+ * 在工作区中搜索，按文件路径排序返回每个匹配行（列为该行第一处匹配的位置）。
+ * 匹配超过 timeoutMs 或被取消时抛出
+ */
+export async function grepWorkspace(
+  workspacePath: string,
+  options: GrepOptions,
+  runOptions: GrepRunOptions = {}
+): Promise<GrepResult> {
+  const pattern = buildPattern(options);
+  const include = (options.include || []).map(globToRegExp);
+  const exclude = (options.exclude || []).map(globToRegExp);
+  const contextLines = Math.min(Math.max(options.contextLines || 0, 0), MAX_GREP_CONTEXT_LINES);
+  const maxResults = Math.min(options.maxResults || DEFAULT_GREP_MAX_RESULTS, MAX_GREP_RESULTS);
+
+  // 相对路径统一使用 /
+  const start = path.normalize(options.path || '.').split(path.sep).join('/').replace(/^\.(\/|$)/, '').replace(/\/$/, '');
+  const startPath = await resolveWorkspacePath(workspacePath, start || '.');
+
+  let files: string[] = [];
+  const startStat = await fs.stat(startPath).catch(() => null);
+  if (!startStat) {
+    throw new Error(`搜索路径不存在: ${options.path}`);
+  }
+  if (startStat.isFile()) {
+    files = [start];
+  } else {
+    await collectFiles(workspacePath, start, files);
+  }
+
+  files = files.filter(file =>
+    (include.length === 0 || include.some(glob => glob.test(file))) &&
+    !exclude.some(glob => glob.test(file))
+  );
+
+  return matchInWorker({
+    workspacePath,
+    files,
+    source: pattern.source,
+    flags: pattern.flags,
+    contextLines,
+    maxResults,
+    maxFileSize: MAX_FILE_SIZE,
+    maxLineLength: MAX_LINE_LENGTH,
+  }, runOptions);
+}
@@ -1,33 +1,254 @@
-// LLM 客户端 (支持 GLM-4.6 / OpenAI / Claude)
-import { Message } from './types';
+// LLM 客户端 (支持 GLM-4.6 / OpenAI / Claude / Mock)
+import { Message, ToolCall, TokenUsage } from './types';
+import {
+  ANTHROPIC_DEFAULT_MAX_TOKENS,
+  ANTHROPIC_VERSION,
+  fromAnthropicResponse,
+  handleAnthropicEvent,
+  toAnthropicMessages,
+  toAnthropicTools,
+} from './anthropic';
+import { MockLLMScript, loadMockScript } from './mock-llm';
+import { debugTracer } from '../debug/tracer';
 
 export interface LLMConfig {
-  provider: 'glm' | 'openai' | 'claude';
+  provider: 'glm' | 'openai' | 'claude' | 'mock';
   apiKey: string;
   baseUrl?: string;
   model: string;
+  maxTokens?: number; // Claude 必填，默认 4096
+  mockFixture?: string; // mock 提供商回放的脚本文件
+  retry?: Partial<RetryOptions>;
+  fallbacks?: LLMConfig[]; // 主配置失败后按顺序尝试
+}
+
+// LLM 调用的用途：agent 为 Agent 的推理回合，其余为辅助调用（Mock 提供商回放时不占用脚本中的回合）
+export type LLMCallPurpose = 'agent' | 'compaction';
+
+// 重试策略（指数退避 + 抖动，优先使用 Retry-After）
+export interface RetryOptions {
+  maxRetries: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+}
+
+// 工具调用参数不是合法 JSON 时的错误信息（反馈给模型让其重试）
+export interface ToolCallError {
+  toolCallId: string;
+  toolName: string;
+  arguments: string;
+  message: string;
 }
 
 export interface LLMStreamChunk {
   delta: string;
   done: boolean;
-  tool_calls?: any[];
+  tool_calls?: ToolCall[]; // 已合并完整的工具调用
+  tool_call_errors?: ToolCallError[];
+  usage?: TokenUsage; // 随 done chunk 交出
+  model?: string; // 实际响应的模型（可能是 fallback）
+}
+
+/**
+ * 合并流式返回的 tool_call 片段
+ * OpenAI 风格的流式响应会按 index 把同一个调用的 arguments 拆到多个 chunk 中
+ */
+export class ToolCallAccumulator {
+  private calls: Map<number, { id: string; name: string; arguments: string }> = new Map();
+
+  add(deltas: any[]) {
+    deltas.forEach(delta => {
+      let index: number = typeof delta.index === 'number' ? delta.index : -1;
+      if (index === -1) {
+        // 没有 index 的提供商：按 id 匹配，否则视为新的调用
+        const existing = Array.from(this.calls.entries()).find(([, call]) => delta.id && call.id === delta.id);
+        index = existing ? existing[0] : this.calls.size;
+      }
+
+      const call = this.calls.get(index) || { id: '', name: '', arguments: '' };
+      if (delta.id && !call.id) call.id = delta.id;
+      if (delta.function?.name && !call.name) call.name = delta.function.name;
+      if (typeof delta.function?.arguments === 'string') {
+        call.arguments += delta.function.arguments;
+      } else if (delta.function?.arguments && typeof delta.function.arguments === 'object') {
+        call.arguments = JSON.stringify(delta.function.arguments);
+      }
+      this.calls.set(index, call);
+    });
+  }
+
+  hasCalls(): boolean {
+    return this.calls.size > 0;
+  }
+
+  /**
+   * 取出所有完整的工具调用，并校验 arguments 是否为合法 JSON
+   */
+  flush(): { toolCalls: ToolCall[]; errors: ToolCallError[] } {
+    const toolCalls: ToolCall[] = [];
+    const errors: ToolCallError[] = [];
+
+    Array.from(this.calls.entries())
+      .sort(([a], [b]) => a - b)
+      .forEach(([index, call]) => {
+        const toolCall: ToolCall = {
+          id: call.id || `call_${index}`,
+          type: 'function',
+          function: {
+            name: call.name,
+            arguments: call.arguments.trim() || '{}',
+          },
+        };
+
+        try {
+          JSON.parse(toolCall.function.arguments);
+        } catch (e: any) {
+          errors.push({
+            toolCallId: toolCall.id,
+            toolName: call.name,
+            arguments: toolCall.function.arguments,
+            message: `Invalid JSON arguments for ${call.name}: ${e.message}`,
+          });
+        }
+
+        toolCalls.push(toolCall);
+      });
+
+    this.calls.clear();
+    return { toolCalls, errors };
+  }
+
+  // 生成包含完整工具调用的 chunk（没有调用时返回 null）
+  flushChunk(): LLMStreamChunk | null {
+    if (!this.hasCalls()) return null;
+    const { toolCalls, errors } = this.flush();
+    return {
+      delta: '',
+      done: false,
+      tool_calls: toolCalls,
+      ...(errors.length > 0 ? { tool_call_errors: errors } : {}),
+    };
+  }
+}
+
+// 可重试的 HTTP 状态码（限流 / 服务端错误 / Anthropic 过载）
+const RETRYABLE_STATUS = [408, 429, 500, 502, 503, 504, 529];
+// Retry-After 超过该值时不再等待，直接切换到下一个提供商
+const MAX_RETRY_AFTER_MS = 60000;
+
+export const DEFAULT_RETRY_OPTIONS: RetryOptions = {
+  maxRetries: 2,
+  baseDelayMs: 1000,
+  maxDelayMs: 15000,
+};
+
+// 单次请求尝试的结果
+type AttemptResult =
+  | { ok: true; response: Response }
+  | { ok: false; error: Error; retryable: boolean; retryAfterMs?: number };
+
+// 解析 Retry-After（秒数或 HTTP 日期），以及 OpenAI 的 retry-after-ms
+function parseRetryAfter(headers: Headers): number | undefined {
+  const ms = headers.get('retry-after-ms');
+  if (ms && !isNaN(Number(ms))) {
+    return Number(ms);
+  }
+  
+  const value = headers.get('retry-after');
+  if (!value) return undefined;
+  if (!isNaN(Number(value))) {
+    return Number(value) * 1000;
+  }
+  const date = Date.parse(value);
+  return isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+// 指数退避 + 抖动（实际延迟在 [delay/2, delay] 之间）
+function backoffDelay(attempt: number, retry: RetryOptions): number {
+  const delay = Math.min(retry.maxDelayMs, retry.baseDelayMs * Math.pow(2, attempt));
+  return Math.round(delay / 2 + Math.random() * delay / 2);
+}
+
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new Error('LLM 请求已取消'));
+      return;
+    }
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new Error('LLM 请求已取消'));
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+/**
+ * 按字符数估算 token：ASCII 约 4 个字符一个 token，中文等非 ASCII 字符约一个字符一个 token
+ */
+export function estimateTokens(text: string): number {
+  let ascii = 0;
+  let other = 0;
+  for (let i = 0; i < text.length; i++) {
+    if (text.charCodeAt(i) < 128) ascii++;
+    else other++;
+  }
+  return Math.ceil(ascii / 4 + other);
+}
+
+// 提供商没有返回 usage 时的估算值
+function estimateUsage(messages: Message[], tools: any[] | undefined, completion: string): TokenUsage {
+  const prompt = estimateTokens(JSON.stringify(messages) + (tools ? JSON.stringify(tools) : ''));
+  const completionTokens = estimateTokens(completion);
+  return { prompt, completion: completionTokens, total: prompt + completionTokens, estimated: true };
+}
+
+/**
+ * OpenAI 格式的 usage -> TokenUsage
+ */
+export function normalizeUsage(usage: any): TokenUsage | undefined {
+  if (!usage || typeof usage.prompt_tokens !== 'number') return undefined;
+  const completion = usage.completion_tokens || 0;
+  return {
+    prompt: usage.prompt_tokens,
+    completion,
+    total: usage.total_tokens ?? usage.prompt_tokens + completion,
+    ...(usage.estimated ? { estimated: true } : {}),
+  };
 }
 
 export class LLMClient {
   private config: LLMConfig;
+  private mockScript?: MockLLMScript;
   
   constructor(config: LLMConfig) {
     this.config = config;
+    
+    if (config.provider === 'mock') {
+      if (!config.mockFixture) {
+        throw new Error('Mock provider requires a fixture file (LLM_MOCK_FIXTURE)');
+      }
+      const { responses, delayMs } = loadMockScript(config.mockFixture);
+      this.mockScript = new MockLLMScript(responses, delayMs);
+    }
+  }
+  
+  // 当前使用的模型名称
+  getModel(): string {
+    return this.config.model;
   }
   
   // 获取 API 基础 URL
-  private getBaseUrl(): string {
-    if (this.config.baseUrl) {
-      return this.config.baseUrl;
+  private getBaseUrl(config: LLMConfig): string {
+    if (config.baseUrl) {
+      return config.baseUrl;
     }
     
-    switch (this.config.provider) {
+    switch (config.provider) {
       case 'glm':
         return 'https://open.bigmodel.cn/api/paas/v4';
       case 'openai':
@@ -35,55 +256,232 @@ export class LLMClient {
       case 'claude':
         return 'https://api.anthropic.com/v1';
       default:
-        throw new Error(`Unknown provider: ${this.config.provider}`);
+        throw new Error(`Unknown provider: ${config.provider}`);
     }
   }
   
-  // 转换消息格式（如果需要）
-  private transformMessages(messages: Message[]): any[] {
-    // GLM-4.6 和 OpenAI 使用相同的格式
-    if (this.config.provider === 'glm' || this.config.provider === 'openai') {
-      return messages;
-    }
-    
-    // Claude 需要不同的格式，但这里先用通用格式
-    return messages;
-  }
-  
-  // 流式对话
-  async *streamChat(
+  // 构造请求（GLM-4.6 和 OpenAI 使用相同的格式，Claude 使用 Messages API）
+  private buildRequest(
+    config: LLMConfig,
     messages: Message[],
-    tools?: any[],
-    temperature = 0.7
-  ): AsyncGenerator<LLMStreamChunk> {
-    const baseUrl = this.getBaseUrl();
-    const transformedMessages = this.transformMessages(messages);
+    tools: any[] | undefined,
+    temperature: number,
+    stream: boolean
+  ): { url: string; headers: Record<string, string>; body: any } {
+    const baseUrl = this.getBaseUrl(config);
     
-    const requestBody: any = {
-      model: this.config.model,
-      messages: transformedMessages,
+    if (config.provider === 'claude') {
+      const { system, messages: anthropicMessages } = toAnthropicMessages(messages);
+      const body: any = {
+        model: config.model,
+        max_tokens: config.maxTokens || ANTHROPIC_DEFAULT_MAX_TOKENS,
+        messages: anthropicMessages,
+        temperature,
+        stream,
+      };
+      if (system) body.system = system;
+      if (tools && tools.length > 0) {
+        body.tools = toAnthropicTools(tools);
+        body.tool_choice = { type: 'auto' };
+      }
+      
+      return {
+        url: `${baseUrl}/messages`,
+        headers: {
+          'Content-Type': 'application/json',
+          'x-api-key': config.apiKey,
+          'anthropic-version': ANTHROPIC_VERSION,
+        },
+        body,
+      };
+    }
+    
+    const body: any = {
+      model: config.model,
+      messages,
       temperature,
-      stream: true,
+      stream,
     };
-    
+    if (config.maxTokens) body.max_tokens = config.maxTokens;
+    // OpenAI 需要显式开启才会在流式响应中返回 usage（GLM 默认返回）
+    if (stream && config.provider === 'openai') {
+      body.stream_options = { include_usage: true };
+    }
     if (tools && tools.length > 0) {
-      requestBody.tools = tools;
-      requestBody.tool_choice = 'auto';
+      body.tools = tools;
+      body.tool_choice = 'auto';
     }
     
-    const response = await fetch(`${baseUrl}/chat/completions`, {
-      method: 'POST',
+    return {
+      url: `${baseUrl}/chat/completions`,
       headers: {
         'Content-Type': 'application/json',
-        'Authorization': `Bearer ${this.config.apiKey}`,
+        'Authorization': `Bearer ${config.apiKey}`,
       },
-      body: JSON.stringify(requestBody),
-    });
+      body,
+    };
+  }
+  
+  // 发送一次请求，区分可重试与不可重试的失败
+  private async attempt(
+    config: LLMConfig,
+    messages: Message[],
+    tools: any[] | undefined,
+    temperature: number,
+    stream: boolean,
+    signal?: AbortSignal
+  ): Promise<AttemptResult> {
+    const { url, headers, body } = this.buildRequest(config, messages, tools, temperature, stream);
+    
+    let response: Response;
+    try {
+      response = await fetch(url, {
+        method: 'POST',
+        headers,
+        body: JSON.stringify(body),
+        signal,
+      });
+    } catch (error: any) {
+      if (signal?.aborted) throw error;
+      // 网络错误（连接被拒绝、DNS 失败等）
+      return { ok: false, error, retryable: true };
+    }
+    
+    if (response.ok) {
+      return { ok: true, response };
+    }
+    
+    const errorText = await response.text();
+    return {
+      ok: false,
+      error: new Error(`LLM API error: ${response.status} - ${errorText}`),
+      retryable: RETRYABLE_STATUS.includes(response.status),
+      retryAfterMs: parseRetryAfter(response.headers),
+    };
+  }
+  
+  /**
+   * 按顺序尝试主配置和 fallbacks：
+   * 可重试的错误按指数退避重试，重试用尽或遇到不可重试的错误时切换到下一个配置
+   * 传入 traceSessionId 时，每次尝试都会记录为一个 llm_attempt 事件
+   */
+  private async request(
+    messages: Message[],
+    tools: any[] | undefined,
+    temperature: number,
+    stream: boolean,
+    signal?: AbortSignal,
+    traceSessionId?: string
+  ): Promise<{ response: Response; config: LLMConfig }> {
+    const chain = [this.config, ...(this.config.fallbacks || [])];
+    let lastError: Error | undefined;
+    
+    for (let index = 0; index < chain.length; index++) {
+      const config = chain[index];
+      const retry: RetryOptions = { ...DEFAULT_RETRY_OPTIONS, ...this.config.retry, ...config.retry };
+      
+      for (let attempt = 0; attempt <= retry.maxRetries; attempt++) {
+        const eventId = traceSessionId
+          ? debugTracer.startOperation(traceSessionId, 'llm_attempt', {
+              provider: config.provider,
+              model: config.model,
+              attempt: attempt + 1,
+              fallbackIndex: index,
+            })
+          : undefined;
+        
+        let result: AttemptResult;
+        try {
+          result = await this.attempt(config, messages, tools, temperature, stream, signal);
+        } catch (error: any) {
+          if (traceSessionId && eventId) {
+            debugTracer.endOperation(traceSessionId, eventId, { ok: false, error: error.message });
+          }
+          throw error;
+        }
+        
+        if (result.ok) {
+          if (traceSessionId && eventId) {
+            debugTracer.endOperation(traceSessionId, eventId, { ok: true, status: result.response.status });
+          }
+          return { response: result.response, config };
+        }
+        
+        lastError = result.error;
+        const canRetry = result.retryable
+          && attempt < retry.maxRetries
+          && (result.retryAfterMs === undefined || result.retryAfterMs <= MAX_RETRY_AFTER_MS);
+        const delay = canRetry
+          ? result.retryAfterMs ?? backoffDelay(attempt, retry)
+          : undefined;
+        
+        if (traceSessionId && eventId) {
+          debugTracer.endOperation(traceSessionId, eventId, {
+            ok: false,
+            error: result.error.message.slice(0, 500),
+            retryable: result.retryable,
+            retryInMs: delay,
+          });
+        }
+        
+        if (delay === undefined) break;
+        console.warn(`LLM request failed (${config.provider}/${config.model}), retrying in ${delay}ms:`, result.error.message);
+        await sleep(delay, signal);
+      }
+      
+      if (index < chain.length - 1) {
+        console.warn(`LLM provider ${config.provider}/${config.model} failed, falling back to ${chain[index + 1].provider}/${chain[index + 1].model}`);
+      }
+    }
+    
+    throw lastError || new Error('LLM API error: no provider configured');
+  }
+  
+  /**
+   * 流式对话
+   * 只在收到响应之前重试 / 切换提供商，流开始后的错误直接抛出
+   * done chunk 中带有 usage（提供商未返回时按字符数估算）和实际响应的模型
+   */
+  async *streamChat(
+    messages: Message[],
+    tools?: any[],
+    temperature = 0.7,
+    signal?: AbortSignal,
+    traceSessionId?: string
+  ): AsyncGenerator<LLMStreamChunk> {
+    const source = this.mockScript
+      ? this.mockScript.stream(new ToolCallAccumulator(), signal)
+      : this.streamResponse(messages, tools, temperature, signal, traceSessionId);
+    let completion = '';
     
-    if (!response.ok) {
-      const error = await response.text();
-      throw new Error(`LLM API error: ${response.status} - ${error}`);
+    for await (const chunk of source) {
+      completion += chunk.delta;
+      chunk.tool_calls?.forEach(call => {
+        completion += call.function.name + call.function.arguments;
+      });
+      
+      if (chunk.done) {
+        yield {
+          ...chunk,
+          usage: chunk.usage || estimateUsage(messages, tools, completion),
+          model: chunk.model || this.config.model,
+        };
+        return;
+      }
+      yield chunk;
     }
+  }
+  
+  // 请求并解析 SSE 流
+  private async *streamResponse(
+    messages: Message[],
+    tools: any[] | undefined,
+    temperature: number,
+    signal?: AbortSignal,
+    traceSessionId?: string
+  ): AsyncGenerator<LLMStreamChunk> {
+    const { response, config } = await this.request(messages, tools, temperature, true, signal, traceSessionId);
+    const isAnthropic = config.provider === 'claude';
     
     const reader = response.body?.getReader();
     if (!reader) {
@@ -91,12 +489,21 @@ export class LLMClient {
     }
     
     const decoder = new TextDecoder();
+    const toolCalls = new ToolCallAccumulator();
+    const anthropicUsage: { current?: TokenUsage } = {};
+    let usage: TokenUsage | undefined;
     let buffer = '';
     
     while (true) {
       const { done, value } = await reader.read();
       
-      if (done) break;
+      if (done) {
+        // 流结束时，交出剩余的工具调用和 usage
+        const pending = toolCalls.flushChunk();
+        if (pending) yield pending;
+        yield { delta: '', done: true, usage, model: config.model };
+        return;
+      }
       
       buffer += decoder.decode(value, { stream: true });
       const lines = buffer.split('\n');
@@ -104,79 +511,116 @@ export class LLMClient {
       
       for (const line of lines) {
         const trimmed = line.trim();
-        if (!trimmed || trimmed === 'data: [DONE]') continue;
+        // Anthropic 的 "event: xxx" 行可以忽略，data 中同样带有 type
+        if (!trimmed) continue;
+        
+        if (trimmed === 'data: [DONE]') {
+          const pending = toolCalls.flushChunk();
+          if (pending) yield pending;
+          yield { delta: '', done: true, usage, model: config.model };
+          return;
+        }
         
         if (trimmed.startsWith('data: ')) {
+          let data: any;
           try {
-            const data = JSON.parse(trimmed.slice(6));
-            const delta = data.choices?.[0]?.delta;
-            
-            if (delta?.content) {
-              yield {
-                delta: delta.content,
-                done: false,
-              };
-            }
-            
-            if (delta?.tool_calls) {
-              // GLM-4 和 OpenAI 的 tool_calls 格式
-              console.log('Received tool_calls:', delta.tool_calls);
-              yield {
-                delta: '',
-                done: false,
-                tool_calls: delta.tool_calls,
-              };
-            }
-            
-            if (data.choices?.[0]?.finish_reason) {
-              yield {
-                delta: '',
-                done: true,
-              };
-            }
+            data = JSON.parse(trimmed.slice(6));
           } catch (e) {
             console.error('Failed to parse SSE data:', trimmed, e);
+            continue;
+          }
+          
+          if (isAnthropic) {
+            // error 事件会直接抛出
+            for (const chunk of handleAnthropicEvent(data, toolCalls, anthropicUsage)) {
+              yield chunk.done ? { ...chunk, model: config.model } : chunk;
+              if (chunk.done) return;
+            }
+            continue;
+          }
+          
+          // include_usage 时 usage 在 finish_reason 之后的最后一个 chunk 中（choices 为空）
+          usage = normalizeUsage(data.usage) || usage;
+          
+          const delta = data.choices?.[0]?.delta;
+          
+          if (delta?.content) {
+            yield {
+              delta: delta.content,
+              done: false,
+            };
+          }
+          
+          if (delta?.tool_calls) {
+            // GLM-4 和 OpenAI 的 tool_calls 片段，结束时再合并交出
+            toolCalls.add(delta.tool_calls);
+          }
+          
+          if (data.choices?.[0]?.finish_reason) {
+            // 先交出工具调用，done 等到 [DONE] 再交出，以便带上 usage
+            const pending = toolCalls.flushChunk();
+            if (pending) yield pending;
           }
         }
       }
     }
   }
   
-  // 非流式对话
+  // 非流式对话（统一返回 OpenAI chat.completion 格式）
   async chat(
     messages: Message[],
     tools?: any[],
-    temperature = 0.7
+    temperature = 0.7,
+    signal?: AbortSignal,
+    traceSessionId?: string,
+    purpose: LLMCallPurpose = 'agent'
   ): Promise<any> {
-    const baseUrl = this.getBaseUrl();
-    const transformedMessages = this.transformMessages(messages);
-    
-    const requestBody: any = {
-      model: this.config.model,
-      messages: transformedMessages,
-      temperature,
-    };
-    
-    if (tools && tools.length > 0) {
-      requestBody.tools = tools;
-      requestBody.tool_choice = 'auto';
+    let data: any;
+    if (this.mockScript) {
+      data = this.mockScript.complete(signal, purpose);
+    } else {
+      const { response, config } = await this.request(messages, tools, temperature, false, signal, traceSessionId);
+      const raw = await response.json();
+      data = config.provider === 'claude' ? fromAnthropicResponse(raw) : raw;
+      data.model = data.model || config.model;
     }
     
-    const response = await fetch(`${baseUrl}/chat/completions`, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        'Authorization': `Bearer ${this.config.apiKey}`,
-      },
-      body: JSON.stringify(requestBody),
-    });
-    
-    if (!response.ok) {
-      const error = await response.text();
-      throw new Error(`LLM API error: ${response.status} - ${error}`);
+    // 保证调用方总能拿到 usage（未返回时按字符数估算）
+    if (!normalizeUsage(data.usage)) {
+      const message = data.choices?.[0]?.message || {};
+      const estimated = estimateUsage(
+        messages,
+        tools,
+        (message.content || '') + JSON.stringify(message.tool_calls || [])
+      );
+      data.usage = {
+        prompt_tokens: estimated.prompt,
+        completion_tokens: estimated.completion,
+        total_tokens: estimated.total,
+        estimated: true,
+      };
     }
-    
-    return response.json();
+    return data;
+  }
+}
+
+// 从环境变量读取 fallback 列表（JSON 数组，每项为部分 LLMConfig）
+function parseFallbacks(value?: string): LLMConfig[] | undefined {
+  if (!value) return undefined;
+  try {
+    const list = JSON.parse(value);
+    if (!Array.isArray(list)) {
+      throw new Error('must be a JSON array');
+    }
+    return list.map((item: Partial<LLMConfig>) => ({
+      provider: item.provider || 'openai',
+      apiKey: item.apiKey || '',
+      model: item.model || '',
+      ...item,
+    }));
+  } catch (error: any) {
+    console.error('Invalid LLM_FALLBACKS:', error.message);
+    return undefined;
   }
 }
 
@@ -187,9 +631,11 @@ export function createLLMClient(config?: Partial<LLMConfig>): LLMClient {
     apiKey: process.env.LLM_API_KEY || '',
     baseUrl: process.env.LLM_BASE_URL,
     model: process.env.LLM_MODEL || 'glm-4-flash',
+    mockFixture: process.env.LLM_MOCK_FIXTURE,
+    maxTokens: process.env.LLM_MAX_TOKENS ? Number(process.env.LLM_MAX_TOKENS) : undefined,
+    retry: process.env.LLM_MAX_RETRIES ? { maxRetries: Number(process.env.LLM_MAX_RETRIES) } : undefined,
+    fallbacks: parseFallbacks(process.env.LLM_FALLBACKS),
   };
   
   return new LLMClient({ ...defaultConfig, ...config });
 }
-
-
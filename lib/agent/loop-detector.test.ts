@@ -0,0 +1,40 @@
+import { describe, expect, it } from 'vitest';
+import { LoopDetector, ToolCallRecord } from './loop-detector';
+
+const call = (toolName: string, args: string, output = 'ok'): ToolCallRecord => ({
+  toolName,
+  args,
+  output,
+  failed: false,
+});
+
+describe('LoopDetector', () => {
+  it('stops after maxHints consecutive detections', () => {
+    const detector = new LoopDetector({ maxHints: 2 });
+    const read = call('read_file', '{"path":"a.ts"}');
+
+    expect(detector.recordIteration([read])).toBeNull();
+    expect(detector.recordIteration([read])?.action).toBe('hint');
+    expect(detector.recordIteration([read])?.action).toBe('hint');
+    expect(detector.recordIteration([read])?.action).toBe('stop');
+  });
+
+  it('resets the hint budget after a productive iteration', () => {
+    const detector = new LoopDetector({ maxHints: 2 });
+    let step = 0;
+    const productive = () => detector.recordIteration([call('write_file', `{"step":${step++}}`)]);
+
+    // 三次互不相关的重复，每次之后都有正常的迭代
+    for (const path of ['a.ts', 'b.ts', 'c.ts']) {
+      const read = call('read_file', JSON.stringify({ path }));
+      expect(detector.recordIteration([read])).toBeNull();
+      expect(detector.recordIteration([read])?.action).toBe('hint');
+      expect(productive()).toBeNull();
+    }
+  });
+
+  it('treats arguments with reordered keys as the same call', () => {
+    const detector = new LoopDetector();
+    expect(detector.signature('grep', '{"a":1,"b":2}')).toBe(detector.signature('grep', { b: 2, a: 1 }));
+  });
+});
@@ -0,0 +1,170 @@
+// 循环检测 - 发现模型反复调用相同工具、结果不再变化或迭代没有进展的情况
+import { createHash } from 'crypto';
+
+export type LoopPattern = 'repeated_call' | 'unchanged_output' | 'no_progress';
+
+export interface LoopDetectorOptions {
+  maxIdenticalCalls: number; // 相同工具 + 相同参数、且结果不变的调用次数上限
+  maxStalledIterations: number; // 连续没有进展的迭代数上限
+  maxHints: number; // 纠正提示的次数上限，超过后停止执行
+}
+
+/**
+ * 一轮迭代中的一次工具调用（结果为加入消息历史的工具结果内容）
+ */
+export interface ToolCallRecord {
+  toolName: string;
+  args: string; // 原始参数字符串
+  output: string;
+  failed: boolean;
+}
+
+/**
+ * 检测结果：action 为 hint 时注入纠正提示，为 stop 时结束执行
+ */
+export interface LoopDetection {
+  pattern: LoopPattern;
+  action: 'hint' | 'stop';
+  message: string;
+  hint: string;
+  details: Record<string, any>;
+}
+
+// 参数按 key 排序后序列化，保证 {a,b} 与 {b,a} 得到相同的签名
+function stableStringify(value: any): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(stableStringify).join(',')}]`;
+  }
+  if (value && typeof value === 'object') {
+    return `{${Object.keys(value)
+      .sort()
+      .map(key => `${JSON.stringify(key)}:${stableStringify(value[key])}`)
+      .join(',')}}`;
+  }
+  return JSON.stringify(value);
+}
+
+function hashOutput(output: string): string {
+  return createHash('sha1').update(output).digest('hex');
+}
+
+export class LoopDetector {
+  private options: LoopDetectorOptions;
+  private callCounts: Map<string, number> = new Map();
+  private lastOutputs: Map<string, string> = new Map();
+  private stalledIterations = 0;
+  private hintsGiven = 0;
+
+  constructor(options: Partial<LoopDetectorOptions> = {}) {
+    this.options = {
+      maxIdenticalCalls: 3,
+      maxStalledIterations: 3,
+      maxHints: 2,
+      ...options,
+    };
+  }
+
+  // 工具调用签名：工具名 + 规范化后的参数
+  signature(toolName: string, args: string | Record<string, any>): string {
+    if (typeof args !== 'string') {
+      return `${toolName}:${stableStringify(args)}`;
+    }
+    try {
+      return `${toolName}:${stableStringify(JSON.parse(args || '{}'))}`;
+    } catch {
+      return `${toolName}:${args}`;
+    }
+  }
+
+  // 之前的迭代中是否已经用相同参数调用过该工具
+  hasSeen(toolName: string, args: string | Record<string, any>): boolean {
+    return this.callCounts.has(this.signature(toolName, args));
+  }
+
+  /**
+   * 记录一轮迭代的工具调用，返回检测到的循环模式（没有时返回 null）
+   * 一轮中有新的调用或结果发生变化视为有进展
+   */
+  recordIteration(calls: ToolCallRecord[]): LoopDetection | null {
+    let repeated: { toolName: string; args: string; count: number } | null = null;
+    let unchanged: { toolName: string; args: string } | null = null;
+    let progressed = false;
+
+    for (const call of calls) {
+      const signature = this.signature(call.toolName, call.args);
+      const outputHash = hashOutput(call.output);
+      const sameOutput = this.lastOutputs.get(signature) === outputHash;
+      this.lastOutputs.set(signature, outputHash);
+
+      // 结果变化（例如文件被修改后重新读取）说明这次调用是有意义的，重新计数
+      const count = sameOutput ? (this.callCounts.get(signature) || 0) + 1 : 1;
+      this.callCounts.set(signature, count);
+
+      if (count >= this.options.maxIdenticalCalls && (!repeated || count > repeated.count)) {
+        repeated = { toolName: call.toolName, args: call.args, count };
+      }
+      if (sameOutput && !unchanged) {
+        unchanged = { toolName: call.toolName, args: call.args };
+      }
+      if (!call.failed && !sameOutput) {
+        progressed = true;
+      }
+    }
+
+    this.stalledIterations = progressed ? 0 : this.stalledIterations + 1;
+
+    const detection = this.findLoop(repeated, unchanged, calls);
+    // 有进展的迭代之后纠正提示重新计数，长时间运行中互不相关的几次重复不会累计到 maxHints 而停止
+    if (!detection && progressed) {
+      this.hintsGiven = 0;
+    }
+    return detection;
+  }
+
+  private findLoop(
+    repeated: { toolName: string; args: string; count: number } | null,
+    unchanged: { toolName: string; args: string } | null,
+    calls: ToolCallRecord[]
+  ): LoopDetection | null {
+    if (repeated) {
+      return this.detect(
+        'repeated_call',
+        `工具 ${repeated.toolName} 以相同参数被调用了 ${repeated.count} 次`,
+        `你已经用相同的参数调用了 ${repeated.toolName} ${repeated.count} 次，结果不会改变。不要再重复这个调用，请根据已有结果继续下一步；如果任务已经完成，直接回复用户。`,
+        { tool: repeated.toolName, arguments: repeated.args, count: repeated.count }
+      );
+    }
+    if (unchanged) {
+      return this.detect(
+        'unchanged_output',
+        `工具 ${unchanged.toolName} 的重复调用返回了与上次相同的结果`,
+        `${unchanged.toolName} 返回的结果与上次完全相同，之前的结果仍然有效。请直接使用已有结果继续，不要重复读取。`,
+        { tool: unchanged.toolName, arguments: unchanged.args }
+      );
+    }
+    if (this.stalledIterations >= this.options.maxStalledIterations) {
+      const stalled = this.stalledIterations;
+      this.stalledIterations = 0;
+      return this.detect(
+        'no_progress',
+        `连续 ${stalled} 轮迭代没有进展（工具调用全部失败或重复）`,
+        `最近 ${stalled} 轮的工具调用都失败了或只是重复之前的调用。请换一种做法（检查参数、换用其他工具），或者向用户说明遇到的问题。`,
+        { stalledIterations: stalled, tools: calls.map(call => call.toolName) }
+      );
+    }
+    return null;
+  }
+
+  private detect(
+    pattern: LoopPattern,
+    message: string,
+    hint: string,
+    details: Record<string, any>
+  ): LoopDetection {
+    const action = this.hintsGiven >= this.options.maxHints ? 'stop' : 'hint';
+    if (action === 'hint') {
+      this.hintsGiven++;
+    }
+    return { pattern, action, message, hint, details: { ...details, hintsGiven: this.hintsGiven } };
+  }
+}
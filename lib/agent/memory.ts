@@ -55,9 +55,11 @@ export class MemoryManager {
     return db.getMemories(sessionId, limit);
   }
   
-  // 获取最近的对话记忆
+  // 获取最近的对话记忆（存在压缩摘要时，从最近的摘要开始）
   async getRecentConversations(sessionId: string, limit = 10): Promise<Memory[]> {
-    return db.getMemoriesByType(sessionId, 'conversation', limit);
+    const conversations = db.getMemoriesByType(sessionId, 'conversation', limit);
+    const summaryIndex = conversations.map(m => !!m.metadata?.compaction).lastIndexOf(true);
+    return summaryIndex > 0 ? conversations.slice(summaryIndex) : conversations;
   }
   
   // 清除会话记忆
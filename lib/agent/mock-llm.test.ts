@@ -0,0 +1,163 @@
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { LLMClient, LLMStreamChunk, ToolCallAccumulator } from './llm';
+import { loadMockScript, MockLLMScript, MockResponse } from './mock-llm';
+
+let dir: string;
+
+beforeAll(async () => {
+  dir = await fs.mkdtemp(path.join(os.tmpdir(), 'mock-llm-'));
+});
+
+afterAll(async () => {
+  await fs.rm(dir, { recursive: true, force: true });
+});
+
+async function writeScript(name: string, data: unknown): Promise<string> {
+  const filePath = path.join(dir, name);
+  await fs.writeFile(filePath, typeof data === 'string' ? data : JSON.stringify(data));
+  return filePath;
+}
+
+async function collect(stream: AsyncGenerator<LLMStreamChunk>): Promise<LLMStreamChunk[]> {
+  const chunks: LLMStreamChunk[] = [];
+  for await (const chunk of stream) {
+    chunks.push(chunk);
+  }
+  return chunks;
+}
+
+describe('loadMockScript', () => {
+  const responses: MockResponse[] = [{ content: '你好' }];
+
+  it('reads an array or an object with responses and delayMs', async () => {
+    expect(loadMockScript(await writeScript('array.json', responses))).toEqual({ responses, delayMs: 0 });
+    expect(loadMockScript(await writeScript('object.json', { delayMs: 20, responses })))
+      .toEqual({ responses, delayMs: 20 });
+  });
+
+  it('extracts LLM replies from an exported trace', async () => {
+    const session = {
+      events: [
+        { type: 'llm_call', data: { result: { response: '先看看文件', toolCalls: [{ id: 'call_1', name: 'list_files', arguments: '{}' }] } } },
+        { type: 'tool_call', data: { name: 'list_files' } },
+        { type: 'llm_call', data: { result: { cancelled: true } } },
+        { type: 'llm_call', data: { result: { response: '完成' } } },
+      ],
+    };
+    const expected = [
+      { content: '先看看文件', tool_calls: [{ id: 'call_1', name: 'list_files', arguments: '{}' }] },
+      { content: '完成', tool_calls: [] },
+    ];
+
+    expect(loadMockScript(await writeScript('trace.json', session)).responses).toEqual(expected);
+    // /api/debug/trace 的 export 响应中 data 是 JSON 字符串
+    expect(loadMockScript(await writeScript('export.json', { data: JSON.stringify(session) })).responses)
+      .toEqual(expected);
+  });
+
+  it('rejects unreadable and unknown scripts', async () => {
+    const broken = await writeScript('broken.json', '{');
+    const unknown = await writeScript('unknown.json', { foo: 1 });
+
+    expect(() => loadMockScript(path.join(dir, 'missing.json'))).toThrow('无法读取 Mock LLM 脚本');
+    expect(() => loadMockScript(broken)).toThrow('无法读取 Mock LLM 脚本');
+    expect(() => loadMockScript(unknown)).toThrow('无法识别的 Mock LLM 脚本格式');
+  });
+});
+
+describe('MockLLMScript', () => {
+  it('streams text deltas and then the tool calls of each turn', async () => {
+    const script = new MockLLMScript([
+      {
+        content: '读取 src/index.ts',
+        tool_calls: [
+          { name: 'read_file', arguments: { path: 'src/index.ts' } },
+          { id: 'call_custom', name: 'list_files', arguments: '{"path":' },
+        ],
+      },
+      { deltas: ['完', '成'] },
+    ]);
+
+    const first = await collect(script.stream(new ToolCallAccumulator()));
+    expect(first.filter(chunk => !chunk.done).map(chunk => chunk.delta)).toEqual(['读取 src/i', 'ndex.ts', '']);
+    const toolCalls = first.flatMap(chunk => chunk.tool_calls || []);
+    expect(toolCalls[0]).toEqual(
+      { id: 'call_mock_0_0', type: 'function', function: { name: 'read_file', arguments: '{"path":"src/index.ts"}' } }
+    );
+    // 字符串参数原样回放，非法 JSON 与真实响应一样报告为工具调用错误
+    expect(toolCalls[1].function.arguments).toBe('{"path":');
+    expect(first.flatMap(chunk => chunk.tool_call_errors || []).map(error => error.toolCallId)).toEqual(['call_custom']);
+    expect(first[first.length - 1]).toEqual({ delta: '', done: true, model: 'mock' });
+
+    const second = await collect(script.stream(new ToolCallAccumulator()));
+    expect(second.map(chunk => chunk.delta).join('')).toBe('完成');
+
+    await expect(collect(script.stream(new ToolCallAccumulator()))).rejects.toThrow('Mock LLM 脚本已用完（共 2 条回复）');
+  });
+
+  it('returns chat.completion responses for non-streaming calls', () => {
+    const script = new MockLLMScript([
+      { content: '', tool_calls: [{ name: 'list_files', arguments: {} }] },
+      { content: '完成' },
+    ]);
+
+    expect(script.complete()).toMatchObject({
+      choices: [{
+        message: { role: 'assistant', tool_calls: [{ id: 'call_mock_0_0', function: { name: 'list_files', arguments: '{}' } }] },
+        finish_reason: 'tool_calls',
+      }],
+    });
+    expect(script.complete().choices[0]).toMatchObject({ message: { content: '完成' }, finish_reason: 'stop' });
+  });
+
+  it('stops when the request is cancelled', async () => {
+    const controller = new AbortController();
+    const script = new MockLLMScript([{ content: 'a long reply', delayMs: 5 }]);
+    const stream = script.stream(new ToolCallAccumulator(), controller.signal);
+
+    await stream.next();
+    controller.abort();
+    await expect(collect(stream)).rejects.toThrow('Mock LLM 请求已取消');
+  });
+
+  it('answers compaction calls without consuming agent turns', () => {
+    const script = new MockLLMScript([
+      { content: '第一轮' },
+      { content: '自定义摘要', purpose: 'compaction' },
+      { content: '第二轮' },
+    ]);
+
+    expect(script.complete(undefined, 'compaction').choices[0].message.content).toBe('自定义摘要');
+    expect(script.complete().choices[0].message.content).toBe('第一轮');
+    // 脚本中的压缩回复用完后返回默认摘要
+    expect(script.complete(undefined, 'compaction').choices[0].message.content).toBe('（Mock 对话摘要）');
+    expect(script.complete().choices[0].message.content).toBe('第二轮');
+  });
+});
+
+describe('LLMClient with the mock provider', () => {
+  it('keeps the scripted agent turns in order around compaction calls', async () => {
+    const client = new LLMClient({
+      provider: 'mock',
+      apiKey: '',
+      model: 'mock',
+      mockFixture: await writeScript('client.json', [{ content: '第一轮' }, { content: '第二轮' }]),
+    });
+
+    const first = await collect(client.streamChat([{ role: 'user', content: '你好' }]));
+    const summary = await client.chat([{ role: 'user', content: '对话记录' }], undefined, 0.2, undefined, undefined, 'compaction');
+    const second = await collect(client.streamChat([{ role: 'user', content: '继续' }]));
+
+    expect(first.map(chunk => chunk.delta).join('')).toBe('第一轮');
+    expect(summary.choices[0].message.content).toBe('（Mock 对话摘要）');
+    expect(summary.usage.estimated).toBe(true);
+    expect(second.map(chunk => chunk.delta).join('')).toBe('第二轮');
+  });
+
+  it('requires a fixture file', () => {
+    expect(() => new LLMClient({ provider: 'mock', apiKey: '', model: 'mock' })).toThrow('LLM_MOCK_FIXTURE');
+  });
+});
@@ -0,0 +1,191 @@
+// Mock LLM（离线测试 / 演示用）
+// 按顺序回放脚本中的回复：文本增量 + 工具调用，不访问网络
+import fs from 'fs';
+import path from 'path';
+import type { LLMCallPurpose, LLMStreamChunk, ToolCallAccumulator } from './llm';
+
+export interface MockToolCall {
+  id?: string;
+  name: string;
+  arguments: string | Record<string, any>; // 字符串原样回放（可用于模拟非法 JSON）
+}
+
+export interface MockResponse {
+  content?: string;
+  deltas?: string[]; // 指定时按此拆分流式增量，否则自动拆分 content
+  tool_calls?: MockToolCall[];
+  delayMs?: number; // 每个增量之间的延迟
+  purpose?: Exclude<LLMCallPurpose, 'agent'>; // 只用于该用途的辅助调用（如对话压缩），Agent 回合跳过
+}
+
+const DEFAULT_CHUNK_SIZE = 8;
+// 脚本中没有对应用途的回复时，辅助调用返回的内容
+const DEFAULT_AUXILIARY_CONTENT: Record<Exclude<LLMCallPurpose, 'agent'>, string> = {
+  compaction: '（Mock 对话摘要）',
+};
+
+/**
+ * 读取 Mock 脚本，支持以下格式：
+ * - MockResponse[]
+ * - { delayMs?, responses: MockResponse[] }
+ * - DebugTracer 导出的会话（exportSession 的结果，或 /api/debug/trace 的 export 响应）
+ *   注意：追踪记录中的回复文本最多保留 500 个字符
+ */
+export function loadMockScript(filePath: string): { responses: MockResponse[]; delayMs: number } {
+  const resolved = path.resolve(process.cwd(), filePath);
+  let data: any;
+  try {
+    data = JSON.parse(fs.readFileSync(resolved, 'utf-8'));
+  } catch (error: any) {
+    throw new Error(`无法读取 Mock LLM 脚本 ${resolved}: ${error.message}`);
+  }
+
+  // /api/debug/trace 的 export 响应中 data 是 JSON 字符串
+  if (data && typeof data.data === 'string') {
+    data = JSON.parse(data.data);
+  }
+
+  if (Array.isArray(data)) {
+    return { responses: data, delayMs: 0 };
+  }
+  if (Array.isArray(data?.responses)) {
+    return { responses: data.responses, delayMs: data.delayMs || 0 };
+  }
+  if (Array.isArray(data?.events)) {
+    return { responses: responsesFromTrace(data.events), delayMs: data.delayMs || 0 };
+  }
+
+  throw new Error(`无法识别的 Mock LLM 脚本格式: ${resolved}`);
+}
+
+// 从追踪事件中提取每次 LLM 调用的回复
+function responsesFromTrace(events: any[]): MockResponse[] {
+  return events
+    .filter(event => event.type === 'llm_call' && event.data?.result && !event.data.result.cancelled)
+    .map(event => ({
+      content: event.data.result.response || '',
+      tool_calls: (event.data.result.toolCalls || []).map((call: any) => ({
+        id: call.id,
+        name: call.name,
+        arguments: call.arguments,
+      })),
+    }));
+}
+
+function splitContent(content: string): string[] {
+  const deltas: string[] = [];
+  for (let i = 0; i < content.length; i += DEFAULT_CHUNK_SIZE) {
+    deltas.push(content.slice(i, i + DEFAULT_CHUNK_SIZE));
+  }
+  return deltas;
+}
+
+function serializeArguments(args: MockToolCall['arguments']): string {
+  return typeof args === 'string' ? args : JSON.stringify(args ?? {});
+}
+
+/**
+ * 回放脚本：每次 Agent 回合消费一条回复。对话压缩等辅助调用只消费标记了相同 purpose 的回复，
+ * 没有时返回默认内容，不影响 Agent 回合的顺序
+ */
+export class MockLLMScript {
+  private responses: MockResponse[];
+  private auxiliary: Map<LLMCallPurpose, MockResponse[]> = new Map();
+  private cursor = 0;
+
+  constructor(
+    responses: MockResponse[],
+    private delayMs = 0
+  ) {
+    this.responses = responses.filter(response => !response.purpose);
+    for (const response of responses) {
+      if (response.purpose) {
+        this.auxiliary.set(response.purpose, [...(this.auxiliary.get(response.purpose) || []), response]);
+      }
+    }
+  }
+
+  private next(): { response: MockResponse; turn: number } {
+    if (this.cursor >= this.responses.length) {
+      throw new Error(`Mock LLM 脚本已用完（共 ${this.responses.length} 条回复）`);
+    }
+    const turn = this.cursor++;
+    return { response: this.responses[turn], turn };
+  }
+
+  private nextAuxiliary(purpose: Exclude<LLMCallPurpose, 'agent'>): MockResponse {
+    return this.auxiliary.get(purpose)?.shift() || { content: DEFAULT_AUXILIARY_CONTENT[purpose] };
+  }
+
+  private toolCallId(call: MockToolCall, turn: number, index: number): string {
+    return call.id || `call_mock_${turn}_${index}`;
+  }
+
+  // 流式回放：先交出文本增量，再交出完整的工具调用
+  async *stream(toolCalls: ToolCallAccumulator, signal?: AbortSignal): AsyncGenerator<LLMStreamChunk> {
+    const { response, turn } = this.next();
+    const deltas = response.deltas || splitContent(response.content || '');
+    const delayMs = response.delayMs ?? this.delayMs;
+
+    for (const delta of deltas) {
+      if (delayMs > 0) {
+        await new Promise(resolve => setTimeout(resolve, delayMs));
+      }
+      if (signal?.aborted) {
+        throw new Error('Mock LLM 请求已取消');
+      }
+      yield { delta, done: false };
+    }
+
+    // 与真实流式响应走同一套合并 / 校验逻辑
+    toolCalls.add((response.tool_calls || []).map((call, index) => ({
+      index,
+      id: this.toolCallId(call, turn, index),
+      function: { name: call.name, arguments: serializeArguments(call.arguments) },
+    })));
+    const pending = toolCalls.flushChunk();
+    if (pending) yield pending;
+
+    yield { delta: '', done: true, model: 'mock' };
+  }
+
+  // 非流式回放（OpenAI chat.completion 格式）
+  complete(signal?: AbortSignal, purpose: LLMCallPurpose = 'agent'): any {
+    if (signal?.aborted) {
+      throw new Error('Mock LLM 请求已取消');
+    }
+    if (purpose !== 'agent') {
+      const response = this.nextAuxiliary(purpose);
+      return {
+        id: `mock-${purpose}`,
+        model: 'mock',
+        choices: [{
+          index: 0,
+          message: { role: 'assistant', content: response.content ?? (response.deltas || []).join('') },
+          finish_reason: 'stop',
+        }],
+      };
+    }
+    const { response, turn } = this.next();
+    const content = response.content ?? (response.deltas || []).join('');
+    const toolCalls = (response.tool_calls || []).map((call, index) => ({
+      id: this.toolCallId(call, turn, index),
+      type: 'function',
+      function: { name: call.name, arguments: serializeArguments(call.arguments) },
+    }));
+
+    return {
+      id: `mock-${turn}`,
+      model: 'mock',
+      choices: [{
+        index: 0,
+        message: {
+          role: 'assistant',
+          content,
+          ...(toolCalls.length > 0 ? { tool_calls: toolCalls } : {}),
+        },
+        finish_reason: toolCalls.length > 0 ? 'tool_calls' : 'stop',
+      }],
+    };
+  }
+}
@@ -0,0 +1,437 @@
+// 多 Agent 流水线 - planner 拆解任务，executor 逐个执行，reviewer 审查修改
+import crypto from 'crypto';
+import { createPatch } from 'diff';
+import { Message, Task, AgentRole, CodeCheckpoint, ChangeReview, ToolCall } from './types';
+import { AgentExecutor, AgentExecutorOptions, ExecutorEvent } from './executor';
+import { TOOLS, toolsToFunctions } from './tools';
+import { ROLE_CONFIGS } from './roles';
+import { memoryManager } from './memory';
+import { workflowManager } from './workflow';
+import { describeCheckpoint } from './checkpoints';
+import { debugTracer } from '../debug/tracer';
+import { costLedger } from '../debug/cost';
+import { normalizeUsage } from './llm';
+import { ContextBudgeter } from './context-budget';
+import { validateToolArgs } from './tool-schema';
+
+export interface AgentPipelineOptions extends Omit<
+  AgentExecutorOptions,
+  'role' | 'systemPrompt' | 'toolNames' | 'parentStepId' | 'reviewChanges'
+> {
+  maxTasks?: number;
+  maxReviewRounds?: number; // 每个任务最多被审查退回的次数
+}
+
+interface PlannedTask {
+  title: string;
+  description: string;
+}
+
+// 规划 / 审查阶段单次调用中最多的工具往返次数
+const MAX_ROLE_ROUNDS = 4;
+
+export class AgentPipeline {
+  private options: AgentPipelineOptions;
+  private tasks: Task[] = [];
+  private reviewRounds: Map<string, number> = new Map();
+
+  constructor(options: AgentPipelineOptions) {
+    this.options = options;
+  }
+
+  // 执行用户请求：规划 → 逐个执行任务（修改先经审查）→ 汇总
+  async *execute(userMessage: string): AsyncGenerator<ExecutorEvent> {
+    const { sessionId, enableDebug } = this.options;
+    let rootStepId: string | null = null;
+
+    try {
+      if (enableDebug) {
+        debugTracer.startSession(sessionId);
+      }
+
+      const rootStep = workflowManager.startWorkflow(sessionId, userMessage);
+      rootStepId = rootStep.id;
+
+      await memoryManager.addMemory({
+        sessionId,
+        type: 'conversation',
+        content: userMessage,
+        metadata: { role: 'user' },
+      });
+
+      // 1. 规划
+      const planStep = workflowManager.startStep(sessionId, {
+        parentId: rootStepId,
+        title: '规划任务',
+        description: '规划 Agent 正在拆解请求',
+        type: 'task',
+        metadata: { role: 'planner' },
+      });
+      const planned = await this.plan(userMessage);
+      if (planStep) {
+        workflowManager.completeStep(sessionId, planStep.id, { tasks: planned });
+      }
+
+      this.tasks = planned.map(item => ({
+        id: crypto.randomUUID(),
+        sessionId,
+        role: 'executor' as AgentRole,
+        status: 'pending',
+        input: item.description ? `${item.title}\n${item.description}` : item.title,
+        createdAt: new Date(),
+        updatedAt: new Date(),
+        metadata: { title: item.title },
+      }));
+
+      const taskSteps = this.tasks.map(task => workflowManager.startStep(sessionId, {
+        parentId: rootStepId!,
+        title: task.metadata?.title,
+        description: task.input,
+        type: 'task',
+        status: 'pending',
+        metadata: { taskId: task.id, role: 'executor' },
+      }));
+
+      yield {
+        type: 'message',
+        content: `📋 计划（${this.tasks.length} 个任务）:\n${
+          this.tasks.map((task, i) => `${i + 1}. ${task.metadata?.title}`).join('\n')
+        }\n`,
+      };
+
+      // 2. 逐个执行任务
+      for (let i = 0; i < this.tasks.length; i++) {
+        this.throwIfCancelled();
+        const task = this.tasks[i];
+        const stepId = taskSteps[i]?.id;
+
+        task.status = 'in_progress';
+        task.updatedAt = new Date();
+        if (stepId) {
+          workflowManager.updateStepStatus(sessionId, stepId, 'in_progress');
+        }
+
+        yield {
+          type: 'message',
+          content: `\n▶ 任务 ${i + 1}/${this.tasks.length}: ${task.metadata?.title}\n`,
+        };
+
+        const executor = new AgentExecutor({
+          ...this.options,
+          role: 'executor',
+          systemPrompt: ROLE_CONFIGS.executor.prompt,
+          toolNames: ROLE_CONFIGS.executor.tools,
+          parentStepId: stepId,
+          reviewChanges: checkpoints => this.review(task, checkpoints, stepId),
+        });
+
+        let output = '';
+        for await (const event of executor.execute(this.buildTaskInput(userMessage, i))) {
+          if (event.type === 'done') continue;
+
+          if (event.type === 'cancelled') {
+            task.status = 'cancelled';
+            this.endDebugSession();
+            yield event;
+            return;
+          }
+
+          if (event.type === 'message') {
+            output += event.content;
+          } else if (event.type === 'error' && !event.data?.tool) {
+            // 不属于某个工具的错误来自执行器本身（例如循环检测、达到最大迭代次数），任务失败
+            task.error = event.content;
+          }
+          yield event;
+        }
+
+        task.status = task.error ? 'failed' : 'completed';
+        task.output = output;
+        task.updatedAt = new Date();
+      }
+
+      // 3. 汇总
+      const summary = this.tasks
+        .map((task, i) => `${i + 1}. ${task.metadata?.title} - ${task.status === 'completed' ? '✅' : '❌'}`)
+        .join('\n');
+
+      await memoryManager.addMemory({
+        sessionId,
+        type: 'task_result',
+        content: summary,
+        metadata: { tasks: this.tasks },
+      });
+      await memoryManager.addMemory({
+        sessionId,
+        type: 'conversation',
+        content: this.tasks.map(task => task.output || '').join('\n').trim() || summary,
+        metadata: { role: 'assistant' },
+      });
+
+      const failed = this.tasks.filter(task => task.status === 'failed');
+      if (failed.length > 0) {
+        workflowManager.failStep(sessionId, rootStepId, `${failed.length} 个任务失败`);
+      } else {
+        workflowManager.completeStep(sessionId, rootStepId, { tasks: this.tasks });
+      }
+
+      this.endDebugSession();
+
+      yield { type: 'message', content: `\n\n📌 任务汇总:\n${summary}` };
+      yield { type: 'done', content: '' };
+    } catch (error: any) {
+      if (this.options.signal?.aborted) {
+        const reason = typeof this.options.signal.reason === 'string'
+          ? this.options.signal.reason
+          : '执行已取消';
+        workflowManager.cancelOpenSteps(sessionId, reason);
+        if (enableDebug) {
+          debugTracer.traceCancellation(sessionId, reason);
+        }
+        this.endDebugSession();
+        yield { type: 'cancelled', content: reason };
+        return;
+      }
+
+      if (enableDebug) {
+        debugTracer.traceError(sessionId, error);
+      }
+      this.endDebugSession();
+
+      if (rootStepId) {
+        workflowManager.failStep(sessionId, rootStepId, error.message);
+      }
+
+      yield { type: 'error', content: error.message };
+    }
+  }
+
+  // 规划 Agent：把请求拆成任务列表
+  private async plan(userMessage: string): Promise<PlannedTask[]> {
+    const maxTasks = this.options.maxTasks || 6;
+    const output = await this.runRole('planner', userMessage);
+    const parsed = extractJson(output);
+
+    const tasks: PlannedTask[] = Array.isArray(parsed)
+      ? parsed
+          .filter((item: any) => item && typeof item.title === 'string')
+          .map((item: any) => ({
+            title: item.title,
+            description: typeof item.description === 'string' ? item.description : '',
+          }))
+      : [];
+
+    if (tasks.length === 0) {
+      // 无法解析计划时，把整个请求作为一个任务
+      return [{ title: '完成用户请求', description: userMessage }];
+    }
+
+    return tasks.slice(0, maxTasks);
+  }
+
+  // 审查 Agent：在修改交给用户之前检查变更集
+  private async review(
+    task: Task,
+    checkpoints: CodeCheckpoint[],
+    parentStepId?: string
+  ): Promise<ChangeReview | null> {
+    const { sessionId } = this.options;
+    const maxRounds = this.options.maxReviewRounds ?? 2;
+    const round = (this.reviewRounds.get(task.id) || 0) + 1;
+    this.reviewRounds.set(task.id, round);
+
+    const step = workflowManager.startStep(sessionId, {
+      parentId: parentStepId,
+      title: `审查修改（第 ${round} 轮）`,
+      description: checkpoints.map(cp => cp.filePath).join(', '),
+      type: 'task',
+      metadata: { role: 'reviewer', taskId: task.id, round },
+    });
+
+    // 移动和创建目录没有内容差异，只给出操作说明
+    const diffs = checkpoints
+      .map(cp => cp.kind === 'move' || cp.kind === 'mkdir'
+        ? describeCheckpoint(cp)
+        : createPatch(cp.filePath, cp.originalContent, cp.modifiedContent))
+      .join('\n');
+
+    try {
+      const output = await this.runRole(
+        'reviewer',
+        `当前任务：\n${task.input}\n\n待审查的修改（unified diff）：\n${diffs}`
+      );
+      const parsed = extractJson(output);
+
+      let review: ChangeReview = parsed && typeof parsed === 'object' && !Array.isArray(parsed)
+        ? {
+            verdict: parsed.verdict === 'revise' ? 'revise' : 'approve',
+            summary: typeof parsed.summary === 'string' ? parsed.summary : '',
+            comments: parsed.comments && typeof parsed.comments === 'object' ? parsed.comments : {},
+          }
+        : { verdict: 'approve', summary: output.trim(), comments: {} };
+
+      // 达到最大轮数后不再退回，把意见交给用户判断
+      if (review.verdict === 'revise' && round >= maxRounds) {
+        review = {
+          ...review,
+          verdict: 'approve',
+          summary: `（已达到最大审查轮数，请人工确认）${review.summary}`,
+        };
+      }
+
+      if (step) {
+        workflowManager.completeStep(sessionId, step.id, { review });
+      }
+      return review;
+    } catch (error: any) {
+      if (this.options.signal?.aborted) throw error;
+
+      // 审查失败不阻塞流程，直接交给用户审批
+      if (step) {
+        workflowManager.failStep(sessionId, step.id, error.message);
+      }
+      return null;
+    }
+  }
+
+  // 以指定角色运行一次非流式对话（可使用该角色的只读工具）
+  private async runRole(role: AgentRole, content: string): Promise<string> {
+    const { sessionId, workspacePath, llmClient, enableDebug, signal } = this.options;
+    const config = ROLE_CONFIGS[role];
+    const tools = config.tools.map(name => TOOLS[name]).filter(Boolean);
+    const functions = toolsToFunctions(tools);
+    const budgeter = new ContextBudgeter(llmClient.getModel());
+
+    const messages: Message[] = [
+      { role: 'system', content: `${config.prompt}\n\n工作目录: ${workspacePath}` },
+      { role: 'user', content },
+    ];
+
+    for (let round = 0; round <= MAX_ROLE_ROUNDS; round++) {
+      this.throwIfCancelled();
+      // 最后一轮不再提供工具，强制模型给出结论
+      const roundTools = round < MAX_ROLE_ROUNDS ? functions : undefined;
+
+      let llmEventId: string | undefined;
+      if (enableDebug) {
+        llmEventId = debugTracer.traceLLMCall(sessionId, llmClient.getModel(), messages, roundTools, 0.2);
+      }
+
+      const response = await llmClient.chat(
+        messages,
+        roundTools,
+        0.2,
+        signal,
+        enableDebug ? sessionId : undefined
+      );
+      const message = response.choices?.[0]?.message || {};
+      const usage = normalizeUsage(response.usage);
+      if (usage) {
+        costLedger.record(sessionId, response.model || llmClient.getModel(), usage, role);
+      }
+
+      if (enableDebug && llmEventId) {
+        debugTracer.traceLLMResponse(sessionId, llmEventId, message.content || '', usage, message.tool_calls);
+      }
+
+      const toolCalls: ToolCall[] = message.tool_calls || [];
+      if (toolCalls.length === 0) {
+        return message.content || '';
+      }
+
+      messages.push({ role: 'assistant', content: message.content || '', tool_calls: toolCalls });
+
+      for (const toolCall of toolCalls) {
+        const toolName = toolCall.function?.name;
+        let toolArgs: any = {};
+        let result: any;
+
+        let toolEventId: string | undefined;
+        try {
+          toolArgs = JSON.parse(toolCall.function?.arguments || '{}');
+          if (enableDebug) {
+            toolEventId = debugTracer.traceToolCall(sessionId, toolName, toolArgs);
+          }
+
+          const tool = tools.find(t => t.name === toolName);
+          if (!tool) {
+            throw new Error(`Tool not available for ${role}: ${toolName}`);
+          }
+          // 参数校验失败时返回结构化错误，让模型修正后重试
+          const validation = validateToolArgs(tool, toolArgs);
+          result = validation.success
+            ? await tool.execute({ ...validation.data, workspacePath })
+            : validation.error;
+        } catch (error: any) {
+          result = { error: error.message };
+        }
+
+        if (enableDebug && toolEventId) {
+          debugTracer.traceToolResult(sessionId, toolEventId, result, result?.error);
+        }
+
+        // 过长的结果截断后再交给模型
+        const formatted = budgeter.formatToolResult(toolName, result);
+        if (formatted.truncated && enableDebug) {
+          debugTracer.traceCompaction(sessionId, 'tool_result', {
+            tool: toolName,
+            role,
+            originalTokens: formatted.originalTokens,
+          });
+        }
+        messages.push({
+          role: 'tool',
+          content: formatted.content,
+          tool_call_id: toolCall.id,
+          name: toolName,
+        });
+      }
+    }
+
+    return '';
+  }
+
+  private buildTaskInput(userMessage: string, index: number): string {
+    const plan = this.tasks
+      .map((task, i) => `${i + 1}. ${task.metadata?.title}${i < index ? '（已完成）' : ''}`)
+      .join('\n');
+    const task = this.tasks[index];
+
+    return `用户的原始请求：
+${userMessage}
+
+完整计划：
+${plan}
+
+当前任务（${index + 1}/${this.tasks.length}）：
+${task.input}`;
+  }
+
+  private endDebugSession() {
+    if (this.options.enableDebug) {
+      debugTracer.endSession(this.options.sessionId);
+    }
+  }
+
+  private throwIfCancelled() {
+    if (this.options.signal?.aborted) {
+      throw new Error('执行已取消');
+    }
+  }
+}
+
+// 从模型输出中提取 JSON（兼容 ```json 代码块和前后多余文字）
+function extractJson(text: string): any {
+  const cleaned = text.replace(/```(?:json)?/g, '').trim();
+  const start = cleaned.search(/[[{]/);
+  if (start === -1) return null;
+
+  const end = Math.max(cleaned.lastIndexOf(']'), cleaned.lastIndexOf('}'));
+  if (end <= start) return null;
+
+  try {
+    return JSON.parse(cleaned.slice(start, end + 1));
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,81 @@
+// 多 Agent 流水线的角色配置（planner / executor / reviewer）
+import { AgentRole } from './types';
+
+export interface RoleConfig {
+  role: AgentRole;
+  title: string;
+  prompt: string;
+  tools: string[];
+}
+
+// 只读工具：规划和审查阶段不能修改文件
+const READ_ONLY_TOOLS = [
+  'read_file', 'list_files', 'list_symbols', 'search_codebase', 'grep',
+  'git_status', 'git_diff', 'git_log', 'git_blame',
+  'list_specs', 'read_spec',
+];
+
+export const ROLE_CONFIGS: Record<AgentRole, RoleConfig> = {
+  planner: {
+    role: 'planner',
+    title: '规划',
+    prompt: `你是任务规划 Agent。你的职责是把用户的请求拆解成可以独立执行的小任务。
+
+你可以使用只读工具了解项目结构，但不能修改任何文件。
+
+输出要求：
+- 只输出一个 JSON 数组，不要输出其他文字
+- 每个元素形如 {"title": "简短标题", "description": "具体要做什么、涉及哪些文件"}
+- 任务按执行顺序排列，最多 6 个
+- 简单的请求只需要 1 个任务`,
+    tools: READ_ONLY_TOOLS,
+  },
+  executor: {
+    role: 'executor',
+    title: '执行',
+    prompt: `你是任务执行 Agent，负责完成规划 Agent 分配给你的单个任务。
+
+- 只完成当前任务，不要提前做后续任务
+- 修改文件必须调用 write_file、search_and_replace 或 apply_patch 工具，不要只输出代码块；小范围修改优先用 search_and_replace，TS/JS 中修改单个函数 / 类 / 方法时用 replace_symbol 等符号编辑工具
+- 移动 / 重命名文件用 move_file，删除文件用 delete_file，创建空目录用 create_directory，它们同样需要审批
+- 你的修改会先经过审查 Agent 检查，再交给用户审批
+- 可以用 run_command 安装依赖或构建；运行测试用 run_tests，它会返回失败用例的信息和 file:line 位置，据此修改直到测试通过
+- 如果审查或用户拒绝了修改，根据反馈调整后重新提交
+- 任务完成后，用一两句话总结你做了什么`,
+    tools: [
+      ...READ_ONLY_TOOLS,
+      'write_file',
+      'move_file',
+      'delete_file',
+      'create_directory',
+      'apply_patch',
+      'search_and_replace',
+      'replace_symbol',
+      'insert_after_symbol',
+      'delete_symbol',
+      'run_command',
+      'run_tests',
+      'git_init',
+      'git_commit',
+      'create_patch',
+      'create_spec',
+      'validate_spec',
+      'generate_code_from_spec',
+      'infer_spec_from_code',
+    ],
+  },
+  reviewer: {
+    role: 'reviewer',
+    title: '审查',
+    prompt: `你是代码审查 Agent。你会收到执行 Agent 提出的文件修改（原内容与新内容）以及当前任务。
+
+检查：修改是否完成了任务、是否有明显的 bug / 语法错误、是否破坏了原有功能。
+你可以使用只读工具查看相关文件，但不能修改任何文件。
+
+输出要求：
+- 只输出一个 JSON 对象，不要输出其他文字
+- 格式：{"verdict": "approve" | "revise", "summary": "总体评价", "comments": {"文件路径": "针对该文件的意见"}}
+- 只有存在必须修复的问题时才使用 "revise"，风格上的小问题请写在 comments 里并 "approve"`,
+    tools: ['read_file', 'list_files', 'search_codebase', 'grep', 'git_diff', 'git_log'],
+  },
+};
@@ -0,0 +1,135 @@
+// 片段替换 - search_and_replace 工具的匹配逻辑：精确匹配优先，失败时忽略空白差异按行模糊匹配
+
+export interface SearchReplaceResult {
+  content: string;
+  replacements: number;
+  fuzzy: boolean; // 是否通过忽略空白的模糊匹配找到
+  startLine: number; // 第一处替换的起始行（1-based）
+}
+
+// 比较时忽略行首尾空白，并把行内连续空白视为一个空格
+function normalizeLine(line: string): string {
+  return line.trim().replace(/\s+/g, ' ');
+}
+
+function leadingWhitespace(line: string): string {
+  return line.match(/^\s*/)![0];
+}
+
+function lineNumberAt(content: string, index: number): number {
+  return content.slice(0, index).split('\n').length;
+}
+
+// 去掉片段首尾的空行（模型经常在片段前后多带换行）
+function trimBlankLines(lines: string[]): string[] {
+  let start = 0;
+  let end = lines.length;
+  while (start < end && lines[start].trim() === '') start++;
+  while (end > start && lines[end - 1].trim() === '') end--;
+  return lines.slice(start, end);
+}
+
+// 模型给出的缩进与文件不同时，把新片段整体平移到文件中的缩进
+function reindent(lines: string[], fromIndent: string, toIndent: string): string[] {
+  if (fromIndent === toIndent) return lines;
+  return lines.map(line => {
+    if (line.trim() === '') return line;
+    if (line.startsWith(fromIndent)) return toIndent + line.slice(fromIndent.length);
+    return line;
+  });
+}
+
+// 找不到匹配时，给出与片段第一行最接近的位置，方便模型修正
+function describeClosestLine(fileLines: string[], oldLines: string[]): string {
+  const first = normalizeLine(oldLines[0] || '');
+  if (!first) return '';
+
+  const index = fileLines.findIndex(line => {
+    const normalized = normalizeLine(line);
+    return normalized !== '' && (normalized.includes(first) || first.includes(normalized));
+  });
+  if (index === -1) return '';
+
+  return `片段第一行与文件第 ${index + 1} 行相似：「${fileLines[index].trim().slice(0, 120)}」，但后续行不一致。`;
+}
+
+/**
+ * 在 content 中把 oldText 替换为 newText
+ * - 精确匹配：必须唯一，除非 replaceAll
+ * - 精确匹配失败时按行模糊匹配（忽略缩进和行内空白差异），同样要求唯一
+ * 匹配不到或不唯一时抛出说明原因的错误
+ */
+export function searchAndReplace(
+  content: string,
+  oldText: string,
+  newText: string,
+  replaceAll = false
+): SearchReplaceResult {
+  if (oldText === newText) {
+    throw new Error('oldText 与 newText 相同，没有需要修改的内容');
+  }
+
+  // 1. 精确匹配
+  const positions: number[] = [];
+  for (let index = content.indexOf(oldText); index !== -1; index = content.indexOf(oldText, index + oldText.length)) {
+    positions.push(index);
+  }
+
+  if (positions.length === 1 || (positions.length > 1 && replaceAll)) {
+    return {
+      content: content.split(oldText).join(newText),
+      replacements: positions.length,
+      fuzzy: false,
+      startLine: lineNumberAt(content, positions[0]),
+    };
+  }
+  if (positions.length > 1) {
+    const lines = positions.map(index => lineNumberAt(content, index));
+    throw new Error(
+      `oldText 在文件中出现了 ${positions.length} 次（第 ${lines.join('、')} 行）。请在 oldText 中包含更多上下文使其唯一，或设置 replaceAll: true 替换全部`
+    );
+  }
+
+  // 2. 忽略空白差异的按行匹配
+  const eol = content.includes('\r\n') ? '\r\n' : '\n';
+  const fileLines = content.split(/\r?\n/);
+  const oldLines = trimBlankLines(oldText.split(/\r?\n/));
+  if (oldLines.length === 0) {
+    throw new Error('oldText 不能只包含空白');
+  }
+
+  const target = oldLines.map(normalizeLine);
+  const matches: number[] = [];
+  for (let start = 0; start + target.length <= fileLines.length; start++) {
+    if (target.every((line, offset) => normalizeLine(fileLines[start + offset]) === line)) {
+      matches.push(start);
+      start += target.length - 1; // 匹配区域不重叠
+    }
+  }
+
+  if (matches.length === 0) {
+    throw new Error(
+      `在文件中找不到 oldText（已尝试忽略空白差异）。${describeClosestLine(fileLines, oldLines)}请先用 read_file 查看文件的当前内容，并从中原样复制要替换的片段`
+    );
+  }
+  if (matches.length > 1 && !replaceAll) {
+    throw new Error(
+      `oldText 忽略空白后在文件中匹配到 ${matches.length} 处（第 ${matches.map(start => start + 1).join('、')} 行）。请在 oldText 中包含更多上下文使其唯一，或设置 replaceAll: true 替换全部`
+    );
+  }
+
+  // 从后往前替换，避免前面的替换影响后面的行号
+  const newLines = trimBlankLines(newText.split(/\r?\n/));
+  const oldIndent = leadingWhitespace(oldLines[0]);
+  for (const start of [...matches].reverse()) {
+    const fileIndent = leadingWhitespace(fileLines[start]);
+    fileLines.splice(start, oldLines.length, ...reindent(newLines, oldIndent, fileIndent));
+  }
+
+  return {
+    content: fileLines.join(eol),
+    replacements: matches.length,
+    fuzzy: true,
+    startLine: matches[0] + 1,
+  };
+}
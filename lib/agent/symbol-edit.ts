@@ -0,0 +1,244 @@
+// 符号级编辑 - 按名称定位 TS/JS 文件中的函数、类、接口、方法，只修改该节点的源码范围
+import * as parser from '@babel/parser';
+import traverse from '@babel/traverse';
+import path from 'path';
+
+const SUPPORTED_EXTENSIONS = ['.ts', '.tsx', '.js', '.jsx', '.mjs', '.cjs'];
+
+export type SymbolKind =
+  | 'function'
+  | 'class'
+  | 'interface'
+  | 'type'
+  | 'enum'
+  | 'variable'
+  | 'method'
+  | 'property';
+
+export interface CodeSymbol {
+  name: string; // 类成员为 Class.member
+  kind: SymbolKind;
+  start: number; // 源码偏移（包含 export 关键字）
+  end: number;
+  commentStart: number; // 包含前置注释（JSDoc 等）的起始偏移
+  startLine: number;
+  endLine: number;
+}
+
+export interface SymbolEditResult {
+  content: string;
+  symbol: Pick<CodeSymbol, 'name' | 'kind' | 'startLine' | 'endLine'>;
+}
+
+function parse(code: string) {
+  return parser.parse(code, {
+    sourceType: 'module',
+    plugins: ['typescript', 'jsx'],
+  });
+}
+
+function parseFile(code: string, filePath: string) {
+  const ext = path.extname(filePath).toLowerCase();
+  if (!SUPPORTED_EXTENSIONS.includes(ext)) {
+    throw new Error(`符号编辑只支持 ${SUPPORTED_EXTENSIONS.join(' / ')} 文件，${filePath} 请使用 search_and_replace 或 write_file`);
+  }
+  try {
+    return parse(code);
+  } catch (error: any) {
+    throw new Error(`无法解析 ${filePath}: ${error.message}`);
+  }
+}
+
+/**
+ * 提取文件中可编辑的符号（顶层声明、顶层变量、类成员）
+ */
+export function findSymbols(code: string, filePath: string): CodeSymbol[] {
+  const ast = parseFile(code, filePath);
+  const symbols: CodeSymbol[] = [];
+
+  // export 声明的范围和注释挂在外层的 Export 节点上
+  const addSymbol = (name: string, kind: SymbolKind, node: any, parent?: any) => {
+    const target = parent && /^Export(Named|Default)Declaration$/.test(parent.type) ? parent : node;
+    if (target.start == null || target.end == null || !target.loc) return;
+    const comments = target.leadingComments || [];
+    symbols.push({
+      name,
+      kind,
+      start: target.start,
+      end: target.end,
+      commentStart: comments.length > 0 ? comments[0].start : target.start,
+      startLine: target.loc.start.line,
+      endLine: target.loc.end.line,
+    });
+  };
+
+  const className = (path: any) => path.parentPath?.parentPath?.node?.id?.name || 'anonymous';
+  const memberName = (key: any) => key?.name ?? key?.value ?? key?.id?.name;
+
+  traverse(ast, {
+    FunctionDeclaration: (path: any) => {
+      if (path.node.id) addSymbol(path.node.id.name, 'function', path.node, path.parent);
+    },
+    ClassDeclaration: (path: any) => {
+      if (path.node.id) addSymbol(path.node.id.name, 'class', path.node, path.parent);
+    },
+    TSInterfaceDeclaration: (path: any) => {
+      addSymbol(path.node.id.name, 'interface', path.node, path.parent);
+    },
+    TSTypeAliasDeclaration: (path: any) => {
+      addSymbol(path.node.id.name, 'type', path.node, path.parent);
+    },
+    TSEnumDeclaration: (path: any) => {
+      addSymbol(path.node.id.name, 'enum', path.node, path.parent);
+    },
+    VariableDeclarator: (path: any) => {
+      // 只处理顶层变量（包括 export const）
+      const declaration = path.parentPath;
+      const container = declaration.parentPath;
+      const topLevel = container.isProgram() || container.isExportNamedDeclaration();
+      if (!topLevel || path.node.id.type !== 'Identifier') return;
+
+      const init = path.node.init;
+      const kind: SymbolKind = init && /^(ArrowFunctionExpression|FunctionExpression)$/.test(init.type)
+        ? 'function'
+        : 'variable';
+      // 一条语句声明多个变量时只定位该变量本身
+      if (declaration.node.declarations.length === 1) {
+        addSymbol(path.node.id.name, kind, declaration.node, container.node);
+      } else {
+        addSymbol(path.node.id.name, kind, path.node);
+      }
+    },
+    'ClassMethod|ClassPrivateMethod|TSDeclareMethod': (path: any) => {
+      const name = memberName(path.node.key);
+      if (name) addSymbol(`${className(path)}.${name}`, 'method', path.node);
+    },
+    'ClassProperty|ClassPrivateProperty': (path: any) => {
+      const name = memberName(path.node.key);
+      if (name) addSymbol(`${className(path)}.${name}`, 'property', path.node);
+    },
+  });
+
+  return symbols.sort((a, b) => a.start - b.start);
+}
+
+/**
+ * 按名称查找符号：优先完全匹配，其次匹配类成员名（render → App.render）
+ */
+function resolveSymbol(code: string, filePath: string, name: string): CodeSymbol {
+  const symbols = findSymbols(code, filePath);
+  let matches = symbols.filter(symbol => symbol.name === name);
+  if (matches.length === 0 && !name.includes('.')) {
+    matches = symbols.filter(symbol => symbol.name.endsWith(`.${name}`));
+  }
+
+  if (matches.length === 0) {
+    const available = symbols.map(symbol => symbol.name).slice(0, 50).join(', ');
+    throw new Error(`在 ${filePath} 中找不到符号 ${name}。可用的符号: ${available || '（无）'}`);
+  }
+  if (matches.length > 1) {
+    const candidates = matches.map(symbol => `${symbol.name}（${symbol.kind}，第 ${symbol.startLine} 行）`).join('、');
+    throw new Error(`符号 ${name} 在 ${filePath} 中有多个匹配：${candidates}。请使用 Class.method 形式的完整名称`);
+  }
+  return matches[0];
+}
+
+function lineStart(code: string, index: number): number {
+  return code.lastIndexOf('\n', index - 1) + 1;
+}
+
+function lineEnd(code: string, index: number): number {
+  const newline = code.indexOf('\n', index);
+  return newline === -1 ? code.length : newline;
+}
+
+function indentAt(code: string, index: number): string {
+  return code.slice(lineStart(code, index), index).match(/^\s*/)![0];
+}
+
+// 去掉片段的公共缩进和首尾空行
+function dedent(text: string): string[] {
+  const lines = text.replace(/\r\n/g, '\n').split('\n');
+  while (lines.length > 0 && lines[0].trim() === '') lines.shift();
+  while (lines.length > 0 && lines[lines.length - 1].trim() === '') lines.pop();
+
+  const indents = lines
+    .filter(line => line.trim() !== '')
+    .map(line => line.match(/^\s*/)![0].length);
+  const common = indents.length > 0 ? Math.min(...indents) : 0;
+  return lines.map(line => line.slice(common));
+}
+
+function indentLines(lines: string[], indent: string): string[] {
+  return lines.map(line => (line.trim() === '' ? '' : indent + line));
+}
+
+// 修改后的代码必须仍能解析，避免把文件改坏
+function ensureParses(code: string, filePath: string, symbolName: string): void {
+  try {
+    parse(code);
+  } catch (error: any) {
+    throw new Error(`修改 ${symbolName} 后 ${filePath} 无法解析: ${error.message}。请检查提供的代码是否完整（括号、引号是否配对）`);
+  }
+}
+
+function summary(symbol: CodeSymbol): SymbolEditResult['symbol'] {
+  return { name: symbol.name, kind: symbol.kind, startLine: symbol.startLine, endLine: symbol.endLine };
+}
+
+/**
+ * 用 newText 替换符号的源码（保留前置注释和周围的格式，newText 按符号所在的缩进对齐）
+ */
+export function replaceSymbol(code: string, filePath: string, name: string, newText: string): SymbolEditResult {
+  const symbol = resolveSymbol(code, filePath, name);
+  const eol = code.includes('\r\n') ? '\r\n' : '\n';
+  const indent = indentAt(code, symbol.start);
+  const [first = '', ...rest] = dedent(newText);
+  const replacement = [first, ...indentLines(rest, indent)].join(eol);
+
+  const content = code.slice(0, symbol.start) + replacement + code.slice(symbol.end);
+  ensureParses(content, filePath, symbol.name);
+  return { content, symbol: summary(symbol) };
+}
+
+/**
+ * 在符号之后插入代码（空一行，使用与符号相同的缩进）
+ */
+export function insertAfterSymbol(code: string, filePath: string, name: string, text: string): SymbolEditResult {
+  const symbol = resolveSymbol(code, filePath, name);
+  const eol = code.includes('\r\n') ? '\r\n' : '\n';
+  const indent = indentAt(code, symbol.start);
+  const insertAt = lineEnd(code, symbol.end);
+  const inserted = eol + eol + indentLines(dedent(text), indent).join(eol);
+
+  const content = code.slice(0, insertAt) + inserted + code.slice(insertAt);
+  ensureParses(content, filePath, symbol.name);
+  return { content, symbol: summary(symbol) };
+}
+
+/**
+ * 删除符号（连同前置注释）；符号独占若干行时删除整行，并避免留下连续的空行
+ */
+export function deleteSymbol(code: string, filePath: string, name: string): SymbolEditResult {
+  const symbol = resolveSymbol(code, filePath, name);
+  let from = symbol.commentStart;
+  let to = symbol.end;
+
+  const before = code.slice(lineStart(code, from), from);
+  const after = code.slice(to, lineEnd(code, to));
+  if (before.trim() === '' && after.trim() === '') {
+    from = lineStart(code, from);
+    to = Math.min(code.length, lineEnd(code, to) + 1);
+
+    // 前后都是空行时多删一个空行
+    const previousLine = from > 0 ? code.slice(lineStart(code, from - 1), from - 1) : '';
+    const nextLine = code.slice(to, lineEnd(code, to));
+    if (from > 0 && previousLine.trim() === '' && nextLine.trim() === '' && to < code.length) {
+      to = Math.min(code.length, lineEnd(code, to) + 1);
+    }
+  }
+
+  const content = code.slice(0, from) + code.slice(to);
+  ensureParses(content, filePath, symbol.name);
+  return { content, symbol: summary(symbol) };
+}
@@ -0,0 +1,475 @@
+// 测试运行 - run_tests 工具：识别工作区的测试框架，运行测试并把报告解析为结构化的通过 / 失败结果
+import crypto from 'crypto';
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { checkCommand, runCommand, RunCommandOptions } from './command-runner';
+
+export type TestFramework = 'jest' | 'vitest' | 'node' | 'pytest';
+
+export const DEFAULT_TEST_TIMEOUT_MS = 120_000;
+
+const MAX_FAILURES = 20;
+const MAX_FAILURE_MESSAGE_LENGTH = 1500;
+const MAX_OUTPUT_TAIL = 4000;
+
+export interface TestFailure {
+  name: string;
+  location?: string; // file:line（相对工作区），尽量指向断言失败的那一行
+  message: string;
+}
+
+export interface TestRunResult {
+  success: boolean;
+  framework: TestFramework;
+  command: string;
+  passed: number;
+  failed: number;
+  skipped: number;
+  total: number;
+  failures: TestFailure[];
+  summary: string;
+  exitCode: number | null;
+  timedOut: boolean;
+  durationMs: number;
+  output?: string; // 没有解析出失败用例但测试未通过时（编译错误、框架未安装等），附上输出的末尾
+}
+
+export interface RunTestsOptions extends Omit<RunCommandOptions, 'cwd'> {
+  target?: string; // 测试文件或匹配模式（pytest 可以是 file::test 形式）
+  framework?: TestFramework;
+}
+
+// 将要执行的测试：command 是不含报告参数的命令（报告路径由 run_tests 生成），用于命令策略检查和审批
+export interface TestRunPlan {
+  framework: TestFramework;
+  command: string;
+}
+
+interface ParsedReport {
+  passed: number;
+  failed: number;
+  skipped: number;
+  failures: TestFailure[];
+}
+
+async function exists(filePath: string): Promise<boolean> {
+  try {
+    await fs.access(filePath);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+async function readPackageJson(workspacePath: string): Promise<any | null> {
+  try {
+    return JSON.parse(await fs.readFile(path.join(workspacePath, 'package.json'), 'utf-8'));
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * 识别测试框架：Python 目标或 pytest 配置 → pytest；package.json 的依赖和 test 脚本 → vitest / jest；
+ * 其余 JS 项目使用 node:test。无法识别时返回 null
+ */
+export async function detectTestFramework(workspacePath: string, target?: string): Promise<TestFramework | null> {
+  if (target && /\.py(::|$)/.test(target)) {
+    return 'pytest';
+  }
+
+  const pkg = await readPackageJson(workspacePath);
+  if (pkg) {
+    const deps = { ...pkg.dependencies, ...pkg.devDependencies };
+    const testScript: string = pkg.scripts?.test || '';
+    if (deps.vitest || /\bvitest\b/.test(testScript)) return 'vitest';
+    if (deps.jest || deps['ts-jest'] || /\bjest\b/.test(testScript)) return 'jest';
+  }
+
+  const configs = await Promise.all([
+    ...['vitest.config.ts', 'vitest.config.js', 'vitest.config.mjs'].map(file => exists(path.join(workspacePath, file))),
+    ...['jest.config.ts', 'jest.config.js', 'jest.config.cjs'].map(file => exists(path.join(workspacePath, file))),
+  ]);
+  if (configs.slice(0, 3).some(Boolean)) return 'vitest';
+  if (configs.slice(3).some(Boolean)) return 'jest';
+
+  const pythonMarkers = ['pytest.ini', 'conftest.py', 'pyproject.toml', 'setup.cfg', 'tox.ini'];
+  if ((await Promise.all(pythonMarkers.map(file => exists(path.join(workspacePath, file))))).some(Boolean)) {
+    return 'pytest';
+  }
+
+  return pkg ? 'node' : null;
+}
+
+// 目标会拼进命令行，只允许路径和匹配模式中常见的字符
+function validateTarget(target: string): void {
+  if (!/^[\w./\\@*:\-[\]]+$/.test(target) || target.startsWith('-')) {
+    throw new Error(`测试目标 ${target} 包含不支持的字符，请提供测试文件路径或匹配模式`);
+  }
+  if (target.split(/[\\/]/).includes('..')) {
+    throw new Error(`测试目标 ${target} 超出了工作目录`);
+  }
+}
+
+// 构建测试命令；不传 reportPath 时省略报告参数
+function buildCommand(framework: TestFramework, target?: string, reportPath?: string): string {
+  const suffix = target ? ` ${target}` : '';
+  switch (framework) {
+    case 'jest':
+      return reportPath
+        ? `npx --no-install jest --ci --json --testLocationInResults --outputFile=${reportPath}${suffix}`
+        : `npx --no-install jest --ci${suffix}`;
+    case 'vitest':
+      return reportPath
+        ? `npx --no-install vitest run --reporter=json --outputFile=${reportPath}${suffix}`
+        : `npx --no-install vitest run${suffix}`;
+    case 'node':
+      return `node --test --test-reporter=tap${suffix}`;
+    case 'pytest': {
+      const python = process.platform === 'win32' ? 'python' : 'python3';
+      return reportPath
+        ? `${python} -m pytest -q -o junit_family=xunit1 --junitxml=${reportPath}${suffix}`
+        : `${python} -m pytest -q${suffix}`;
+    }
+  }
+}
+
+function stripAnsi(text: string): string {
+  return text.replace(/\u001b\[[0-9;]*m/g, '');
+}
+
+function clip(text: string, max: number): string {
+  return text.length > max ? `${text.slice(0, max)}\n...` : text;
+}
+
+function relativeFile(workspacePath: string, file: string): string {
+  const absolute = file.replace(/^file:\/\//, '');
+  const relative = path.relative(workspacePath, path.resolve(workspacePath, absolute));
+  return relative.startsWith('..') ? absolute : relative.split(path.sep).join('/');
+}
+
+/**
+ * 从堆栈中找出测试文件内的第一帧（断言所在的行）
+ */
+function locateInStack(workspacePath: string, stack: string, testFile?: string): string | undefined {
+  const framePattern = /\(?((?:file:\/\/)?[^\s()]+?):(\d+):\d+\)?/g;
+  const frames: Array<{ file: string; line: number }> = [];
+  for (let match = framePattern.exec(stack); match; match = framePattern.exec(stack)) {
+    if (/node_modules|node:internal|^node:/.test(match[1])) continue;
+    frames.push({ file: relativeFile(workspacePath, match[1]), line: Number(match[2]) });
+  }
+
+  const frame = (testFile && frames.find(item => item.file === testFile)) || frames[0];
+  return frame ? `${frame.file}:${frame.line}` : undefined;
+}
+
+// 失败信息只保留堆栈之前的说明部分
+function failureMessage(text: string): string {
+  const lines = stripAnsi(text).split('\n');
+  const stackStart = lines.findIndex(line => /^\s+at\s/.test(line));
+  const message = (stackStart === -1 ? lines : lines.slice(0, stackStart)).join('\n').trim();
+  return clip(message || stripAnsi(text).trim(), MAX_FAILURE_MESSAGE_LENGTH);
+}
+
+/**
+ * 解析 jest --json / vitest --reporter=json 的报告（两者格式兼容）
+ */
+function parseJestReport(workspacePath: string, report: any): ParsedReport {
+  const failures: TestFailure[] = [];
+  for (const file of report.testResults || []) {
+    const testFile = relativeFile(workspacePath, file.name || file.testFilePath || '');
+    const assertions: any[] = file.assertionResults || [];
+
+    // 文件本身加载失败（语法错误、导入失败）时没有用例结果
+    if (file.status === 'failed' && assertions.every(assertion => assertion.status !== 'failed')) {
+      const message = file.message || file.failureMessage || '测试文件执行失败';
+      failures.push({
+        name: testFile,
+        location: locateInStack(workspacePath, stripAnsi(message), testFile) || testFile,
+        message: failureMessage(message),
+      });
+    }
+
+    for (const assertion of assertions) {
+      if (assertion.status !== 'failed') continue;
+      const details = (assertion.failureMessages || []).join('\n');
+      const declared = assertion.location?.line ? `${testFile}:${assertion.location.line}` : testFile;
+      failures.push({
+        name: assertion.fullName || assertion.title,
+        location: locateInStack(workspacePath, stripAnsi(details), testFile) || declared,
+        message: failureMessage(details || '测试失败'),
+      });
+    }
+  }
+
+  return {
+    passed: report.numPassedTests || 0,
+    failed: report.numFailedTests || 0,
+    skipped: (report.numPendingTests || 0) + (report.numTodoTests || 0),
+    failures,
+  };
+}
+
+// TAP 中 YAML 块的字段：单行值或 |- 开头的多行值
+function readYamlField(block: string[], key: string): string | undefined {
+  const index = block.findIndex(line => line.trim().startsWith(`${key}:`));
+  if (index === -1) return undefined;
+
+  const inline = block[index].trim().slice(key.length + 1).trim();
+  if (!/^[|>]-?$/.test(inline)) {
+    return inline.replace(/^'(.*)'$/, '$1').replace(/^"(.*)"$/, '$1');
+  }
+
+  const baseIndent = block[index].match(/^\s*/)![0].length;
+  const lines: string[] = [];
+  for (const line of block.slice(index + 1)) {
+    if (line.trim() !== '' && line.match(/^\s*/)![0].length <= baseIndent) break;
+    lines.push(line.trim());
+  }
+  return lines.join('\n');
+}
+
+/**
+ * 解析 node --test 的 TAP 输出（嵌套的子测试按缩进区分）
+ */
+function parseTapOutput(workspacePath: string, output: string): ParsedReport {
+  const lines = output.split('\n');
+  const failures: TestFailure[] = [];
+  let passed = 0;
+  let failed = 0;
+  let skipped = 0;
+
+  for (let i = 0; i < lines.length; i++) {
+    const match = lines[i].match(/^(\s*)(not ok|ok) \d+ - (.*?)(?:\s+#\s*(SKIP|TODO)\b.*)?$/i);
+    if (!match) continue;
+
+    // 读取紧随其后的 YAML 块（--- 到 ...）
+    const block: string[] = [];
+    if (lines[i + 1]?.trim() === '---') {
+      let j = i + 2;
+      for (; j < lines.length && lines[j].trim() !== '...'; j++) {
+        block.push(lines[j]);
+      }
+      i = j;
+    }
+
+    // 子测试失败导致的父级失败不重复统计
+    if (readYamlField(block, 'failureType') === 'subtestsFailed' || readYamlField(block, 'type') === 'suite') {
+      continue;
+    }
+
+    if (match[4]) {
+      skipped++;
+    } else if (match[2] === 'ok') {
+      passed++;
+    } else {
+      failed++;
+      const declared = readYamlField(block, 'location');
+      const testFile = declared ? relativeFile(workspacePath, declared.replace(/:\d+:\d+$/, '')) : undefined;
+      const stack = readYamlField(block, 'stack') || '';
+      failures.push({
+        name: match[3].replace(/\\#/g, '#'),
+        location: locateInStack(workspacePath, stack, testFile)
+          || (declared ? locateInStack(workspacePath, declared) : undefined),
+        message: clip(readYamlField(block, 'error') || '测试失败', MAX_FAILURE_MESSAGE_LENGTH),
+      });
+    }
+  }
+
+  // 优先使用 TAP 末尾的统计
+  const total = (name: string) => {
+    const summary = output.match(new RegExp(`^# ${name} (\\d+)$`, 'm'));
+    return summary ? Number(summary[1]) : undefined;
+  };
+  return {
+    passed: total('pass') ?? passed,
+    failed: total('fail') ?? failed,
+    skipped: (total('skipped') ?? skipped) + (total('todo') ?? 0),
+    failures,
+  };
+}
+
+function decodeXml(text: string): string {
+  return text
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&#(\d+);/g, (_, code) => String.fromCharCode(Number(code)))
+    .replace(/&amp;/g, '&');
+}
+
+function xmlAttributes(source: string): Record<string, string> {
+  const attributes: Record<string, string> = {};
+  for (const match of Array.from(source.matchAll(/([\w-]+)="([^"]*)"/g))) {
+    attributes[match[1]] = decodeXml(match[2]);
+  }
+  return attributes;
+}
+
+/**
+ * 解析 pytest 的 JUnit XML 报告（xunit1 格式带有 file / line 属性）
+ */
+function parseJunitReport(workspacePath: string, xml: string): ParsedReport {
+  const failures: TestFailure[] = [];
+  let passed = 0;
+  let failed = 0;
+  let skipped = 0;
+
+  for (const match of Array.from(xml.matchAll(/<testcase\b([^>]*?)(?:\/>|>([\s\S]*?)<\/testcase>)/g))) {
+    const attributes = xmlAttributes(match[1]);
+    const body = match[2] || '';
+    const problem = body.match(/<(failure|error)\b([^>]*?)(?:\/>|>([\s\S]*?)<\/\1>)/);
+
+    if (!problem) {
+      if (/<skipped\b/.test(body)) {
+        skipped++;
+      } else {
+        passed++;
+      }
+      continue;
+    }
+
+    failed++;
+    const testFile = attributes.file ? relativeFile(workspacePath, attributes.file) : undefined;
+    const traceback = decodeXml(problem[3] || '');
+    // pytest 的回溯以「file.py:行号: 异常类型」结束，取测试文件中最后一处
+    const lines = Array.from(traceback.matchAll(/^(\S+\.py):(\d+):/gm))
+      .map(item => ({ file: relativeFile(workspacePath, item[1]), line: Number(item[2]) }));
+    const frame = [...lines].reverse().find(item => !testFile || item.file === testFile) || lines[lines.length - 1];
+    // JUnit 报告中的 line 是从 0 开始的
+    const declared = testFile && attributes.line ? `${testFile}:${Number(attributes.line) + 1}` : testFile;
+
+    failures.push({
+      name: [attributes.classname, attributes.name].filter(Boolean).join('::'),
+      location: frame ? `${frame.file}:${frame.line}` : declared,
+      message: clip(xmlAttributes(problem[2]).message || traceback.trim() || '测试失败', MAX_FAILURE_MESSAGE_LENGTH),
+    });
+  }
+
+  return { passed, failed, skipped, failures };
+}
+
+async function parseReport(
+  framework: TestFramework,
+  workspacePath: string,
+  reportPath: string,
+  stdout: string
+): Promise<ParsedReport | null> {
+  try {
+    switch (framework) {
+      case 'jest':
+      case 'vitest':
+        return parseJestReport(workspacePath, JSON.parse(await fs.readFile(reportPath, 'utf-8')));
+      case 'pytest':
+        return parseJunitReport(workspacePath, await fs.readFile(reportPath, 'utf-8'));
+      case 'node':
+        return /^(not )?ok \d+/m.test(stdout) ? parseTapOutput(workspacePath, stdout) : null;
+    }
+  } catch {
+    // 报告文件不存在（框架未安装、配置错误等）
+    return null;
+  }
+}
+
+/**
+ * 识别测试框架并生成要执行的命令（执行前按 run_command 的策略检查 / 审批），目标无效或无法识别框架时抛出
+ */
+export async function planTestRun(
+  workspacePath: string,
+  options: Pick<RunTestsOptions, 'target' | 'framework'> = {}
+): Promise<TestRunPlan> {
+  if (options.target) {
+    validateTarget(options.target);
+  }
+
+  const framework = options.framework || await detectTestFramework(workspacePath, options.target);
+  if (!framework) {
+    throw new Error('无法识别工作区的测试框架（支持 jest、vitest、node:test、pytest），请通过 framework 参数指定');
+  }
+  return { framework, command: buildCommand(framework, options.target) };
+}
+
+/**
+ * 运行测试并返回结构化结果。测试失败不会抛出异常，只有目标无效、无法识别框架或命令被拒绝时抛出
+ */
+export async function runTests(workspacePath: string, options: RunTestsOptions = {}): Promise<TestRunResult> {
+  const { framework, command: plannedCommand } = await planTestRun(workspacePath, options);
+  const policy = checkCommand(plannedCommand);
+  if (policy.action === 'deny') {
+    throw new Error(`命令被拒绝执行: ${policy.reason}`);
+  }
+
+  const reportPath = path.join(os.tmpdir(), `agent-test-report-${crypto.randomUUID()}.${framework === 'pytest' ? 'xml' : 'json'}`);
+  const command = buildCommand(framework, options.target, reportPath);
+
+  try {
+    const result = await runCommand(command, {
+      cwd: workspacePath,
+      timeoutMs: options.timeoutMs || DEFAULT_TEST_TIMEOUT_MS,
+      // node:test 的结果在 TAP 输出中，需要保留更多输出
+      maxOutputBytes: options.maxOutputBytes || (framework === 'node' ? 512 * 1024 : undefined),
+      signal: options.signal,
+      onOutput: options.onOutput,
+    });
+    const report = result.timedOut ? null : await parseReport(framework, workspacePath, reportPath, result.stdout);
+    const parsed: ParsedReport = report || { passed: 0, failed: 0, skipped: 0, failures: [] };
+    // 文件加载失败不计入用例数，但同样算作失败
+    parsed.failed = Math.max(parsed.failed, parsed.failures.length);
+    const success = result.exitCode === 0 && !result.timedOut && parsed.failed === 0;
+
+    const testRun: TestRunResult = {
+      success,
+      framework,
+      command,
+      passed: parsed.passed,
+      failed: parsed.failed,
+      skipped: parsed.skipped,
+      total: parsed.passed + parsed.failed + parsed.skipped,
+      failures: parsed.failures.slice(0, MAX_FAILURES),
+      summary: '',
+      exitCode: result.exitCode,
+      timedOut: result.timedOut,
+      durationMs: result.durationMs,
+    };
+    testRun.summary = summarizeTestRun(testRun, report !== null);
+
+    if (!success && testRun.failures.length === 0) {
+      const output = stripAnsi(`${result.stdout}\n${result.stderr}`).trim();
+      testRun.output = output.length > MAX_OUTPUT_TAIL ? `...\n${output.slice(-MAX_OUTPUT_TAIL)}` : output;
+    }
+    return testRun;
+  } finally {
+    await fs.rm(reportPath, { force: true });
+  }
+}
+
+function summarizeTestRun(result: TestRunResult, parsed: boolean): string {
+  if (result.timedOut) {
+    return `测试超时，已被终止（${result.framework}）`;
+  }
+  if (!parsed) {
+    return `未能解析测试结果（${result.framework}，退出码 ${result.exitCode}）`;
+  }
+  if (result.total === 0) {
+    return `没有找到测试用例（${result.framework}）`;
+  }
+  const skipped = result.skipped > 0 ? ` / ${result.skipped} 跳过` : '';
+  return `${result.passed} 通过 / ${result.failed} 失败${skipped}（${result.framework}）`;
+}
+
+/**
+ * 工作流节点中展示的测试详情：统计 + 失败用例的位置和信息
+ */
+export function describeTestRun(result: TestRunResult): string {
+  const lines = [`命令: ${result.command}`, result.summary];
+  for (const failure of result.failures) {
+    lines.push('', `✗ ${failure.name}${failure.location ? `（${failure.location}）` : ''}`);
+    lines.push(failure.message.split('\n').slice(0, 6).join('\n'));
+  }
+  if (result.failed > result.failures.length) {
+    lines.push('', `另有 ${result.failed - result.failures.length} 个失败用例未列出`);
+  }
+  return lines.join('\n');
+}
@@ -0,0 +1,130 @@
+// 工具参数 schema - 用 zod 声明参数，生成 function calling 的 JSON schema，并在执行前校验
+import { z, ZodFirstPartyTypeKind, ZodTypeAny } from 'zod';
+import { Tool } from './types';
+
+/**
+ * 参数校验失败时返回给模型的结构化错误
+ */
+export interface ToolValidationError {
+  error: 'invalid_arguments';
+  tool: string;
+  message: string;
+  issues: {
+    path: string;
+    message: string;
+    expected?: string;
+    received?: string;
+  }[];
+}
+
+/**
+ * 执行器在模型参数之外传给工具的上下文
+ */
+export interface ToolExecutionContext {
+  workspacePath: string;
+  signal?: AbortSignal; // 执行被取消时中止长时间运行的工具
+  onOutput?: (stream: 'stdout' | 'stderr', chunk: string) => void; // 流式输出（run_command）
+}
+
+/**
+ * zod schema -> JSON schema（只支持工具参数中用到的类型）
+ */
+export function zodToJsonSchema(schema: ZodTypeAny): Record<string, any> {
+  const def = schema._def;
+  const withDescription = (json: Record<string, any>) =>
+    schema.description ? { ...json, description: schema.description } : json;
+
+  switch (def.typeName) {
+    case ZodFirstPartyTypeKind.ZodObject: {
+      const shape = (schema as z.AnyZodObject).shape;
+      const properties: Record<string, any> = {};
+      const required: string[] = [];
+      for (const [key, value] of Object.entries(shape) as [string, ZodTypeAny][]) {
+        properties[key] = zodToJsonSchema(value);
+        if (!value.isOptional()) {
+          required.push(key);
+        }
+      }
+      return withDescription({
+        type: 'object',
+        properties,
+        ...(required.length > 0 ? { required } : {}),
+      });
+    }
+    case ZodFirstPartyTypeKind.ZodString:
+      return withDescription({ type: 'string' });
+    case ZodFirstPartyTypeKind.ZodNumber:
+      return withDescription({
+        type: def.checks?.some((check: any) => check.kind === 'int') ? 'integer' : 'number',
+      });
+    case ZodFirstPartyTypeKind.ZodBoolean:
+      return withDescription({ type: 'boolean' });
+    case ZodFirstPartyTypeKind.ZodArray:
+      return withDescription({ type: 'array', items: zodToJsonSchema(def.type) });
+    case ZodFirstPartyTypeKind.ZodEnum:
+      return withDescription({ type: 'string', enum: def.values });
+    case ZodFirstPartyTypeKind.ZodLiteral:
+      return withDescription({ const: def.value });
+    case ZodFirstPartyTypeKind.ZodUnion:
+      return withDescription({ anyOf: def.options.map((option: ZodTypeAny) => zodToJsonSchema(option)) });
+    case ZodFirstPartyTypeKind.ZodRecord:
+      return withDescription({ type: 'object', additionalProperties: zodToJsonSchema(def.valueType) });
+    case ZodFirstPartyTypeKind.ZodOptional:
+    case ZodFirstPartyTypeKind.ZodNullable:
+      return withDescription(zodToJsonSchema(def.innerType));
+    case ZodFirstPartyTypeKind.ZodDefault:
+      return withDescription({ ...zodToJsonSchema(def.innerType), default: def.defaultValue() });
+    case ZodFirstPartyTypeKind.ZodAny:
+    case ZodFirstPartyTypeKind.ZodUnknown:
+      return withDescription({});
+    default:
+      throw new Error(`Unsupported zod type in tool schema: ${def.typeName}`);
+  }
+}
+
+/**
+ * 定义工具：execute 的参数类型由 schema 推导，parameters 由 schema 生成
+ */
+export function defineTool<S extends z.AnyZodObject>(tool: {
+  name: string;
+  description: string;
+  schema: S;
+  readOnly?: boolean;
+  execute: (params: z.infer<S> & ToolExecutionContext) => Promise<any>;
+}): Tool {
+  return {
+    ...tool,
+    parameters: zodToJsonSchema(tool.schema),
+  };
+}
+
+/**
+ * 执行前校验参数；成功时返回应用了默认值的参数
+ */
+export function validateToolArgs(
+  tool: Tool,
+  args: unknown
+): { success: true; data: Record<string, any> } | { success: false; error: ToolValidationError } {
+  const result = tool.schema.safeParse(args ?? {});
+  if (result.success) {
+    return { success: true, data: result.data };
+  }
+
+  const issues = result.error.issues.map(issue => ({
+    path: issue.path.join('.') || '(root)',
+    message: issue.message,
+    ...(issue.code === 'invalid_type'
+      ? { expected: String(issue.expected), received: String(issue.received) }
+      : {}),
+  }));
+
+  return {
+    success: false,
+    error: {
+      error: 'invalid_arguments',
+      tool: tool.name,
+      message: `Invalid arguments for ${tool.name}: ${issues.map(issue => `${issue.path}: ${issue.message}`).join('; ')}`,
+      issues,
+    },
+  };
+}
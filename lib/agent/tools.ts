@@ -1,51 +1,61 @@
 // Agent 工具系统
+import { z } from 'zod';
 import { Tool } from './types';
 import fs from 'fs/promises';
 import path from 'path';
 import { applyPatch, createPatch } from 'diff';
 import { SDD_TOOLS } from '../sdd/spec-tools';
+import { defineTool } from './tool-schema';
+import { searchAndReplace } from './search-replace';
+import { findSymbols, replaceSymbol, insertAfterSymbol, deleteSymbol } from './symbol-edit';
+import { checkCommand, runCommand, DEFAULT_COMMAND_TIMEOUT_MS, MAX_COMMAND_TIMEOUT_MS } from './command-runner';
+import { runTests } from './test-runner';
+import { grepWorkspace, MAX_GREP_RESULTS, MAX_GREP_CONTEXT_LINES } from './grep';
+import { resolveWorkspacePath } from '../workspace/paths';
+import { getIndexer, CODE_LANGUAGES } from '../codebase/indexer';
+import { isGitRepository, gitInit, gitStatus, gitDiff, gitLog, gitBlame, gitCommit, MAX_GIT_LOG_COUNT } from '../workspace/git';
 
 // 读取文件工具
-export const readFileTool: Tool = {
+export const readFileTool: Tool = defineTool({
   name: 'read_file',
-  description: 'Read the contents of a file in the workspace',
-  parameters: {
-    type: 'object',
-    properties: {
-      path: {
-        type: 'string',
-        description: 'The relative path to the file'
-      }
-    },
-    required: ['path']
-  },
-  execute: async ({ path: filePath, workspacePath }) => {
-    const fullPath = path.join(workspacePath, filePath);
+  description: 'Read the contents of a file in the workspace. Use startLine/endLine to read part of a large file',
+  readOnly: true,
+  schema: z.object({
+    path: z.string().min(1).describe('The relative path to the file'),
+    startLine: z.number().int().min(1).optional().describe('First line to read (1-based, optional)'),
+    endLine: z.number().int().min(1).optional().describe('Last line to read (inclusive, optional)'),
+  }),
+  execute: async ({ path: filePath, startLine, endLine, workspacePath }) => {
+    const fullPath = await resolveWorkspacePath(workspacePath, filePath);
     const content = await fs.readFile(fullPath, 'utf-8');
-    return { success: true, content };
+    if (!startLine && !endLine) {
+      return { success: true, content };
+    }
+    
+    // 按行读取部分内容
+    const lines = content.split('\n');
+    const start = Math.max(1, startLine || 1);
+    const end = Math.min(lines.length, endLine || lines.length);
+    return {
+      success: true,
+      content: lines.slice(start - 1, end).join('\n'),
+      startLine: start,
+      endLine: end,
+      totalLines: lines.length,
+    };
   }
-};
+});
 
 // 写入文件工具
-export const writeFileTool: Tool = {
+export const writeFileTool: Tool = defineTool({
   name: 'write_file',
   description: 'MUST use this tool to create or update files. Do not just suggest code. Actually write the file by calling this function.',
-  parameters: {
-    type: 'object',
-    properties: {
-      path: {
-        type: 'string',
-        description: 'The relative path to the file'
-      },
-      content: {
-        type: 'string',
-        description: 'The content to write'
-      }
-    },
-    required: ['path', 'content']
-  },
+  schema: z.object({
+    path: z.string().min(1).describe('The relative path to the file'),
+    content: z.string().describe('The content to write'),
+  }),
   execute: async ({ path: filePath, content, workspacePath }) => {
-    const fullPath = path.join(workspacePath, filePath);
+    const fullPath = await resolveWorkspacePath(workspacePath, filePath);
     await fs.mkdir(path.dirname(fullPath), { recursive: true });
     
     // 修复换行符问题：将字面量的 \r\n 和 \n 转换为真正的换行符
@@ -58,23 +68,70 @@ export const writeFileTool: Tool = {
     await fs.writeFile(fullPath, fixedContent, 'utf-8');
     return { success: true, path: filePath };
   }
-};
+});
+
+// 移动 / 重命名文件工具
+export const moveFileTool: Tool = defineTool({
+  name: 'move_file',
+  description: 'Move or rename a file or directory in the workspace. The destination must not exist yet',
+  schema: z.object({
+    path: z.string().min(1).describe('The relative path of the file or directory to move'),
+    newPath: z.string().min(1).describe('The new relative path'),
+  }),
+  execute: async ({ path: filePath, newPath, workspacePath }) => {
+    const targetPath = await resolveWorkspacePath(workspacePath, newPath);
+    try {
+      await fs.access(targetPath);
+      throw new Error(`目标已存在: ${newPath}`);
+    } catch (error: any) {
+      if (error.code !== 'ENOENT') throw error;
+    }
+    await fs.mkdir(path.dirname(targetPath), { recursive: true });
+    await fs.rename(await resolveWorkspacePath(workspacePath, filePath), targetPath);
+    return { success: true, path: filePath, newPath };
+  }
+});
+
+// 删除文件工具
+export const deleteFileTool: Tool = defineTool({
+  name: 'delete_file',
+  description: 'Delete a file from the workspace, e.g. a file that is no longer used after a refactor',
+  schema: z.object({
+    path: z.string().min(1).describe('The relative path to the file'),
+  }),
+  execute: async ({ path: filePath, workspacePath }) => {
+    const fullPath = await resolveWorkspacePath(workspacePath, filePath);
+    if ((await fs.stat(fullPath)).isDirectory()) {
+      throw new Error(`${filePath} 是目录，delete_file 只能删除文件`);
+    }
+    await fs.rm(fullPath);
+    return { success: true, path: filePath };
+  }
+});
+
+// 创建目录工具
+export const createDirectoryTool: Tool = defineTool({
+  name: 'create_directory',
+  description: 'Create a directory (and any missing parent directories) in the workspace. Not needed before write_file, which creates parent directories itself',
+  schema: z.object({
+    path: z.string().min(1).describe('The relative directory path'),
+  }),
+  execute: async ({ path: dirPath, workspacePath }) => {
+    await fs.mkdir(await resolveWorkspacePath(workspacePath, dirPath), { recursive: true });
+    return { success: true, path: dirPath };
+  }
+});
 
 // 列出文件工具
-export const listFilesTool: Tool = {
+export const listFilesTool: Tool = defineTool({
   name: 'list_files',
   description: 'List all files in a directory',
-  parameters: {
-    type: 'object',
-    properties: {
-      path: {
-        type: 'string',
-        description: 'The relative directory path (default: ".")'
-      }
-    }
-  },
+  readOnly: true,
+  schema: z.object({
+    path: z.string().optional().describe('The relative directory path (default: ".")'),
+  }),
   execute: async ({ path: dirPath = '.', workspacePath }) => {
-    const fullPath = path.join(workspacePath, dirPath);
+    const fullPath = await resolveWorkspacePath(workspacePath, dirPath);
     
     async function walkDir(dir: string, prefix = ''): Promise<string[]> {
       const entries = await fs.readdir(dir, { withFileTypes: true });
@@ -82,6 +139,7 @@ export const listFilesTool: Tool = {
       
       for (const entry of entries) {
         const relativePath = path.join(prefix, entry.name);
+        if (entry.name === '.git') continue; // git 仓库的内部文件
         if (entry.isDirectory()) {
           files.push(...await walkDir(path.join(dir, entry.name), relativePath));
         } else {
@@ -95,28 +153,44 @@ export const listFilesTool: Tool = {
     const files = await walkDir(fullPath);
     return { success: true, files };
   }
-};
+});
+
+// 文本搜索工具
+export const grepTool: Tool = defineTool({
+  name: 'grep',
+  description: 'Search file contents in the workspace for an exact string or regular expression and get every match as file:line:column. Use this for exact lookups such as all call sites of a function; use search_codebase for fuzzy, natural language queries',
+  readOnly: true,
+  schema: z.object({
+    pattern: z.string().min(1).describe('Regular expression (JavaScript syntax) or, with literal: true, the exact text to find'),
+    literal: z.boolean().optional().describe('Treat pattern as plain text instead of a regular expression (default: false)'),
+    caseSensitive: z.boolean().optional().describe('Match case (default: true)'),
+    path: z.string().optional().describe('Directory or file to search, relative to the workspace (default: ".")'),
+    include: z.array(z.string()).optional().describe('Only search files matching these globs, e.g. ["*.ts", "src/**/*.tsx"]'),
+    exclude: z.array(z.string()).optional().describe('Skip files matching these globs'),
+    contextLines: z.number().int().min(0).max(MAX_GREP_CONTEXT_LINES).optional().describe('Lines of context before and after each match (default: 0)'),
+    maxResults: z.number().int().min(1).max(MAX_GREP_RESULTS).optional().describe('Maximum number of matching lines to return (default: 100)'),
+  }),
+  execute: async ({ workspacePath, signal, onOutput, ...options }) => {
+    const result = await grepWorkspace(workspacePath, options, { signal });
+    return {
+      success: true,
+      ...result,
+      ...(result.matches.length === 0 ? { message: `没有找到匹配 ${options.pattern} 的内容（已搜索 ${result.filesSearched} 个文件）` } : {}),
+      ...(result.truncated ? { message: `结果超过 ${result.matches.length} 条，已截断。请缩小搜索范围（path / include）或使用更精确的模式` } : {}),
+    };
+  }
+});
 
 // 应用代码补丁工具
-export const applyPatchTool: Tool = {
+export const applyPatchTool: Tool = defineTool({
   name: 'apply_patch',
   description: 'Apply a unified diff patch to a file',
-  parameters: {
-    type: 'object',
-    properties: {
-      path: {
-        type: 'string',
-        description: 'The relative path to the file'
-      },
-      patch: {
-        type: 'string',
-        description: 'The unified diff patch'
-      }
-    },
-    required: ['path', 'patch']
-  },
+  schema: z.object({
+    path: z.string().min(1).describe('The relative path to the file'),
+    patch: z.string().min(1).describe('The unified diff patch'),
+  }),
   execute: async ({ path: filePath, patch, workspacePath }) => {
-    const fullPath = path.join(workspacePath, filePath);
+    const fullPath = await resolveWorkspacePath(workspacePath, filePath);
     const originalContent = await fs.readFile(fullPath, 'utf-8');
     const patchedContent = applyPatch(originalContent, patch);
     
@@ -127,81 +201,295 @@ export const applyPatchTool: Tool = {
     await fs.writeFile(fullPath, patchedContent, 'utf-8');
     return { success: true, path: filePath };
   }
-};
+});
+
+// 片段替换工具
+export const searchAndReplaceTool: Tool = defineTool({
+  name: 'search_and_replace',
+  description: 'Replace an exact snippet of an existing file with new text. Prefer this over write_file for small edits. oldText must match the file (whitespace differences are tolerated) and be unique unless replaceAll is true',
+  schema: z.object({
+    path: z.string().min(1).describe('The relative path to the file'),
+    oldText: z.string().min(1).describe('The exact text to replace, copied from the file with enough context to be unique'),
+    newText: z.string().describe('The replacement text (empty string to delete)'),
+    replaceAll: z.boolean().optional().describe('Replace every occurrence instead of requiring a unique match (default: false)'),
+  }),
+  execute: async ({ path: filePath, oldText, newText, replaceAll, workspacePath }) => {
+    const fullPath = await resolveWorkspacePath(workspacePath, filePath);
+    const originalContent = await fs.readFile(fullPath, 'utf-8');
+    const result = searchAndReplace(originalContent, oldText, newText, replaceAll);
+    
+    await fs.writeFile(fullPath, result.content, 'utf-8');
+    return {
+      success: true,
+      path: filePath,
+      replacements: result.replacements,
+      fuzzy: result.fuzzy,
+      startLine: result.startLine,
+    };
+  }
+});
+
+// 符号参数说明（符号编辑工具共用）
+const symbolParam = z.string().min(1).describe('Name of a function, class, interface, type, enum or top-level variable. Use Class.method for class members');
+
+// 列出符号工具
+export const listSymbolsTool: Tool = defineTool({
+  name: 'list_symbols',
+  description: 'List the functions, classes, interfaces, methods and top-level variables in a TS/JS file with their line ranges',
+  readOnly: true,
+  schema: z.object({
+    path: z.string().min(1).describe('The relative path to the file'),
+  }),
+  execute: async ({ path: filePath, workspacePath }) => {
+    const fullPath = await resolveWorkspacePath(workspacePath, filePath);
+    const content = await fs.readFile(fullPath, 'utf-8');
+    const symbols = findSymbols(content, filePath).map(({ name, kind, startLine, endLine }) => ({
+      name,
+      kind,
+      lines: `${startLine}-${endLine}`,
+    }));
+    return { success: true, symbols };
+  }
+});
+
+// 替换符号工具
+export const replaceSymbolTool: Tool = defineTool({
+  name: 'replace_symbol',
+  description: 'Replace the full source of a function, class, interface or method in a TS/JS file. Only that symbol changes; the rest of the file keeps its formatting',
+  schema: z.object({
+    path: z.string().min(1).describe('The relative path to the file'),
+    symbol: symbolParam,
+    newText: z.string().min(1).describe('The complete new source of the symbol, including its signature (and export keyword if any)'),
+  }),
+  execute: async ({ path: filePath, symbol, newText, workspacePath }) => {
+    const fullPath = await resolveWorkspacePath(workspacePath, filePath);
+    const originalContent = await fs.readFile(fullPath, 'utf-8');
+    const result = replaceSymbol(originalContent, filePath, symbol, newText);
+    
+    await fs.writeFile(fullPath, result.content, 'utf-8');
+    return { success: true, path: filePath, symbol: result.symbol };
+  }
+});
+
+// 在符号后插入代码工具
+export const insertAfterSymbolTool: Tool = defineTool({
+  name: 'insert_after_symbol',
+  description: 'Insert new code (e.g. a new function or method) right after an existing symbol in a TS/JS file',
+  schema: z.object({
+    path: z.string().min(1).describe('The relative path to the file'),
+    symbol: symbolParam,
+    text: z.string().min(1).describe('The code to insert'),
+  }),
+  execute: async ({ path: filePath, symbol, text, workspacePath }) => {
+    const fullPath = await resolveWorkspacePath(workspacePath, filePath);
+    const originalContent = await fs.readFile(fullPath, 'utf-8');
+    const result = insertAfterSymbol(originalContent, filePath, symbol, text);
+    
+    await fs.writeFile(fullPath, result.content, 'utf-8');
+    return { success: true, path: filePath, symbol: result.symbol };
+  }
+});
+
+// 删除符号工具
+export const deleteSymbolTool: Tool = defineTool({
+  name: 'delete_symbol',
+  description: 'Delete a function, class, interface or method (with its leading comments) from a TS/JS file',
+  schema: z.object({
+    path: z.string().min(1).describe('The relative path to the file'),
+    symbol: symbolParam,
+  }),
+  execute: async ({ path: filePath, symbol, workspacePath }) => {
+    const fullPath = await resolveWorkspacePath(workspacePath, filePath);
+    const originalContent = await fs.readFile(fullPath, 'utf-8');
+    const result = deleteSymbol(originalContent, filePath, symbol);
+    
+    await fs.writeFile(fullPath, result.content, 'utf-8');
+    return { success: true, path: filePath, symbol: result.symbol };
+  }
+});
+
+// 执行命令工具（不在允许列表中的命令由执行器先请求用户批准）
+export const runCommandTool: Tool = defineTool({
+  name: 'run_command',
+  description: 'Run a shell command in the workspace directory, e.g. to install packages, build or run tests. Output is capped and the command is killed after the timeout. Commands outside the allowlist need user approval',
+  schema: z.object({
+    command: z.string().min(1).describe('The shell command to run'),
+    timeoutMs: z.number().int().min(1000).max(MAX_COMMAND_TIMEOUT_MS).optional().describe('Timeout in milliseconds (default: 60000)'),
+  }),
+  execute: async ({ command, timeoutMs, workspacePath, signal, onOutput }) => {
+    const policy = checkCommand(command);
+    if (policy.action === 'deny') {
+      throw new Error(`命令被拒绝执行: ${policy.reason}`);
+    }
+    
+    const result = await runCommand(command, { cwd: workspacePath, timeoutMs, signal, onOutput });
+    return {
+      success: result.exitCode === 0 && !result.timedOut,
+      command,
+      ...result,
+      ...(result.timedOut ? { message: `命令超时（${timeoutMs || DEFAULT_COMMAND_TIMEOUT_MS}ms），已被终止` } : {}),
+    };
+  }
+});
+
+// 运行测试工具
+export const runTestsTool: Tool = defineTool({
+  name: 'run_tests',
+  description: 'Run the tests in the workspace (jest, vitest, node:test or pytest, detected automatically) and get structured results: passed/failed counts and each failure with its message and file:line location. Use this after changing code to iterate until the tests pass',
+  schema: z.object({
+    target: z.string().optional().describe('Test file or pattern to run, e.g. "src/utils.test.ts" or "tests/test_api.py::test_login" (default: all tests)'),
+    framework: z.enum(['jest', 'vitest', 'node', 'pytest']).optional().describe('Test framework (default: detected from the workspace)'),
+    timeoutMs: z.number().int().min(1000).max(MAX_COMMAND_TIMEOUT_MS).optional().describe('Timeout in milliseconds (default: 120000)'),
+  }),
+  execute: async ({ target, framework, timeoutMs, workspacePath, signal, onOutput }) => {
+    return runTests(workspacePath, { target, framework, timeoutMs, signal, onOutput });
+  }
+});
+
+// Git 状态工具
+export const gitStatusTool: Tool = defineTool({
+  name: 'git_status',
+  description: 'Show the current branch and the changed, staged and untracked files of the workspace git repository',
+  readOnly: true,
+  schema: z.object({}),
+  execute: async ({ workspacePath }) => {
+    if (!(await isGitRepository(workspacePath))) {
+      return { success: true, initialized: false, message: '工作空间还不是 git 仓库，可以调用 git_init 初始化' };
+    }
+    return { success: true, initialized: true, ...(await gitStatus(workspacePath)) };
+  }
+});
+
+// Git 差异工具
+export const gitDiffTool: Tool = defineTool({
+  name: 'git_diff',
+  description: 'Show uncommitted changes in the workspace git repository as a unified diff, or the changes since a given commit',
+  readOnly: true,
+  schema: z.object({
+    path: z.string().optional().describe('Only show changes of this file or directory'),
+    staged: z.boolean().optional().describe('Show staged changes instead of unstaged ones (default: false)'),
+    ref: z.string().optional().describe('Compare the working tree with this commit, e.g. "HEAD~3" or a SHA'),
+  }),
+  execute: async ({ workspacePath, ...options }) => {
+    const result = await gitDiff(workspacePath, options);
+    return {
+      success: true,
+      ...result,
+      ...(result.diff ? {} : { message: '没有差异' }),
+    };
+  }
+});
+
+// Git 历史工具
+export const gitLogTool: Tool = defineTool({
+  name: 'git_log',
+  description: 'List recent commits of the workspace git repository, optionally only those touching a file',
+  readOnly: true,
+  schema: z.object({
+    path: z.string().optional().describe('Only list commits that changed this file or directory'),
+    maxCount: z.number().int().min(1).max(MAX_GIT_LOG_COUNT).optional().describe('Number of commits to return (default: 20)'),
+  }),
+  execute: async ({ workspacePath, ...options }) => {
+    return { success: true, commits: await gitLog(workspacePath, options) };
+  }
+});
+
+// Git blame 工具
+export const gitBlameTool: Tool = defineTool({
+  name: 'git_blame',
+  description: 'Show which commit last changed each line of a file. Use startLine/endLine to limit the range',
+  readOnly: true,
+  schema: z.object({
+    path: z.string().min(1).describe('The relative path to the file'),
+    startLine: z.number().int().min(1).optional().describe('First line (1-based, optional)'),
+    endLine: z.number().int().min(1).optional().describe('Last line (inclusive, optional)'),
+  }),
+  execute: async ({ path: filePath, startLine, endLine, workspacePath }) => {
+    return { success: true, lines: await gitBlame(workspacePath, filePath, { startLine, endLine }) };
+  }
+});
+
+// Git 初始化工具
+export const gitInitTool: Tool = defineTool({
+  name: 'git_init',
+  description: 'Initialize a git repository in the workspace and commit the existing files. Approved changes are committed automatically afterwards',
+  schema: z.object({}),
+  execute: async ({ workspacePath }) => {
+    const result = await gitInit(workspacePath);
+    return {
+      success: true,
+      ...result,
+      message: result.created ? '已初始化 git 仓库' : '工作空间已经是 git 仓库',
+    };
+  }
+});
+
+// Git 提交工具
+export const gitCommitTool: Tool = defineTool({
+  name: 'git_commit',
+  description: 'Commit changes in the workspace git repository. Approved file changes are already committed automatically, so this is only needed for other changes, e.g. files generated by run_command',
+  schema: z.object({
+    message: z.string().min(1).describe('The commit message'),
+    paths: z.array(z.string()).optional().describe('Only commit these files (default: all changes)'),
+  }),
+  execute: async ({ message, paths, workspacePath }) => {
+    const commit = await gitCommit(workspacePath, message, paths);
+    return commit
+      ? { success: true, commit }
+      : { success: true, commit: null, message: '没有需要提交的改动' };
+  }
+});
 
 // 创建补丁工具
-export const createPatchTool: Tool = {
+export const createPatchTool: Tool = defineTool({
   name: 'create_patch',
   description: 'Create a unified diff patch between old and new content',
-  parameters: {
-    type: 'object',
-    properties: {
-      path: {
-        type: 'string',
-        description: 'The file path (for context)'
-      },
-      oldContent: {
-        type: 'string',
-        description: 'The original content'
-      },
-      newContent: {
-        type: 'string',
-        description: 'The new content'
-      }
-    },
-    required: ['path', 'oldContent', 'newContent']
-  },
+  readOnly: true,
+  schema: z.object({
+    path: z.string().describe('The file path (for context)'),
+    oldContent: z.string().describe('The original content'),
+    newContent: z.string().describe('The new content'),
+  }),
   execute: async ({ path: filePath, oldContent, newContent }) => {
     const patch = createPatch(filePath, oldContent, newContent);
     return { success: true, patch };
   }
-};
+});
 
 // 工具注册表
-// 代码库搜索工具
-export const codebaseSearchTool: Tool = {
+// 代码库搜索工具（在进程内调用索引器，只搜索当前会话工作空间的索引）
+export const codebaseSearchTool: Tool = defineTool({
   name: 'search_codebase',
   description: 'Search the codebase using natural language to find relevant code. Use this tool when you need to understand the project structure or find where specific functionality is implemented.',
-  parameters: {
-    type: 'object',
-    properties: {
-      query: {
-        type: 'string',
-        description: 'Natural language query describing what code you are looking for (e.g., "authentication logic", "file upload handling")'
-      },
-      topK: {
-        type: 'number',
-        description: 'Number of results to return (default: 5, max: 10)'
-      }
-    },
-    required: ['query']
-  },
-  execute: async ({ query, topK = 5 }) => {
+  readOnly: true,
+  schema: z.object({
+    query: z.string().min(1).describe('Natural language query describing what code you are looking for (e.g., "authentication logic", "file upload handling")'),
+    topK: z.number().int().min(1).optional().describe('Number of results to return (default: 5, max: 10)'),
+    filePattern: z.string().optional().describe('Only return code from files matching this glob, e.g. "src/**/*.ts" or "*.py"'),
+    types: z.array(z.enum(['function', 'class', 'interface', 'comment', 'chunk'])).optional().describe('Only return these kinds of code chunks'),
+    language: z.enum(Array.from(new Set(Object.values(CODE_LANGUAGES))) as [string, ...string[]]).optional().describe('Only return code in this language'),
+  }),
+  execute: async ({ query, topK = 5, filePattern, types, language, workspacePath }) => {
     try {
-      const response = await fetch('http://localhost:3000/api/codebase/search', {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ query, topK: Math.min(topK, 10) })
+      const indexer = await getIndexer();
+      const results = await indexer.search(workspacePath, query, {
+        topK: Math.min(topK, 10),
+        filePattern,
+        types,
+        language,
       });
       
-      if (!response.ok) {
-        const error = await response.json();
-        throw new Error(error.error || 'Search failed');
-      }
-      
-      const { results } = await response.json();
-      
-      if (!results || results.length === 0) {
+      if (results.length === 0) {
         return {
           success: true,
-          message: 'No results found. The codebase may not be indexed yet.',
+          message: 'No results found. The codebase may not be indexed yet, or no indexed code matches the filters.',
           results: []
         };
       }
       
       return {
         success: true,
-        results: results.map((r: any) => ({
+        results: results.map(r => ({
           file: r.filePath,
           lines: `${r.startLine}-${r.endLine}`,
           type: r.type,
@@ -217,14 +505,31 @@ export const codebaseSearchTool: Tool = {
       };
     }
   }
-};
+});
 
 export const TOOLS: Record<string, Tool> = {
   read_file: readFileTool,
   write_file: writeFileTool,
+  move_file: moveFileTool,
+  delete_file: deleteFileTool,
+  create_directory: createDirectoryTool,
   list_files: listFilesTool,
   search_codebase: codebaseSearchTool,
+  grep: grepTool,
   apply_patch: applyPatchTool,
+  search_and_replace: searchAndReplaceTool,
+  list_symbols: listSymbolsTool,
+  replace_symbol: replaceSymbolTool,
+  insert_after_symbol: insertAfterSymbolTool,
+  delete_symbol: deleteSymbolTool,
+  run_command: runCommandTool,
+  run_tests: runTestsTool,
+  git_status: gitStatusTool,
+  git_diff: gitDiffTool,
+  git_log: gitLogTool,
+  git_blame: gitBlameTool,
+  git_init: gitInitTool,
+  git_commit: gitCommitTool,
   create_patch: createPatchTool,
   // SDD 工具
   ...SDD_TOOLS,
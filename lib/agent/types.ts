@@ -1,4 +1,5 @@
 // Agent 核心类型定义
+import type { AnyZodObject } from 'zod';
 
 export type TaskStatus = 'pending' | 'in_progress' | 'completed' | 'failed' | 'cancelled';
 
@@ -19,11 +20,13 @@ export interface Task {
   metadata?: Record<string, any>;
 }
 
-// Agent 工具定义
+// Agent 工具定义（用 defineTool 创建，parameters 由 schema 生成）
 export interface Tool {
   name: string;
   description: string;
-  parameters: Record<string, any>;
+  schema: AnyZodObject; // 参数 schema，执行前校验
+  parameters: Record<string, any>; // JSON schema（function calling）
+  readOnly?: boolean; // 只读工具（不修改工作区），同一轮中可以并发执行
   execute: (params: any) => Promise<any>;
 }
 
@@ -64,6 +67,14 @@ export interface ToolCall {
   };
 }
 
+// 一次 LLM 调用的 token 用量（estimated 表示提供商未返回 usage，按字符数估算）
+export interface TokenUsage {
+  prompt: number;
+  completion: number;
+  total: number;
+  estimated?: boolean;
+}
+
 // Agent 响应
 export interface AgentResponse {
   success: boolean;
@@ -83,7 +94,7 @@ export interface CodeChangeProposal {
 }
 
 // 工作流追踪
-export type WorkflowStepStatus = 'pending' | 'in_progress' | 'completed' | 'error';
+export type WorkflowStepStatus = 'pending' | 'in_progress' | 'completed' | 'error' | 'cancelled';
 
 export type WorkflowStepType = 'task' | 'tool' | 'checkpoint';
 
@@ -109,15 +120,92 @@ export interface WorkflowRun {
 }
 
 // 代码修改检查点
-export type CheckpointStatus = 'pending' | 'applied' | 'rejected';
+export type CheckpointStatus = 'pending' | 'applied' | 'rejected' | 'rolled_back';
+
+// 检查点类型：edit 修改文件内容，move / delete / mkdir 为文件操作
+export type CheckpointKind = 'edit' | 'move' | 'delete' | 'mkdir';
 
 export interface CodeCheckpoint {
   id: string;
   sessionId: string;
-  filePath: string;
+  kind?: CheckpointKind; // 缺省为 edit
+  filePath: string; // move 时为源路径
+  targetPath?: string; // move 的目标路径
   originalContent: string;
-  modifiedContent: string;
+  modifiedContent: string; // delete 时为空，move 时与原内容相同
   status: CheckpointStatus;
+  changeSetId?: string; // 所属变更集（同一轮中提出的多个修改）
+  commitSha?: string; // 应用后自动提交到工作空间 git 仓库的提交
+  undo?: CheckpointUndo; // 应用时记录，用于回滚
+  createdAt: number;
+  updatedAt: number;
+}
+
+// 回滚已应用的检查点需要的数据（move 的源路径和目标路径就是检查点的 filePath / targetPath）
+export interface CheckpointUndo {
+  previousContent?: string | null; // edit：应用前的内容（null 表示新建的文件）
+  appliedContent?: string; // edit：实际写入的内容，回滚前检查文件之后是否又被修改
+  deletedContent?: string; // delete：被删除文件的内容（base64）
+  createdDir?: string; // move / mkdir：新建的最外层目录（相对工作空间）
+}
+
+// 变更集：一次迭代中 AI 提出的所有文件修改，统一审批
+export type ChangeSetStatus = 'pending' | 'applied' | 'rejected' | 'rolled_back' | 'partial';
+
+export interface ChangeSet {
+  id: string;
+  sessionId: string;
+  checkpointIds: string[];
+  status: ChangeSetStatus;
+  createdAt: number;
+  updatedAt: number;
+}
+
+// 检查点审批结果（用于恢复挂起的 Agent 执行）
+export interface CheckpointDecision {
+  status: Exclude<CheckpointStatus, 'pending' | 'rolled_back'>;
+  content?: string; // 实际写入的内容
+  edited?: boolean; // 用户是否修改了 AI 的提案
+  reason?: string;
+  diagnostics?: FileDiagnostic[]; // 应用后对该文件的检查结果
+  commitSha?: string; // 自动提交的 SHA
+}
+
+// 修改应用后的检查结果（TypeScript 类型检查 / Python 语法检查），行列从 1 开始
+export interface FileDiagnostic {
+  filePath: string;
+  line: number;
+  column: number;
+  endLine: number;
+  endColumn: number;
+  severity: 'error' | 'warning';
+  message: string;
+  code?: string;
+  source: 'typescript' | 'python';
+}
+
+// 审查 Agent 对变更集的意见
+export interface ChangeReview {
+  verdict: 'approve' | 'revise';
+  summary: string;
+  comments: Record<string, string>; // filePath -> 意见
+}
+
+// 不在允许列表中的命令，执行前需要用户批准
+export type CommandApprovalStatus = 'pending' | 'approved' | 'rejected';
+
+export interface CommandApproval {
+  id: string;
+  sessionId: string;
+  command: string;
+  cwd: string;
+  reason: string; // 需要审批的原因
+  status: CommandApprovalStatus;
   createdAt: number;
   updatedAt: number;
 }
+
+export interface CommandDecision {
+  status: Exclude<CommandApprovalStatus, 'pending'>;
+  reason?: string;
+}
@@ -0,0 +1,191 @@
+// 修改后检查 - 检查点应用后对改动的文件做 TypeScript 类型检查和 Python 语法检查，结果反馈给 Agent
+import fs from 'fs/promises';
+import path from 'path';
+import { execFile } from 'child_process';
+import { promisify } from 'util';
+import { FileDiagnostic } from './types';
+
+const execFileAsync = promisify(execFile);
+
+const TS_EXTENSIONS = ['.ts', '.tsx', '.mts', '.cts', '.js', '.jsx', '.mjs', '.cjs'];
+const PYTHON_CHECK_TIMEOUT_MS = 10_000;
+const MAX_DIAGNOSTICS_PER_FILE = 50;
+
+// 找不到模块（工作区未安装依赖时几乎必然出现），降级为警告
+const MISSING_MODULE_CODES = [2307, 2792, 7016];
+
+// 逐个文件做语法检查，输出 JSON
+const PYTHON_SYNTAX_CHECK = `
+import ast, json, sys
+errors = []
+for name in sys.argv[1:]:
+    try:
+        with open(name, 'rb') as f:
+            ast.parse(f.read(), name)
+    except SyntaxError as e:
+        errors.append({
+            'file': name,
+            'line': e.lineno or 1,
+            'column': e.offset or 1,
+            'endLine': getattr(e, 'end_lineno', None),
+            'endColumn': getattr(e, 'end_offset', None),
+            'message': e.msg,
+        })
+print(json.dumps(errors))
+`;
+
+/**
+ * 是否在应用修改后做检查（AGENT_VERIFY_CHANGES=false 关闭）
+ */
+export function isVerificationEnabled(): boolean {
+  return process.env.AGENT_VERIFY_CHANGES !== 'false';
+}
+
+async function exists(filePath: string): Promise<boolean> {
+  try {
+    await fs.access(filePath);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+// 只读取工作区根目录的 tsconfig.json（不向上查找，避免用到 IDE 自身的配置）
+async function loadCompilerOptions(
+  ts: typeof import('typescript'),
+  workspacePath: string
+): Promise<import('typescript').CompilerOptions> {
+  const defaults = {
+    target: ts.ScriptTarget.ES2020,
+    module: ts.ModuleKind.ESNext,
+    moduleResolution: ts.ModuleResolutionKind.Node10,
+    jsx: ts.JsxEmit.Preserve,
+    allowJs: true,
+    esModuleInterop: true,
+    skipLibCheck: true,
+  };
+
+  const configPath = path.join(workspacePath, 'tsconfig.json');
+  if (!(await exists(configPath))) {
+    return defaults;
+  }
+  const { config, error } = ts.readConfigFile(configPath, ts.sys.readFile);
+  if (error) {
+    return defaults;
+  }
+  return ts.parseJsonConfigFileContent(config, ts.sys, workspacePath).options;
+}
+
+/**
+ * 用 TypeScript 编译器 API 检查改动的 TS/JS 文件（JS 文件只在开启 checkJs 时做类型检查）
+ */
+async function checkTypeScript(workspacePath: string, files: string[]): Promise<FileDiagnostic[]> {
+  let ts: typeof import('typescript');
+  try {
+    const mod: any = await import('typescript');
+    ts = mod.default || mod;
+  } catch {
+    // 生产环境可能没有安装 devDependencies
+    return [];
+  }
+
+  const options = { ...(await loadCompilerOptions(ts, workspacePath)), noEmit: true };
+  const hasNodeModules = await exists(path.join(workspacePath, 'node_modules'));
+  const program = ts.createProgram(files.map(file => path.join(workspacePath, file)), options);
+
+  const diagnostics: FileDiagnostic[] = [];
+  for (const file of files) {
+    const fileName = path.join(workspacePath, file);
+    const sourceFile = program.getSourceFile(fileName);
+    if (!sourceFile) continue;
+
+    const isJs = /\.(js|jsx|mjs|cjs)$/.test(fileName);
+    const results = [
+      ...program.getSyntacticDiagnostics(sourceFile),
+      ...(isJs && !options.checkJs ? [] : program.getSemanticDiagnostics(sourceFile)),
+    ];
+
+    for (const diagnostic of results.slice(0, MAX_DIAGNOSTICS_PER_FILE)) {
+      if (diagnostic.category !== ts.DiagnosticCategory.Error && diagnostic.category !== ts.DiagnosticCategory.Warning) {
+        continue;
+      }
+      const start = diagnostic.start || 0;
+      const from = sourceFile.getLineAndCharacterOfPosition(start);
+      const to = sourceFile.getLineAndCharacterOfPosition(start + (diagnostic.length || 0));
+      const missingModule = !hasNodeModules && MISSING_MODULE_CODES.includes(diagnostic.code);
+
+      diagnostics.push({
+        filePath: file, // 与检查点的路径保持一致
+        line: from.line + 1,
+        column: from.character + 1,
+        endLine: to.line + 1,
+        endColumn: to.character + 1,
+        severity: diagnostic.category === ts.DiagnosticCategory.Error && !missingModule ? 'error' : 'warning',
+        message: ts.flattenDiagnosticMessageText(diagnostic.messageText, '\n'),
+        code: `TS${diagnostic.code}`,
+        source: 'typescript',
+      });
+    }
+  }
+  return diagnostics;
+}
+
+/**
+ * 用 Python 的 ast 模块检查改动的 .py 文件的语法（没有安装 Python 时跳过）
+ */
+async function checkPython(workspacePath: string, files: string[]): Promise<FileDiagnostic[]> {
+  const python = process.platform === 'win32' ? 'python' : 'python3';
+  try {
+    const { stdout } = await execFileAsync(python, ['-c', PYTHON_SYNTAX_CHECK, ...files], {
+      cwd: workspacePath,
+      timeout: PYTHON_CHECK_TIMEOUT_MS,
+    });
+    const errors: any[] = JSON.parse(stdout);
+    return errors.map(error => ({
+      filePath: error.file,
+      line: error.line,
+      column: error.column,
+      endLine: error.endLine || error.line,
+      endColumn: error.endColumn || error.column + 1,
+      severity: 'error' as const,
+      message: error.message,
+      code: 'SyntaxError',
+      source: 'python' as const,
+    }));
+  } catch (error) {
+    console.warn('Python syntax check skipped:', error);
+    return [];
+  }
+}
+
+/**
+ * 检查改动的文件（路径相对工作区，诊断中原样返回），检查本身出错时返回空列表，不影响修改的应用
+ */
+export async function verifyFiles(workspacePath: string, filePaths: string[]): Promise<FileDiagnostic[]> {
+  const existing = (await Promise.all(
+    filePaths.map(async file => ((await exists(path.join(workspacePath, file))) ? file : null))
+  )).filter((file): file is string => file !== null);
+
+  const tsFiles = existing.filter(file => TS_EXTENSIONS.includes(path.extname(file).toLowerCase()));
+  const pyFiles = existing.filter(file => path.extname(file).toLowerCase() === '.py');
+
+  try {
+    const [tsDiagnostics, pyDiagnostics] = await Promise.all([
+      tsFiles.length > 0 ? checkTypeScript(workspacePath, tsFiles) : [],
+      pyFiles.length > 0 ? checkPython(workspacePath, pyFiles) : [],
+    ]);
+    return [...tsDiagnostics, ...pyDiagnostics];
+  } catch (error) {
+    console.error('Verification failed:', error);
+    return [];
+  }
+}
+
+/**
+ * 把诊断格式化为反馈给 Agent 的文本（每条一行：file:line:col 级别 代码 信息）
+ */
+export function formatDiagnostics(diagnostics: FileDiagnostic[]): string[] {
+  return diagnostics.map(diagnostic =>
+    `${diagnostic.filePath}:${diagnostic.line}:${diagnostic.column} ${diagnostic.severity} ${diagnostic.code || ''} ${diagnostic.message.split('\n')[0]}`.replace(/\s+/g, ' ')
+  );
+}
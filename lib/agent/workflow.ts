@@ -78,6 +78,17 @@ class WorkflowManager {
     return step;
   }
 
+  updateStep(sessionId: string, stepId: string, updates: Pick<CreateStepInput, 'title' | 'description'>) {
+    const step = this.findStep(sessionId, stepId);
+    if (!step) return;
+
+    step.title = updates.title;
+    if (updates.description !== undefined) {
+      step.description = updates.description;
+    }
+    this.updateRunTimestamp(sessionId);
+  }
+
   completeStep(sessionId: string, stepId: string, metadata?: Record<string, any>) {
     const step = this.findStep(sessionId, stepId);
     if (!step) return;
@@ -110,7 +121,7 @@ class WorkflowManager {
     if (!step) return;
 
     step.status = status;
-    step.completedAt = status === 'completed' || status === 'error'
+    step.completedAt = status === 'completed' || status === 'error' || status === 'cancelled'
       ? Date.now()
       : step.completedAt;
     step.metadata = { ...step.metadata, ...metadata };
@@ -134,6 +145,23 @@ class WorkflowManager {
     this.updateRunTimestamp(sessionId);
   }
 
+  // 取消执行时，将所有未结束的节点标记为已取消
+  cancelOpenSteps(sessionId: string, reason?: string) {
+    const run = this.getRun(sessionId);
+    if (!run) return;
+
+    for (const step of run.steps) {
+      if (step.status === 'pending' || step.status === 'in_progress') {
+        step.status = 'cancelled';
+        step.completedAt = Date.now();
+        if (reason) {
+          step.metadata = { ...step.metadata, cancelledReason: reason };
+        }
+      }
+    }
+    this.updateRunTimestamp(sessionId);
+  }
+
   findStep(sessionId: string, stepId: string): WorkflowStep | undefined {
     const run = this.getRun(sessionId);
     return run?.steps.find(step => step.id === stepId);
@@ -0,0 +1,111 @@
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { afterAll, afterEach, beforeAll, describe, expect, it, vi } from 'vitest';
+import { CodebaseIndexer, collectionNameFor, getIndexer } from './indexer';
+
+let root: string;
+let previousRoot: string | undefined;
+
+beforeAll(async () => {
+  root = await fs.realpath(await fs.mkdtemp(path.join(os.tmpdir(), 'indexer-')));
+  previousRoot = process.env.WORKSPACE_PATH;
+  process.env.WORKSPACE_PATH = root;
+  await fs.mkdir(path.join(root, 'alive'));
+});
+
+afterAll(async () => {
+  if (previousRoot === undefined) delete process.env.WORKSPACE_PATH;
+  else process.env.WORKSPACE_PATH = previousRoot;
+  await fs.rm(root, { recursive: true, force: true });
+});
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+// Chroma 客户端替身：集合只记录名称和元数据
+function stubClient(workspacePaths: string[], hasLegacy = true) {
+  const collections = new Map<string, { name: string; metadata: Record<string, unknown>; count: () => Promise<number> }>();
+  for (const workspacePath of workspacePaths) {
+    const name = collectionNameFor(workspacePath);
+    collections.set(name, { name, metadata: { workspacePath }, count: async () => 1 });
+  }
+  if (hasLegacy) {
+    collections.set('codebase', { name: 'codebase', metadata: {}, count: async () => 1 });
+  }
+  return {
+    collections,
+    heartbeat: async () => Date.now(),
+    getCollection: async ({ name }: { name: string }) => {
+      throw new Error(`Collection ${name} does not exist`);
+    },
+    createCollection: async ({ name }: { name: string }) => ({ name }),
+    listCollections: async ({ limit, offset }: { limit: number; offset: number }) =>
+      Array.from(collections.values()).slice(offset, offset + limit),
+    deleteCollection: async ({ name }: { name: string }) => {
+      if (!collections.delete(name)) throw new Error(`Collection ${name} does not exist`);
+    },
+  };
+}
+
+describe('collectGarbage', () => {
+  it('removes only collections of deleted workspaces under this server root', async () => {
+    const alive = path.join(root, 'alive');
+    const deleted = path.join(root, 'deleted');
+    const otherDeployment = '/srv/other-deployment/workspace/session-1';
+    const client = stubClient([alive, deleted, otherDeployment]);
+
+    const removed = await new CodebaseIndexer(client).collectGarbage();
+
+    expect(removed).toEqual([collectionNameFor(deleted)]);
+    expect(client.collections.has(collectionNameFor(alive))).toBe(true);
+    expect(client.collections.has(collectionNameFor(otherDeployment))).toBe(true);
+    expect(client.collections.has('codebase')).toBe(true);
+  });
+
+  it('keeps collections whose workspace cannot be checked for reasons other than ENOENT', async () => {
+    const unreadable = path.join(root, 'unreadable');
+    const client = stubClient([unreadable], false);
+    vi.spyOn(fs, 'stat').mockRejectedValue(Object.assign(new Error('permission denied'), { code: 'EACCES' }));
+
+    expect(await new CodebaseIndexer(client).collectGarbage()).toEqual([]);
+    expect(client.collections.has(collectionNameFor(unreadable))).toBe(true);
+  });
+
+  it('removes the legacy collection only when asked', async () => {
+    const client = stubClient([]);
+
+    expect(await new CodebaseIndexer(client).collectGarbage({ includeLegacy: true })).toEqual(['codebase']);
+    expect(client.collections.has('codebase')).toBe(false);
+  });
+});
+
+describe('getIndexer', () => {
+  it('retries after a failed initialization', async () => {
+    vi.spyOn(CodebaseIndexer.prototype, 'initialize').mockRejectedValueOnce(new Error('Chroma is not running'));
+    await expect(getIndexer()).rejects.toThrow('Chroma is not running');
+    vi.restoreAllMocks();
+
+    const initialize = vi.spyOn(CodebaseIndexer.prototype, 'initialize').mockResolvedValue(undefined);
+    vi.spyOn(CodebaseIndexer.prototype, 'collectGarbage').mockResolvedValue([]);
+    vi.spyOn(CodebaseIndexer.prototype, 'watchIndexedWorkspaces').mockResolvedValue(undefined);
+    await expect(getIndexer()).resolves.toBeInstanceOf(CodebaseIndexer);
+    expect(initialize).toHaveBeenCalledTimes(1);
+  });
+
+  it('shares one initialization between concurrent first calls', async () => {
+    vi.resetModules();
+    const { CodebaseIndexer: Indexer, getIndexer: freshGetIndexer } = await import('./indexer');
+    const initialize = vi.spyOn(Indexer.prototype, 'initialize').mockResolvedValue(undefined);
+    const collectGarbage = vi.spyOn(Indexer.prototype, 'collectGarbage').mockResolvedValue([]);
+    vi.spyOn(Indexer.prototype, 'watchIndexedWorkspaces').mockResolvedValue(undefined);
+
+    const [first, second] = await Promise.all([freshGetIndexer(), freshGetIndexer()]);
+
+    expect(first).toBe(second);
+    expect(await freshGetIndexer()).toBe(first);
+    expect(initialize).toHaveBeenCalledTimes(1);
+    expect(collectGarbage).toHaveBeenCalledTimes(1);
+  });
+});
@@ -2,38 +2,155 @@
 import { ChromaClient } from 'chromadb';
 import * as parser from '@babel/parser';
 import traverse from '@babel/traverse';
+import crypto from 'crypto';
 import fs from 'fs/promises';
 import path from 'path';
-import { CodeChunk, SearchResult } from './types';
+import { CodeChunk, SearchResult, SearchOptions, IndexStatus, WorkspaceIndex, FileIndexResult } from './types';
+import { shouldSkipDir } from './skip-dirs';
+import { globToRegExp } from '../utils/glob';
+import { IndexWatcher } from './watcher';
+import { getWorkspaceRoot } from '../workspace/paths';
+
+// 索引的代码文件扩展名及其语言
+export const CODE_LANGUAGES: Record<string, string> = {
+  '.ts': 'typescript', '.tsx': 'typescript',
+  '.js': 'javascript', '.jsx': 'javascript',
+  '.py': 'python', '.java': 'java',
+  '.cpp': 'cpp', '.c': 'c', '.h': 'c',
+  '.go': 'go', '.rs': 'rust', '.rb': 'ruby', '.php': 'php',
+  '.vue': 'vue', '.svelte': 'svelte',
+};
+
+// 按文件 glob 过滤时多取的候选数量（glob 无法交给 Chroma 过滤）
+const GLOB_CANDIDATE_FACTOR = 5;
+const MAX_CANDIDATES = 100;
+
+// 每个工作空间一个集合：codebase-<工作空间路径的哈希>
+const COLLECTION_PREFIX = 'codebase-';
+// 旧版本所有会话共用的集合，只在显式请求时删除
+const LEGACY_COLLECTION = 'codebase';
+// 从集合恢复内容哈希清单时每页读取的块数
+const MANIFEST_PAGE_SIZE = 500;
+
+function hashContent(content: string): string {
+  return crypto.createHash('sha256').update(content).digest('hex');
+}
+
+/**
+ * 工作空间对应的集合名（路径哈希，满足 Chroma 对集合名的字符限制）
+ */
+export function collectionNameFor(workspacePath: string): string {
+  const hash = crypto.createHash('sha256').update(path.resolve(workspacePath)).digest('hex');
+  return `${COLLECTION_PREFIX}${hash.slice(0, 16)}`;
+}
+
+// 索引器用到的 Chroma 客户端接口（测试中可以传入替身）
+export interface IndexerClient {
+  heartbeat(): Promise<unknown>;
+  getCollection(args: { name: string }): Promise<any>;
+  createCollection(args: { name: string; metadata?: Record<string, string | number | boolean> }): Promise<any>;
+  listCollections(args: { limit: number; offset: number }): Promise<{
+    name: string;
+    metadata?: Record<string, unknown> | null;
+    count(): Promise<number>;
+  }[]>;
+  deleteCollection(args: { name: string }): Promise<void>;
+}
 
 export class CodebaseIndexer {
-  private client: ChromaClient;
-  private collection: any;
+  private client: IndexerClient;
+  private collections: Map<string, any> = new Map(); // 工作空间路径 -> 集合
+  private statuses: Map<string, IndexStatus> = new Map(); // 工作空间路径 -> 索引进度
+  private manifests: Map<string, Promise<Map<string, string>>> = new Map(); // 工作空间路径 -> (相对路径 -> 内容哈希)
+  private fileLocks: Map<string, Promise<unknown>> = new Map(); // 文件绝对路径 -> 正在进行的索引操作
+  private watcher: IndexWatcher;
   private glmApiKey: string;
   private glmBaseUrl: string;
   
-  constructor() {
+  constructor(client: IndexerClient = new ChromaClient()) {
     this.glmApiKey = process.env.GLM_API_KEY || '';
     this.glmBaseUrl = 'https://open.bigmodel.cn/api/paas/v4';
     
-    // 初始化 ChromaDB 客户端
-    this.client = new ChromaClient();
+    // ChromaDB 客户端
+    this.client = client;
+    // 已索引的工作空间中文件改动后增量更新
+    this.watcher = new IndexWatcher(
+      (workspacePath, filePaths) => this.updateFiles(workspacePath, filePaths),
+      filePath => this.isIndexable(filePath)
+    );
+  }
+  
+  // 检查 Chroma 是否可用（集合按工作空间在首次使用时创建）
+  async initialize() {
+    await this.client.heartbeat();
   }
   
-  async initialize(collectionName = 'codebase') {
+  // 获取工作空间的集合；create 为 false 且集合不存在时返回 null
+  private async getCollection(workspacePath: string, create = true): Promise<any | null> {
+    const resolved = path.resolve(workspacePath);
+    const cached = this.collections.get(resolved);
+    if (cached) return cached;
+    
+    const name = collectionNameFor(resolved);
+    let collection;
     try {
       // 尝试获取已存在的集合
-      this.collection = await this.client.getCollection({
-        name: collectionName
-      });
-      console.log(`Using existing collection: ${collectionName}`);
+      collection = await this.client.getCollection({ name });
     } catch (error) {
-      // 如果不存在，创建新集合
-      this.collection = await this.client.createCollection({
-        name: collectionName,
-        metadata: { 'hnsw:space': 'cosine' }
+      if (!create) return null;
+      // 如果不存在，创建新集合（元数据记录所属工作空间，用于注册表和垃圾回收）
+      collection = await this.client.createCollection({
+        name,
+        metadata: {
+          'hnsw:space': 'cosine',
+          workspacePath: resolved,
+          sessionId: path.basename(resolved),
+        }
       });
-      console.log(`Created new collection: ${collectionName}`);
+      console.log(`Created new collection: ${name} (${resolved})`);
+    }
+    this.collections.set(resolved, collection);
+    return collection;
+  }
+  
+  // 工作空间的内容哈希清单，首次使用时从块的元数据中恢复（同一工作空间只加载一次）
+  private getManifest(workspacePath: string, collection: any): Promise<Map<string, string>> {
+    const resolved = path.resolve(workspacePath);
+    let manifest = this.manifests.get(resolved);
+    if (!manifest) {
+      manifest = this.loadManifest(collection);
+      this.manifests.set(resolved, manifest);
+      manifest.catch(() => this.manifests.delete(resolved));
+    }
+    return manifest;
+  }
+  
+  private async loadManifest(collection: any): Promise<Map<string, string>> {
+    const manifest = new Map<string, string>();
+    for (let offset = 0; ; offset += MANIFEST_PAGE_SIZE) {
+      const page = await collection.get({ include: ['metadatas'], limit: MANIFEST_PAGE_SIZE, offset });
+      for (const metadata of page.metadatas) {
+        if (metadata?.filePath) {
+          // 旧版本建立的块没有哈希，记为空串，下次索引时重新 embedding
+          manifest.set(String(metadata.filePath), String(metadata.contentHash || ''));
+        }
+      }
+      if (page.ids.length < MANIFEST_PAGE_SIZE) break;
+    }
+    return manifest;
+  }
+  
+  // 同一文件的索引操作串行执行（全量索引和文件监听可能同时处理同一文件）
+  private async withFileLock<T>(key: string, task: () => Promise<T>): Promise<T> {
+    const previous = this.fileLocks.get(key) || Promise.resolve();
+    const current = previous.catch(() => {}).then(task);
+    this.fileLocks.set(key, current);
+    try {
+      return await current;
+    } finally {
+      if (this.fileLocks.get(key) === current) {
+        this.fileLocks.delete(key);
+      }
     }
   }
   
@@ -179,106 +296,263 @@ export class CodebaseIndexer {
     return chunks;
   }
   
-  // 索引单个文件
-  async indexFile(filePath: string, workspacePath: string): Promise<number> {
+  /**
+   * 增量索引单个文件（相对工作空间的路径）：内容哈希与清单一致时跳过；
+   * 文件已删除或不再需要索引时清除它的块
+   */
+  async indexFile(filePath: string, workspacePath: string): Promise<FileIndexResult> {
+    const fullPath = path.resolve(workspacePath, filePath);
+    return this.withFileLock(fullPath, () => this.syncFile(filePath, workspacePath));
+  }
+  
+  private async syncFile(filePath: string, workspacePath: string): Promise<FileIndexResult> {
     const fullPath = path.join(workspacePath, filePath);
+    const collection = await this.getCollection(workspacePath);
+    const manifest = await this.getManifest(workspacePath, collection);
     
+    const removeChunks = async (): Promise<FileIndexResult> => {
+      if (!manifest.has(filePath)) return 'unchanged';
+      await collection.delete({ where: { filePath } });
+      manifest.delete(filePath);
+      console.log(`Removed ${filePath} from index`);
+      return 'removed';
+    };
+    
+    if (!this.isIndexable(filePath)) {
+      return removeChunks();
+    }
+    
+    let content: string;
     try {
-      const content = await fs.readFile(fullPath, 'utf-8');
-      
-      // 解析代码
-      const chunks = await this.parseCode(content, filePath);
-      
-      console.log(`Indexing ${filePath}: ${chunks.length} chunks`);
-      
-      // 为每个块生成 embedding 并存储
-      for (const chunk of chunks) {
-        try {
-          const embedding = await this.generateEmbedding(chunk.text);
-          
-          await this.collection.add({
-            ids: [chunk.id],
-            embeddings: [embedding],
-            documents: [chunk.text],
-            metadatas: [{
-              filePath,
-              type: chunk.type,
-              name: chunk.name || '',
-              startLine: chunk.startLine,
-              endLine: chunk.endLine,
-            }]
-          });
-        } catch (error) {
-          console.error(`Error indexing chunk ${chunk.id}:`, error);
-          // 继续处理下一个块
-        }
+      content = await fs.readFile(fullPath, 'utf-8');
+    } catch (error: any) {
+      if (error.code === 'ENOENT') {
+        return removeChunks();
       }
-      
-      return chunks.length;
-    } catch (error) {
       console.error(`Error indexing file ${filePath}:`, error);
       throw error;
     }
+    
+    const contentHash = hashContent(content);
+    if (manifest.get(filePath) === contentHash) {
+      return 'unchanged';
+    }
+    
+    // 解析代码；块 ID 由位置和内容决定，重新索引时可以直接 upsert（同一位置的重复块只保留一个）
+    const chunks = new Map<string, CodeChunk>();
+    for (const chunk of await this.parseCode(content, filePath)) {
+      const id = `${filePath}:${chunk.startLine}-${chunk.endLine}:${hashContent(chunk.type + chunk.text).slice(0, 12)}`;
+      chunks.set(id, { ...chunk, id });
+    }
+    
+    console.log(`Indexing ${filePath}: ${chunks.size} chunks`);
+    
+    // 所有块的 embedding 都生成成功后才替换旧块，失败时保留旧索引，下次索引时重试
+    const entries = Array.from(chunks.values());
+    const embeddings: number[][] = [];
+    for (const chunk of entries) {
+      embeddings.push(await this.generateEmbedding(chunk.text));
+    }
+    
+    await collection.delete({ where: { filePath } });
+    if (entries.length > 0) {
+      const language = CODE_LANGUAGES[path.extname(filePath).toLowerCase()] || 'text';
+      await collection.upsert({
+        ids: entries.map(chunk => chunk.id),
+        embeddings,
+        documents: entries.map(chunk => chunk.text),
+        metadatas: entries.map(chunk => ({
+          filePath,
+          contentHash,
+          language,
+          type: chunk.type,
+          name: chunk.name || '',
+          startLine: chunk.startLine,
+          endLine: chunk.endLine,
+        }))
+      });
+    }
+    manifest.set(filePath, contentHash);
+    return 'indexed';
   }
   
-  // 搜索相关代码
-  async search(query: string, topK = 5): Promise<SearchResult[]> {
+  /**
+   * 增量更新指定文件（文件监听、应用检查点后调用）；工作空间还没有索引时忽略
+   */
+  async updateFiles(workspacePath: string, filePaths: string[]): Promise<void> {
+    const resolved = path.resolve(workspacePath);
+    const collection = await this.getCollection(resolved, false);
+    if (!collection) return;
+    const manifest = await this.getManifest(resolved, collection);
+    
+    const targets = new Set<string>();
+    for (const filePath of filePaths) {
+      const relativePath = path.relative(resolved, path.resolve(resolved, filePath));
+      if (!relativePath || relativePath === '..' || relativePath.startsWith(`..${path.sep}`)) continue;
+      targets.add(relativePath);
+      // 删除或移动的是目录时，同时处理目录下已索引的文件
+      Array.from(manifest.keys())
+        .filter(indexed => indexed.startsWith(`${relativePath}${path.sep}`))
+        .forEach(indexed => targets.add(indexed));
+    }
+    
+    for (const relativePath of Array.from(targets)) {
+      try {
+        await this.indexFile(relativePath, resolved);
+      } catch (error) {
+        console.error(`Failed to update index for ${relativePath}:`, error);
+      }
+    }
+  }
+  
+  /**
+   * 文件被修改后通知索引器（例如应用检查点）：合并到监听器的下一批更新中，并确保该工作空间在监听中
+   */
+  async notifyChanged(workspacePath: string, filePaths: string[]): Promise<void> {
+    if (!(await this.getCollection(workspacePath, false))) return;
+    this.watcher.watch(workspacePath);
+    this.watcher.schedule(workspacePath, filePaths);
+  }
+  
+  /**
+   * 监听所有已索引且工作空间仍存在的会话（服务启动时调用）
+   */
+  async watchIndexedWorkspaces(): Promise<void> {
+    for (const index of await this.listIndexes()) {
+      if (index.chunkCount === 0 || !isOwnWorkspace(index.workspacePath)) continue;
+      const exists = await fs.access(index.workspacePath).then(() => true, () => false);
+      if (exists) {
+        this.watcher.watch(index.workspacePath);
+      }
+    }
+  }
+  
+  // 在工作空间的集合中搜索相关代码（块类型、语言由 Chroma 过滤，文件 glob 在结果中过滤）
+  async search(workspacePath: string, query: string, options: SearchOptions = {}): Promise<SearchResult[]> {
+    const collection = await this.getCollection(workspacePath, false);
+    if (!collection) {
+      return []; // 该工作空间还没有索引
+    }
+    
+    const topK = options.topK || 5;
+    const conditions: Record<string, any>[] = [];
+    if (options.types?.length) conditions.push({ type: { $in: options.types } });
+    if (options.language) conditions.push({ language: options.language.toLowerCase() });
+    const filePattern = options.filePattern ? globToRegExp(options.filePattern) : null;
+
     try {
       const queryEmbedding = await this.generateEmbedding(query);
       
-      const results = await this.collection.query({
+      const results = await collection.query({
         queryEmbeddings: [queryEmbedding],
-        nResults: topK,
+        nResults: filePattern ? Math.min(topK * GLOB_CANDIDATE_FACTOR, MAX_CANDIDATES) : topK,
+        ...(conditions.length > 0 ? { where: conditions.length === 1 ? conditions[0] : { $and: conditions } } : {}),
       });
       
       if (!results.documents || !results.documents[0]) {
         return [];
       }
       
-      return results.documents[0].map((doc: string, i: number) => ({
+      const matches: SearchResult[] = results.documents[0].map((doc: string, i: number) => ({
         content: doc,
         filePath: results.metadatas[0][i].filePath,
         type: results.metadatas[0][i].type,
         name: results.metadatas[0][i].name || undefined,
+        language: results.metadatas[0][i].language || undefined,
         startLine: results.metadatas[0][i].startLine,
         endLine: results.metadatas[0][i].endLine,
         distance: results.distances[0][i],
         similarity: Number((1 - results.distances[0][i]).toFixed(3)),
       }));
+      return matches
+        .filter(result => !filePattern || filePattern.test(result.filePath.split(path.sep).join('/')))
+        .slice(0, topK);
     } catch (error) {
       console.error('Error searching:', error);
       throw error;
     }
   }
   
-  // 索引整个工作空间
+  // 索引整个工作空间：只重新 embedding 内容变化的文件，清除已删除（或移动走）的文件，完成后开始监听
   async indexWorkspace(
     workspacePath: string,
     onProgress?: (processed: number, total: number, currentFile: string) => void
   ): Promise<void> {
-    const files = await this.walkDir(workspacePath);
-    const codeFiles = files.filter(f => this.isCodeFile(f) && !this.shouldSkip(f));
-    
-    console.log(`Found ${codeFiles.length} code files to index`);
+    const resolved = path.resolve(workspacePath);
+    if (this.statuses.get(resolved)?.isIndexing) {
+      throw new Error('该工作空间正在索引中');
+    }
+    const status: IndexStatus = { isIndexing: true, totalFiles: 0, processedFiles: 0 };
+    this.statuses.set(resolved, status);
     
-    let processed = 0;
-    for (const file of codeFiles) {
-      const relativePath = path.relative(workspacePath, file);
+    try {
+      const files = await this.walkDir(workspacePath);
+      const codeFiles = files.filter(f => this.isCodeFile(f) && !this.shouldSkip(f));
+      status.totalFiles = codeFiles.length;
       
-      try {
-        await this.indexFile(relativePath, workspacePath);
-        processed++;
+      console.log(`Found ${codeFiles.length} code files to index`);
+      
+      let processed = 0;
+      let changed = 0;
+      const seen = new Set<string>();
+      for (const file of codeFiles) {
+        const relativePath = path.relative(workspacePath, file);
+        status.currentFile = relativePath;
+        seen.add(relativePath);
         
-        if (onProgress) {
-          onProgress(processed, codeFiles.length, relativePath);
+        try {
+          if (await this.indexFile(relativePath, workspacePath) === 'indexed') {
+            changed++;
+          }
+          processed++;
+          status.processedFiles = processed;
+          
+          if (onProgress) {
+            onProgress(processed, codeFiles.length, relativePath);
+          }
+        } catch (error) {
+          console.error(`Failed to index ${relativePath}:`, error);
+          // 继续处理下一个文件
         }
-      } catch (error) {
-        console.error(`Failed to index ${relativePath}:`, error);
-        // 继续处理下一个文件
       }
+      
+      // 清单中有、磁盘上已没有的文件
+      let removed = 0;
+      const manifest = await this.getManifest(resolved, await this.getCollection(resolved));
+      for (const filePath of Array.from(manifest.keys())) {
+        if (seen.has(filePath)) continue;
+        try {
+          if (await this.indexFile(filePath, workspacePath) === 'removed') {
+            removed++;
+          }
+        } catch (error) {
+          console.error(`Failed to remove ${filePath} from index:`, error);
+        }
+      }
+      
+      status.indexedAt = Date.now();
+      status.changedFiles = changed;
+      status.removedFiles = removed;
+      this.watcher.watch(resolved);
+      console.log(`Indexing complete: ${processed}/${codeFiles.length} files (${changed} changed, ${removed} removed)`);
+    } catch (error: any) {
+      status.error = error.message;
+      throw error;
+    } finally {
+      status.isIndexing = false;
+      status.currentFile = undefined;
     }
-    
-    console.log(`Indexing complete: ${processed}/${codeFiles.length} files`);
+  }
+  
+  /**
+   * 工作空间的索引状态：进度（本次服务运行期间）和已索引的块数
+   */
+  async getStatus(workspacePath: string): Promise<IndexStatus & { indexed: boolean; chunkCount: number }> {
+    const resolved = path.resolve(workspacePath);
+    const status = this.statuses.get(resolved) || { isIndexing: false, totalFiles: 0, processedFiles: 0 };
+    const collection = await this.getCollection(resolved, false);
+    const chunkCount = collection ? await collection.count() : 0;
+    return { ...status, indexed: chunkCount > 0, chunkCount };
   }
   
   // 递归遍历目录
@@ -308,23 +582,12 @@ export class CodebaseIndexer {
   
   // 判断是否为代码文件
   private isCodeFile(filename: string): boolean {
-    const codeExts = [
-      '.ts', '.tsx', '.js', '.jsx',
-      '.py', '.java', '.cpp', '.c', '.h',
-      '.go', '.rs', '.rb', '.php',
-      '.vue', '.svelte'
-    ];
-    return codeExts.some(ext => filename.endsWith(ext));
+    return path.extname(filename).toLowerCase() in CODE_LANGUAGES;
   }
   
   // 判断是否应该跳过目录
   private shouldSkipDir(dirname: string): boolean {
-    const skipDirs = [
-      'node_modules', '.git', 'dist', 'build',
-      '.next', 'out', 'coverage', '.vscode',
-      '__pycache__', 'venv', '.pytest_cache'
-    ];
-    return skipDirs.includes(dirname);
+    return shouldSkipDir(dirname);
   }
   
   // 判断是否应该跳过文件
@@ -333,26 +596,124 @@ export class CodebaseIndexer {
     return filePath.split(path.sep).some(part => skipDirs(part));
   }
   
-  // 清除索引
-  async clearIndex(): Promise<void> {
+  // 相对工作空间的路径是否需要索引
+  private isIndexable(filePath: string): boolean {
+    return this.isCodeFile(filePath) && !this.shouldSkip(filePath);
+  }
+  
+  // 清除工作空间的索引（只删除该工作空间的集合）
+  async clearIndex(workspacePath: string): Promise<void> {
+    const resolved = path.resolve(workspacePath);
+    if (this.statuses.get(resolved)?.isIndexing) {
+      throw new Error('该工作空间正在索引中，无法清除');
+    }
+    const name = collectionNameFor(resolved);
+    await this.watcher.unwatch(resolved);
+    this.collections.delete(resolved);
+    this.statuses.delete(resolved);
+    this.manifests.delete(resolved);
     try {
-      await this.client.deleteCollection({ name: 'codebase' });
-      console.log('Index cleared');
-      await this.initialize();
+      await this.client.deleteCollection({ name });
+      console.log(`Index cleared: ${name}`);
     } catch (error) {
-      console.error('Error clearing index:', error);
+      // 集合不存在（从未索引）
+      console.log(`No index to clear for ${resolved}`);
+    }
+  }
+  
+  /**
+   * 索引注册表：Chroma 中所有工作空间集合及其所属会话（集合创建时记录在元数据中）
+   */
+  async listIndexes(): Promise<WorkspaceIndex[]> {
+    const indexes: WorkspaceIndex[] = [];
+    const pageSize = 100;
+    for (let offset = 0; ; offset += pageSize) {
+      const collections = await this.client.listCollections({ limit: pageSize, offset });
+      for (const collection of collections) {
+        if (!collection.name.startsWith(COLLECTION_PREFIX)) continue;
+        indexes.push({
+          collection: collection.name,
+          sessionId: String(collection.metadata?.sessionId || ''),
+          workspacePath: String(collection.metadata?.workspacePath || ''),
+          chunkCount: await collection.count(),
+        });
+      }
+      if (collections.length < pageSize) break;
+    }
+    return indexes;
+  }
+  
+  /**
+   * 垃圾回收：删除本服务工作空间根目录下、目录已不存在（会话已删除）的集合。
+   * 其他部署的集合（共享 Chroma）和访问出错（挂载、权限问题）的集合一律保留；
+   * includeLegacy 为 true 时同时删除旧版本所有会话共用的集合。返回删除的集合名
+   */
+  async collectGarbage(options: { includeLegacy?: boolean } = {}): Promise<string[]> {
+    const removed: string[] = [];
+    for (const index of await this.listIndexes()) {
+      if (!isOwnWorkspace(index.workspacePath)) continue;
+      if (this.statuses.get(index.workspacePath)?.isIndexing) continue;
+      if (!(await workspaceDeleted(index.workspacePath))) continue;
+      
+      await this.client.deleteCollection({ name: index.collection });
+      await this.watcher.unwatch(index.workspacePath);
+      this.collections.delete(index.workspacePath);
+      this.statuses.delete(index.workspacePath);
+      this.manifests.delete(index.workspacePath);
+      removed.push(index.collection);
+    }
+    
+    if (options.includeLegacy) {
+      try {
+        await this.client.deleteCollection({ name: LEGACY_COLLECTION });
+        removed.push(LEGACY_COLLECTION);
+      } catch {
+        // 旧集合不存在
+      }
+    }
+    
+    if (removed.length > 0) {
+      console.log(`Removed stale index collections: ${removed.join(', ')}`);
     }
+    return removed;
   }
 }
 
-// 单例
-let indexerInstance: CodebaseIndexer | null = null;
+// 集合记录的工作空间是否为本服务工作空间根目录下的会话目录
+function isOwnWorkspace(workspacePath: string): boolean {
+  return !!workspacePath && path.dirname(path.resolve(workspacePath)) === getWorkspaceRoot();
+}
 
-export async function getIndexer(): Promise<CodebaseIndexer> {
-  if (!indexerInstance) {
-    indexerInstance = new CodebaseIndexer();
-    await indexerInstance.initialize();
+// 工作空间目录确实已被删除（ENOENT）；其他错误视为仍然存在
+async function workspaceDeleted(workspacePath: string): Promise<boolean> {
+  try {
+    await fs.stat(workspacePath);
+    return false;
+  } catch (error: any) {
+    return error?.code === 'ENOENT';
   }
-  return indexerInstance;
 }
 
+// 单例（并发的首次调用共用同一个初始化）
+let indexerPromise: Promise<CodebaseIndexer> | null = null;
+
+export function getIndexer(): Promise<CodebaseIndexer> {
+  if (!indexerPromise) {
+    indexerPromise = createIndexer();
+    // 初始化失败时不缓存（Chroma 未启动时下次调用重试）
+    indexerPromise.catch(() => {
+      indexerPromise = null;
+    });
+  }
+  return indexerPromise;
+}
+
+async function createIndexer(): Promise<CodebaseIndexer> {
+  const indexer = new CodebaseIndexer();
+  await indexer.initialize();
+  // 启动时清理本服务已删除会话的集合，再监听其余已索引的工作空间（不阻塞本次请求）
+  indexer.collectGarbage()
+    .then(() => indexer.watchIndexedWorkspaces())
+    .catch(error => console.error('Index startup maintenance failed:', error));
+  return indexer;
+}
@@ -0,0 +1,11 @@
+// 遍历工作区时跳过的目录（依赖、构建产物、缓存），代码索引和 grep 工具共用
+
+export const SKIP_DIRS = [
+  'node_modules', '.git', 'dist', 'build',
+  '.next', 'out', 'coverage', '.vscode',
+  '__pycache__', 'venv', '.pytest_cache'
+];
+
+export function shouldSkipDir(dirname: string): boolean {
+  return SKIP_DIRS.includes(dirname);
+}
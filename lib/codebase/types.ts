@@ -14,16 +14,39 @@ export interface SearchResult {
   filePath: string;
   type: string;
   name?: string;
+  language?: string;
   startLine: number;
   endLine: number;
   distance: number;
   similarity: number;
 }
 
+export interface SearchOptions {
+  topK?: number;
+  filePattern?: string; // 文件路径 glob，例如 src/**/*.ts
+  types?: CodeChunk['type'][];
+  language?: string; // 见 indexer 的 CODE_LANGUAGES，例如 typescript、python
+}
+
 export interface IndexStatus {
   isIndexing: boolean;
   totalFiles: number;
   processedFiles: number;
   currentFile?: string;
+  indexedAt?: number; // 最近一次索引完成的时间（服务重启后为空）
+  changedFiles?: number; // 最近一次索引中重新 embedding 的文件数（其余文件内容未变化）
+  removedFiles?: number; // 最近一次索引中清除的已删除文件数
+  error?: string;
+}
+
+// 单个文件的增量索引结果
+export type FileIndexResult = 'indexed' | 'unchanged' | 'removed';
+
+// 索引注册表中的一项：一个工作空间对应一个 Chroma 集合
+export interface WorkspaceIndex {
+  collection: string;
+  sessionId: string;
+  workspacePath: string;
+  chunkCount: number;
 }
 
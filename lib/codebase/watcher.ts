@@ -0,0 +1,96 @@
+// 索引文件监听 - 用 chokidar 监听已索引的工作空间，文件保存、删除后合并短时间内的改动交给索引器增量更新
+import { watch, FSWatcher } from 'chokidar';
+import path from 'path';
+import { shouldSkipDir } from './skip-dirs';
+
+// 合并连续保存（编辑器自动保存、批量应用检查点）的等待时间
+const DEBOUNCE_MS = 500;
+
+export type ReindexHandler = (workspacePath: string, filePaths: string[]) => Promise<void>;
+
+export class IndexWatcher {
+  private watchers: Map<string, FSWatcher> = new Map(); // 工作空间路径 -> 监听器
+  private pending: Map<string, Set<string>> = new Map(); // 工作空间路径 -> 待更新的相对路径
+  private timers: Map<string, NodeJS.Timeout> = new Map();
+  private flushing: Set<string> = new Set();
+
+  constructor(
+    private handler: ReindexHandler,
+    private isIndexable: (filePath: string) => boolean
+  ) {}
+
+  isWatching(workspacePath: string): boolean {
+    return this.watchers.has(path.resolve(workspacePath));
+  }
+
+  // 开始监听工作空间（已在监听时忽略）
+  watch(workspacePath: string): void {
+    const resolved = path.resolve(workspacePath);
+    if (this.watchers.has(resolved)) return;
+
+    const watcher = watch(resolved, {
+      ignoreInitial: true,
+      // 跳过依赖、构建产物目录和非代码文件
+      ignored: (filePath, stats) => {
+        const relativePath = path.relative(resolved, filePath);
+        if (relativePath.split(path.sep).some(part => shouldSkipDir(part))) return true;
+        return !!stats?.isFile() && !this.isIndexable(relativePath);
+      },
+    });
+    const onChange = (filePath: string) => this.schedule(resolved, [path.relative(resolved, filePath)]);
+    watcher.on('add', onChange);
+    watcher.on('change', onChange);
+    watcher.on('unlink', onChange);
+    watcher.on('error', error => console.error(`Index watcher error (${resolved}):`, error));
+
+    this.watchers.set(resolved, watcher);
+    console.log(`Watching ${resolved} for index updates`);
+  }
+
+  // 停止监听并丢弃未处理的改动
+  async unwatch(workspacePath: string): Promise<void> {
+    const resolved = path.resolve(workspacePath);
+    const watcher = this.watchers.get(resolved);
+    clearTimeout(this.timers.get(resolved));
+    this.timers.delete(resolved);
+    this.pending.delete(resolved);
+    if (watcher) {
+      this.watchers.delete(resolved);
+      await watcher.close();
+    }
+  }
+
+  /**
+   * 记录改动的文件（相对工作空间的路径），等待 DEBOUNCE_MS 没有新改动后统一更新
+   */
+  schedule(workspacePath: string, filePaths: string[]): void {
+    const resolved = path.resolve(workspacePath);
+    const pending = this.pending.get(resolved) || new Set<string>();
+    filePaths.forEach(filePath => pending.add(filePath));
+    this.pending.set(resolved, pending);
+
+    clearTimeout(this.timers.get(resolved));
+    this.timers.set(resolved, setTimeout(() => this.flush(resolved), DEBOUNCE_MS));
+  }
+
+  // 同一工作空间一次只处理一批，处理期间的改动留到下一批
+  private async flush(workspacePath: string): Promise<void> {
+    this.timers.delete(workspacePath);
+    if (this.flushing.has(workspacePath)) {
+      this.timers.set(workspacePath, setTimeout(() => this.flush(workspacePath), DEBOUNCE_MS));
+      return;
+    }
+    const pending = this.pending.get(workspacePath);
+    if (!pending || pending.size === 0) return;
+    this.pending.delete(workspacePath);
+
+    this.flushing.add(workspacePath);
+    try {
+      await this.handler(workspacePath, Array.from(pending));
+    } catch (error) {
+      console.error(`Failed to update index for ${workspacePath}:`, error);
+    } finally {
+      this.flushing.delete(workspacePath);
+    }
+  }
+}
@@ -0,0 +1,165 @@
+// 成本账本 - 按会话汇总每次 LLM 调用的 token 用量和费用
+import { TokenUsage } from '../agent/types';
+
+/**
+ * 模型单价（每百万 token）
+ */
+export interface ModelPrice {
+  input: number;
+  output: number;
+}
+
+/**
+ * 账本条目（对应一次 LLM 调用）
+ */
+export interface CostLedgerEntry {
+  timestamp: number;
+  model: string;
+  role?: string;
+  usage: TokenUsage;
+  cost: number;
+  priced: boolean; // 价格表中没有该模型时为 false
+}
+
+/**
+ * 会话账本
+ */
+export interface CostLedger {
+  sessionId: string;
+  currency: string;
+  entries: CostLedgerEntry[];
+  totals: {
+    calls: number;
+    prompt: number;
+    completion: number;
+    total: number;
+    cost: number;
+    estimated: boolean; // 是否包含估算的用量
+  };
+  byModel: Record<string, { calls: number; total: number; cost: number }>;
+}
+
+// 默认价格表（美元 / 百万 token），可通过 LLM_PRICE_TABLE 覆盖或补充
+const DEFAULT_PRICE_TABLE: Record<string, ModelPrice> = {
+  'glm-4-flash': { input: 0, output: 0 },
+  'gpt-4o-mini': { input: 0.15, output: 0.6 },
+  'gpt-4o': { input: 2.5, output: 10 },
+  'gpt-4': { input: 30, output: 60 },
+  'claude-3-5-haiku': { input: 0.8, output: 4 },
+  'claude-3-5-sonnet': { input: 3, output: 15 },
+  'mock': { input: 0, output: 0 },
+};
+
+function loadPriceTable(): Record<string, ModelPrice> {
+  const custom = process.env.LLM_PRICE_TABLE;
+  if (!custom) return DEFAULT_PRICE_TABLE;
+
+  try {
+    return { ...DEFAULT_PRICE_TABLE, ...JSON.parse(custom) };
+  } catch (error: any) {
+    console.error('Invalid LLM_PRICE_TABLE:', error.message);
+    return DEFAULT_PRICE_TABLE;
+  }
+}
+
+/**
+ * 成本账本管理器
+ */
+export class CostLedgerManager {
+  private ledgers: Map<string, CostLedger> = new Map();
+  private priceTable: Record<string, ModelPrice>;
+  private currency: string;
+
+  constructor(priceTable = loadPriceTable(), currency = process.env.LLM_PRICE_CURRENCY || 'USD') {
+    this.priceTable = priceTable;
+    this.currency = currency;
+  }
+
+  /**
+   * 查找模型单价：精确匹配优先，否则使用最长的前缀匹配
+   * （例如 claude-3-5-sonnet-20241022 使用 claude-3-5-sonnet 的价格）
+   */
+  getPrice(model: string): ModelPrice | undefined {
+    if (this.priceTable[model]) {
+      return this.priceTable[model];
+    }
+
+    const prefix = Object.keys(this.priceTable)
+      .filter(key => model.startsWith(key))
+      .sort((a, b) => b.length - a.length)[0];
+    return prefix ? this.priceTable[prefix] : undefined;
+  }
+
+  /**
+   * 记录一次 LLM 调用
+   */
+  record(
+    sessionId: string,
+    model: string,
+    usage: TokenUsage,
+    role?: string
+  ): CostLedgerEntry {
+    const ledger = this.getOrCreate(sessionId);
+    const price = this.getPrice(model);
+    const cost = price
+      ? (usage.prompt * price.input + usage.completion * price.output) / 1_000_000
+      : 0;
+
+    const entry: CostLedgerEntry = {
+      timestamp: Date.now(),
+      model,
+      role,
+      usage,
+      cost,
+      priced: !!price,
+    };
+    ledger.entries.push(entry);
+
+    ledger.totals.calls++;
+    ledger.totals.prompt += usage.prompt;
+    ledger.totals.completion += usage.completion;
+    ledger.totals.total += usage.total;
+    ledger.totals.cost += cost;
+    ledger.totals.estimated = ledger.totals.estimated || !!usage.estimated;
+
+    const modelStats = ledger.byModel[model] || { calls: 0, total: 0, cost: 0 };
+    modelStats.calls++;
+    modelStats.total += usage.total;
+    modelStats.cost += cost;
+    ledger.byModel[model] = modelStats;
+
+    return entry;
+  }
+
+  /**
+   * 获取会话账本
+   */
+  getLedger(sessionId: string): CostLedger | undefined {
+    return this.ledgers.get(sessionId);
+  }
+
+  /**
+   * 清除会话账本
+   */
+  clearSession(sessionId: string): void {
+    this.ledgers.delete(sessionId);
+  }
+
+  private getOrCreate(sessionId: string): CostLedger {
+    let ledger = this.ledgers.get(sessionId);
+    if (!ledger) {
+      ledger = {
+        sessionId,
+        currency: this.currency,
+        entries: [],
+        totals: { calls: 0, prompt: 0, completion: 0, total: 0, cost: 0, estimated: false },
+        byModel: {},
+      };
+      this.ledgers.set(sessionId, ledger);
+    }
+    return ledger;
+  }
+}
+
+// 全局成本账本实例
+export const costLedger = new CostLedgerManager();
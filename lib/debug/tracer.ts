@@ -9,9 +9,13 @@ export type TraceEventType =
   | 'agent_end'
   | 'llm_call'
   | 'llm_response'
+  | 'llm_attempt'
   | 'tool_call'
   | 'tool_result'
   | 'error'
+  | 'cancelled'
+  | 'compaction'
+  | 'loop_detected'
   | 'thinking'
   | 'decision';
 
@@ -164,12 +168,16 @@ export class DebugTracer {
   startOperation(
     sessionId: string,
     type: TraceEventType,
-    data: any
+    data: any,
+    parallel = false
   ): string {
     const eventId = this.addEvent(sessionId, type, data);
-    const stack = this.currentEventStack.get(sessionId) || [];
-    stack.push(eventId);
-    this.currentEventStack.set(sessionId, stack);
+    // 并发执行的操作不入栈，避免后开始的操作被记录为前一个的子事件
+    if (!parallel) {
+      const stack = this.currentEventStack.get(sessionId) || [];
+      stack.push(eventId);
+      this.currentEventStack.set(sessionId, stack);
+    }
     return eventId;
   }
 
@@ -225,17 +233,23 @@ export class DebugTracer {
   }
 
   /**
-   * 追踪 LLM 响应
+   * 追踪 LLM 响应（记录的工具调用可被 mock 提供商回放）
    */
   traceLLMResponse(
     sessionId: string,
     eventId: string,
     response: string,
-    tokensUsed?: { prompt: number; completion: number; total: number }
+    tokensUsed?: { prompt: number; completion: number; total: number },
+    toolCalls?: { id: string; function: { name: string; arguments: string } }[]
   ): void {
     this.endOperation(sessionId, eventId, {
       response: response.slice(0, 500) + (response.length > 500 ? '...' : ''),
-      tokensUsed
+      tokensUsed,
+      toolCalls: toolCalls?.map(call => ({
+        id: call.id,
+        name: call.function.name,
+        arguments: call.function.arguments
+      }))
     });
   }
 
@@ -245,12 +259,14 @@ export class DebugTracer {
   traceToolCall(
     sessionId: string,
     toolName: string,
-    args: any
+    args: any,
+    parallel = false
   ): string {
     return this.startOperation(sessionId, 'tool_call', {
       toolName,
-      arguments: args
-    });
+      arguments: args,
+      ...(parallel ? { parallel: true } : {})
+    }, parallel);
   }
 
   /**
@@ -289,6 +305,40 @@ export class DebugTracer {
     });
   }
 
+  /**
+   * 追踪取消（关闭所有未结束的操作）
+   */
+  traceCancellation(sessionId: string, reason: string): void {
+    const stack = this.currentEventStack.get(sessionId) || [];
+    for (const eventId of [...stack].reverse()) {
+      this.endOperation(sessionId, eventId, { cancelled: true });
+    }
+    this.addEvent(sessionId, 'cancelled', { reason });
+  }
+
+  /**
+   * 追踪上下文压缩（对话摘要或工具结果截断）
+   */
+  traceCompaction(
+    sessionId: string,
+    kind: 'conversation' | 'tool_result',
+    details: Record<string, any>
+  ): void {
+    this.addEvent(sessionId, 'compaction', { kind, ...details });
+  }
+
+  /**
+   * 追踪循环检测（重复调用、结果不变、迭代没有进展）
+   */
+  traceLoopDetection(
+    sessionId: string,
+    pattern: string,
+    action: 'hint' | 'stop',
+    details: Record<string, any>
+  ): void {
+    this.addEvent(sessionId, 'loop_detected', { pattern, action, ...details });
+  }
+
   /**
    * 获取会话的所有事件
    */
@@ -3,6 +3,7 @@ import fs from 'fs/promises';
 import path from 'path';
 import yaml from 'js-yaml';
 import { ProjectSpec, ModuleSpec, ValidationResult } from './types';
+import { resolveWorkspacePath } from '../workspace/paths';
 
 export class SpecManager {
   private workspacePath: string;
@@ -32,7 +33,7 @@ export class SpecManager {
 
     const name = 'name' in spec ? spec.name : 'unnamed';
     const fileName = `${name}.spec.${format}`;
-    const filePath = path.join(this.specDir, fileName);
+    const filePath = await resolveWorkspacePath(this.specDir, fileName);
 
     let content: string;
     if (format === 'yaml') {
@@ -49,7 +50,7 @@ export class SpecManager {
    * 读取规格文件
    */
   async readSpec(fileName: string): Promise<ProjectSpec | ModuleSpec> {
-    const filePath = path.join(this.specDir, fileName);
+    const filePath = await resolveWorkspacePath(this.specDir, fileName);
     const content = await fs.readFile(filePath, 'utf-8');
 
     if (fileName.endsWith('.yaml') || fileName.endsWith('.yml')) {
@@ -76,7 +77,7 @@ export class SpecManager {
    * 更新规格文件
    */
   async updateSpec(fileName: string, spec: ProjectSpec | ModuleSpec): Promise<void> {
-    const filePath = path.join(this.specDir, fileName);
+    const filePath = await resolveWorkspacePath(this.specDir, fileName);
     const format = fileName.endsWith('.json') ? 'json' : 'yaml';
 
     let content: string;
@@ -93,7 +94,7 @@ export class SpecManager {
    * 删除规格文件
    */
   async deleteSpec(fileName: string): Promise<void> {
-    const filePath = path.join(this.specDir, fileName);
+    const filePath = await resolveWorkspacePath(this.specDir, fileName);
     await fs.unlink(filePath);
   }
 
@@ -1,49 +1,31 @@
 // SDD 相关的 Agent 工具
+import { z } from 'zod';
 import { Tool } from '../agent/types';
+import { defineTool } from '../agent/tool-schema';
 import { SpecManager } from './spec-manager';
 import { CodeGenerator } from './code-generator';
 import { ModuleSpec, ProjectSpec, CodeGenerationOptions } from './types';
 import path from 'path';
 import fs from 'fs/promises';
+import { resolveWorkspacePath } from '../workspace/paths';
 
 /**
  * 创建 Spec 工具
  */
-export const createSpecTool: Tool = {
+export const createSpecTool: Tool = defineTool({
   name: 'create_spec',
   description: 'Create a new specification file for a module or project. This helps define the structure, functions, and requirements before writing code.',
-  parameters: {
-    type: 'object',
-    properties: {
-      name: {
-        type: 'string',
-        description: 'Name of the module or project'
-      },
-      description: {
-        type: 'string',
-        description: 'Description of what this module/project does'
-      },
-      functions: {
-        type: 'array',
-        description: 'Array of function specifications',
-        items: {
-          type: 'object',
-          properties: {
-            name: { type: 'string' },
-            description: { type: 'string' },
-            parameters: { type: 'array' },
-            returns: { type: 'object' }
-          }
-        }
-      },
-      format: {
-        type: 'string',
-        enum: ['yaml', 'json'],
-        description: 'File format for the spec (default: yaml)'
-      }
-    },
-    required: ['name', 'description']
-  },
+  schema: z.object({
+    name: z.string().min(1).describe('Name of the module or project'),
+    description: z.string().describe('Description of what this module/project does'),
+    functions: z.array(z.object({
+      name: z.string(),
+      description: z.string().optional(),
+      parameters: z.array(z.any()).optional(),
+      returns: z.record(z.any()).optional(),
+    })).optional().describe('Array of function specifications'),
+    format: z.enum(['yaml', 'json']).optional().describe('File format for the spec (default: yaml)'),
+  }),
   execute: async ({ name, description, functions = [], format = 'yaml', workspacePath }) => {
     const specManager = new SpecManager(workspacePath);
     
@@ -68,24 +50,18 @@ export const createSpecTool: Tool = {
       message: `Created spec file: ${fileName}`
     };
   }
-};
+});
 
 /**
  * 读取 Spec 工具
  */
-export const readSpecTool: Tool = {
+export const readSpecTool: Tool = defineTool({
   name: 'read_spec',
   description: 'Read an existing specification file',
-  parameters: {
-    type: 'object',
-    properties: {
-      fileName: {
-        type: 'string',
-        description: 'Name of the spec file (e.g., "mymodule.spec.yaml")'
-      }
-    },
-    required: ['fileName']
-  },
+  readOnly: true,
+  schema: z.object({
+    fileName: z.string().min(1).describe('Name of the spec file (e.g., "mymodule.spec.yaml")'),
+  }),
   execute: async ({ fileName, workspacePath }) => {
     const specManager = new SpecManager(workspacePath);
     const spec = await specManager.readSpec(fileName);
@@ -96,18 +72,16 @@ export const readSpecTool: Tool = {
       message: `Read spec: ${fileName}`
     };
   }
-};
+});
 
 /**
  * 列出所有 Spec 工具
  */
-export const listSpecsTool: Tool = {
+export const listSpecsTool: Tool = defineTool({
   name: 'list_specs',
   description: 'List all specification files in the workspace',
-  parameters: {
-    type: 'object',
-    properties: {}
-  },
+  readOnly: true,
+  schema: z.object({}),
   execute: async ({ workspacePath }) => {
     const specManager = new SpecManager(workspacePath);
     const files = await specManager.listSpecs();
@@ -119,24 +93,18 @@ export const listSpecsTool: Tool = {
       message: `Found ${files.length} spec file(s)`
     };
   }
-};
+});
 
 /**
  * 验证 Spec 工具
  */
-export const validateSpecTool: Tool = {
+export const validateSpecTool: Tool = defineTool({
   name: 'validate_spec',
   description: 'Validate a specification file for errors and warnings',
-  parameters: {
-    type: 'object',
-    properties: {
-      fileName: {
-        type: 'string',
-        description: 'Name of the spec file to validate'
-      }
-    },
-    required: ['fileName']
-  },
+  readOnly: true,
+  schema: z.object({
+    fileName: z.string().min(1).describe('Name of the spec file to validate'),
+  }),
   execute: async ({ fileName, workspacePath }) => {
     const specManager = new SpecManager(workspacePath);
     const spec = await specManager.readSpec(fileName);
@@ -152,41 +120,21 @@ export const validateSpecTool: Tool = {
         : `Found ${validation.errors.length} error(s) and ${validation.warnings.length} warning(s)`
     };
   }
-};
+});
 
 /**
  * 从 Spec 生成代码工具
  */
-export const generateCodeFromSpecTool: Tool = {
+export const generateCodeFromSpecTool: Tool = defineTool({
   name: 'generate_code_from_spec',
   description: 'Generate code implementation from a specification file. This creates the actual code files based on the spec.',
-  parameters: {
-    type: 'object',
-    properties: {
-      specFileName: {
-        type: 'string',
-        description: 'Name of the spec file (e.g., "mymodule.spec.yaml")'
-      },
-      language: {
-        type: 'string',
-        enum: ['typescript', 'javascript', 'python'],
-        description: 'Programming language to generate'
-      },
-      outputPath: {
-        type: 'string',
-        description: 'Output file path (e.g., "src/mymodule.ts")'
-      },
-      includeTests: {
-        type: 'boolean',
-        description: 'Generate test files (default: true)'
-      },
-      includeDocumentation: {
-        type: 'boolean',
-        description: 'Generate documentation (default: false)'
-      }
-    },
-    required: ['specFileName', 'language', 'outputPath']
-  },
+  schema: z.object({
+    specFileName: z.string().min(1).describe('Name of the spec file (e.g., "mymodule.spec.yaml")'),
+    language: z.enum(['typescript', 'javascript', 'python']).describe('Programming language to generate'),
+    outputPath: z.string().min(1).describe('Output file path (e.g., "src/mymodule.ts")'),
+    includeTests: z.boolean().optional().describe('Generate test files (default: true)'),
+    includeDocumentation: z.boolean().optional().describe('Generate documentation (default: false)'),
+  }),
   execute: async ({ 
     specFileName, 
     language, 
@@ -212,7 +160,7 @@ export const generateCodeFromSpecTool: Tool = {
     const { code, tests, docs } = await codeGenerator.generateCode(spec, options);
     
     // 写入主代码文件
-    const fullOutputPath = path.join(workspacePath, outputPath);
+    const fullOutputPath = await resolveWorkspacePath(workspacePath, outputPath);
     await fs.mkdir(path.dirname(fullOutputPath), { recursive: true });
     await fs.writeFile(fullOutputPath, code, 'utf-8');
     
@@ -222,7 +170,7 @@ export const generateCodeFromSpecTool: Tool = {
     if (tests) {
       const testExt = language === 'python' ? '.py' : '.test.ts';
       const testPath = outputPath.replace(/\.(ts|js|py)$/, testExt);
-      const fullTestPath = path.join(workspacePath, testPath);
+      const fullTestPath = await resolveWorkspacePath(workspacePath, testPath);
       await fs.writeFile(fullTestPath, tests, 'utf-8');
       generatedFiles.push(testPath);
     }
@@ -230,7 +178,7 @@ export const generateCodeFromSpecTool: Tool = {
     // 写入文档
     if (docs) {
       const docsPath = outputPath.replace(/\.(ts|js|py)$/, '.md');
-      const fullDocsPath = path.join(workspacePath, docsPath);
+      const fullDocsPath = await resolveWorkspacePath(workspacePath, docsPath);
       await fs.writeFile(fullDocsPath, docs, 'utf-8');
       generatedFiles.push(docsPath);
     }
@@ -241,28 +189,18 @@ export const generateCodeFromSpecTool: Tool = {
       message: `Generated code from spec: ${specFileName}`
     };
   }
-};
+});
 
 /**
  * 从代码推断 Spec 工具
  */
-export const inferSpecFromCodeTool: Tool = {
+export const inferSpecFromCodeTool: Tool = defineTool({
   name: 'infer_spec_from_code',
   description: 'Analyze existing code and generate a specification file from it',
-  parameters: {
-    type: 'object',
-    properties: {
-      filePath: {
-        type: 'string',
-        description: 'Path to the code file to analyze'
-      },
-      outputSpecName: {
-        type: 'string',
-        description: 'Name for the generated spec file'
-      }
-    },
-    required: ['filePath']
-  },
+  schema: z.object({
+    filePath: z.string().min(1).describe('Path to the code file to analyze'),
+    outputSpecName: z.string().optional().describe('Name for the generated spec file'),
+  }),
   execute: async ({ filePath, outputSpecName, workspacePath }) => {
     const specManager = new SpecManager(workspacePath);
     
@@ -280,7 +218,7 @@ export const inferSpecFromCodeTool: Tool = {
       message: `Inferred spec from ${filePath} and saved as ${fileName}`
     };
   }
-};
+});
 
 // 导出所有 SDD 工具
 export const SDD_TOOLS = {
@@ -0,0 +1,62 @@
+/**
+ * 以有限的并发数依次处理 items，结果顺序与 items 一致
+ */
+export async function mapWithConcurrency<T, R>(
+  items: T[],
+  limit: number,
+  fn: (item: T, index: number) => Promise<R>
+): Promise<R[]> {
+  const results: R[] = new Array(items.length);
+  let next = 0;
+
+  const worker = async () => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await fn(items[index], index);
+    }
+  };
+
+  const workers = Math.max(1, Math.min(limit, items.length));
+  await Promise.all(Array.from({ length: workers }, worker));
+  return results;
+}
+
+/**
+ * 异步队列：生产者随时 push，消费者用 for await 依次取出，close 后结束迭代
+ * （用于把回调形式的输出转换为 async generator 的事件）
+ */
+export class AsyncQueue<T> {
+  private items: T[] = [];
+  private closed = false;
+  private notify: (() => void) | null = null;
+
+  push(item: T): void {
+    if (this.closed) return;
+    this.items.push(item);
+    this.wake();
+  }
+
+  close(): void {
+    this.closed = true;
+    this.wake();
+  }
+
+  async *drain(): AsyncGenerator<T> {
+    while (true) {
+      if (this.items.length > 0) {
+        yield this.items.shift()!;
+        continue;
+      }
+      if (this.closed) return;
+      await new Promise<void>(resolve => {
+        this.notify = resolve;
+      });
+    }
+  }
+
+  private wake() {
+    const notify = this.notify;
+    this.notify = null;
+    notify?.();
+  }
+}
@@ -0,0 +1,47 @@
+// glob 匹配工具函数（grep 的 include / exclude、代码搜索的文件过滤）
+
+/**
+ * 把 glob 转换为正则：支持 **、*、?、[...] 和 {a,b}。
+ * 不含 / 的 glob 匹配文件名（*.ts 匹配任意目录下的 ts 文件），否则匹配相对路径
+ */
+export function globToRegExp(glob: string): RegExp {
+  const matchBasename = !glob.includes('/');
+  let source = '';
+  let inBraces = false;
+
+  for (let i = 0; i < glob.length; i++) {
+    const char = glob[i];
+    if (char === '*') {
+      if (glob[i + 1] === '*') {
+        // **/ 匹配零个或多个目录
+        const slash = glob[i + 2] === '/';
+        source += slash ? '(?:.*/)?' : '.*';
+        i += slash ? 2 : 1;
+      } else {
+        source += '[^/]*';
+      }
+    } else if (char === '?') {
+      source += '[^/]';
+    } else if (char === '[') {
+      const end = glob.indexOf(']', i + 1);
+      if (end === -1) {
+        source += '\\[';
+      } else {
+        source += `[${glob.slice(i + 1, end).replace(/^!/, '^').replace(/\\/g, '\\\\')}]`;
+        i = end;
+      }
+    } else if (char === '{') {
+      inBraces = true;
+      source += '(?:';
+    } else if (char === '}' && inBraces) {
+      inBraces = false;
+      source += ')';
+    } else if (char === ',' && inBraces) {
+      source += '|';
+    } else {
+      source += char.replace(/[.+^$()|\\]/g, '\\$&');
+    }
+  }
+
+  return new RegExp(matchBasename ? `(?:^|/)${source}$` : `^${source}$`);
+}
@@ -0,0 +1,46 @@
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { gitCommit, gitDiff, gitInit, gitStatus } from './git';
+
+let workspace: string;
+const originalHome = process.env.HOME;
+
+beforeAll(async () => {
+  workspace = await fs.mkdtemp(path.join(os.tmpdir(), 'git-'));
+  // 空的 HOME：没有用户的 git 身份，提交时使用默认作者（-c user.name=... 参数）
+  process.env.HOME = await fs.mkdtemp(path.join(os.tmpdir(), 'git-home-'));
+  await fs.writeFile(path.join(workspace, 'a.ts'), 'export const a = 1;\n');
+  await gitInit(workspace);
+});
+
+afterAll(async () => {
+  await fs.rm(workspace, { recursive: true, force: true });
+  await fs.rm(process.env.HOME!, { recursive: true, force: true });
+  process.env.HOME = originalHome;
+});
+
+describe('git', () => {
+  it('commits changed files', async () => {
+    await fs.writeFile(path.join(workspace, 'a.ts'), 'export const a = 2;\n');
+    expect((await gitStatus(workspace)).files).toEqual([{ path: 'a.ts', index: ' ', workTree: 'M' }]);
+
+    const commit = await gitCommit(workspace, '修改 a.ts', ['a.ts']);
+    expect(commit?.subject).toBe('修改 a.ts');
+    expect(commit?.author).toBe('AI Agent');
+    expect((await gitStatus(workspace)).clean).toBe(true);
+  });
+
+  it('names the failing subcommand when author options are prepended', async () => {
+    await fs.writeFile(path.join(workspace, 'b.ts'), 'export {};\n');
+    // pre-commit 钩子被 --no-verify 跳过，用无效的 commit.gpgSign 程序让 commit 本身失败
+    await fs.appendFile(path.join(workspace, '.git/config'), '[commit]\n\tgpgSign = true\n[gpg]\n\tprogram = /nonexistent/gpg\n');
+
+    await expect(gitCommit(workspace, 'add b.ts', ['b.ts'])).rejects.toThrow(/^git commit 失败/);
+  });
+
+  it('rejects refs that look like options', async () => {
+    await expect(gitDiff(workspace, { ref: '--output=/tmp/x' })).rejects.toThrow('无效的 git 引用');
+  });
+});
@@ -0,0 +1,323 @@
+// Git 集成 - 在会话工作空间中执行本地 git 命令（init / status / diff / log / blame / commit），不访问远程仓库
+import fs from 'fs/promises';
+import path from 'path';
+import { execFile } from 'child_process';
+import { resolveWorkspacePath } from './paths';
+
+const GIT_TIMEOUT_MS = 30_000;
+const MAX_BUFFER_BYTES = 8 * 1024 * 1024;
+const MAX_DIFF_LENGTH = 64 * 1024; // 返回给 Agent 的 diff 上限
+export const DEFAULT_GIT_LOG_COUNT = 20;
+export const MAX_GIT_LOG_COUNT = 100;
+const MAX_BLAME_LINES = 500;
+
+// 工作空间没有配置提交者身份时使用
+const DEFAULT_AUTHOR_NAME = process.env.AGENT_GIT_AUTHOR_NAME || 'AI Agent';
+const DEFAULT_AUTHOR_EMAIL = process.env.AGENT_GIT_AUTHOR_EMAIL || 'agent@localhost';
+
+export interface GitFileStatus {
+  path: string;
+  from?: string; // 重命名前的路径
+  index: string; // 暂存区状态（porcelain 的 X 列）
+  workTree: string; // 工作区状态（porcelain 的 Y 列）
+}
+
+export interface GitStatus {
+  branch: string | null;
+  files: GitFileStatus[];
+  clean: boolean;
+}
+
+export interface GitCommitInfo {
+  sha: string;
+  shortSha: string;
+  author: string;
+  date: string; // ISO 8601
+  subject: string;
+}
+
+export interface GitBlameLine {
+  line: number;
+  sha: string;
+  author: string;
+  date: string;
+  summary: string;
+  content: string;
+}
+
+export interface GitDiffResult {
+  diff: string;
+  truncated: boolean;
+}
+
+interface GitOutput {
+  stdout: string;
+  exitCode: number;
+}
+
+// 只透传 PATH 和 HOME（读取用户的 git 配置），固定英文输出便于解析
+function gitEnv(workspacePath: string): NodeJS.ProcessEnv {
+  const env = {} as NodeJS.ProcessEnv;
+  for (const key of ['PATH', 'HOME', 'SystemRoot']) {
+    const value = process.env[key];
+    if (value !== undefined) {
+      env[key] = value;
+    }
+  }
+  env.LC_ALL = 'C';
+  env.GIT_CEILING_DIRECTORIES = path.dirname(path.resolve(workspacePath));
+  env.GIT_TERMINAL_PROMPT = '0';
+  return env;
+}
+
+// 参数中的子命令（跳过 -c key=value 这类全局选项），用于错误信息
+function subcommandOf(args: string[]): string {
+  for (let i = 0; i < args.length; i++) {
+    if (args[i] === '-c' || args[i] === '-C') {
+      i++;
+    } else if (!args[i].startsWith('-')) {
+      return args[i];
+    }
+  }
+  return args[0] || '';
+}
+
+/**
+ * 在工作空间中执行 git。GIT_CEILING_DIRECTORIES 阻止 git 向上找到包含工作空间的其他仓库（例如 IDE 自身）
+ */
+function runGit(workspacePath: string, args: string[], allowedExitCodes: number[] = [0]): Promise<GitOutput> {
+  return new Promise((resolve, reject) => {
+    execFile('git', ['-c', 'core.quotePath=false', ...args], {
+      cwd: workspacePath,
+      timeout: GIT_TIMEOUT_MS,
+      maxBuffer: MAX_BUFFER_BYTES,
+      env: gitEnv(workspacePath),
+    }, (error, stdout, stderr) => {
+      const exitCode = error ? (typeof (error as any).code === 'number' ? (error as any).code : -1) : 0;
+      if (allowedExitCodes.includes(exitCode)) {
+        resolve({ stdout, exitCode });
+      } else {
+        reject(new Error(`git ${subcommandOf(args)} 失败: ${(stderr || error?.message || '').trim()}`));
+      }
+    });
+  });
+}
+
+/**
+ * 工作空间根目录是否是 git 仓库
+ */
+export async function isGitRepository(workspacePath: string): Promise<boolean> {
+  try {
+    await fs.access(path.join(workspacePath, '.git'));
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+async function ensureRepository(workspacePath: string): Promise<void> {
+  if (!(await isGitRepository(workspacePath))) {
+    throw new Error('工作空间还不是 git 仓库，请先初始化（git_init）');
+  }
+}
+
+// 文件路径转换为相对工作空间的路径（同时检查越界）
+async function toRelativePath(workspacePath: string, filePath: string): Promise<string> {
+  const fullPath = await resolveWorkspacePath(workspacePath, filePath);
+  return path.relative(path.resolve(workspacePath), fullPath) || '.';
+}
+
+// 只允许分支名、SHA、HEAD~1 这类引用，避免被当作命令行选项
+function validateRef(ref: string): string {
+  if (!/^[A-Za-z0-9][\w./~^@{}-]*$/.test(ref) || ref.includes('..')) {
+    throw new Error(`无效的 git 引用: ${ref}`);
+  }
+  return ref;
+}
+
+async function hasCommits(workspacePath: string): Promise<boolean> {
+  const { exitCode } = await runGit(workspacePath, ['rev-parse', '--verify', '--quiet', 'HEAD'], [0, 1]);
+  return exitCode === 0;
+}
+
+async function authorArgs(workspacePath: string): Promise<string[]> {
+  const { stdout } = await runGit(workspacePath, ['config', 'user.email'], [0, 1]);
+  return stdout.trim()
+    ? []
+    : ['-c', `user.name=${DEFAULT_AUTHOR_NAME}`, '-c', `user.email=${DEFAULT_AUTHOR_EMAIL}`];
+}
+
+/**
+ * 初始化仓库，并把工作空间中已有的文件作为第一个提交
+ */
+export async function gitInit(workspacePath: string): Promise<{ created: boolean; commit: GitCommitInfo | null }> {
+  if (await isGitRepository(workspacePath)) {
+    return { created: false, commit: null };
+  }
+  await fs.mkdir(workspacePath, { recursive: true });
+  await runGit(workspacePath, ['init', '-q', '--initial-branch=main']);
+  const commit = await gitCommit(workspacePath, 'Initial commit');
+  return { created: true, commit };
+}
+
+/**
+ * 当前分支和改动的文件
+ */
+export async function gitStatus(workspacePath: string): Promise<GitStatus> {
+  await ensureRepository(workspacePath);
+  // -z：路径不加引号，重命名记录为「XY 新路径\0旧路径」
+  const { stdout } = await runGit(workspacePath, ['status', '--porcelain=v1', '--branch', '--untracked-files=all', '-z']);
+
+  let branch: string | null = null;
+  const files: GitFileStatus[] = [];
+  const entries = stdout.split('\0');
+  for (let i = 0; i < entries.length; i++) {
+    const entry = entries[i];
+    if (!entry) continue;
+    if (entry.startsWith('## ')) {
+      // ## main...origin/main [ahead 1] / ## No commits yet on main / ## HEAD (no branch)
+      const header = entry.slice(3);
+      const noCommits = header.match(/^No commits yet on (.+)$/);
+      branch = noCommits ? noCommits[1] : header.startsWith('HEAD (no branch)') ? null : header.split('...')[0].split(' ')[0];
+      continue;
+    }
+    const isRename = entry[0] === 'R' || entry[0] === 'C';
+    files.push({
+      path: entry.slice(3),
+      ...(isRename ? { from: entries[++i] } : {}),
+      index: entry[0],
+      workTree: entry[1],
+    });
+  }
+  return { branch, files, clean: files.length === 0 };
+}
+
+/**
+ * 工作区（或暂存区 / 与某个提交）的差异
+ */
+export async function gitDiff(
+  workspacePath: string,
+  options: { path?: string; staged?: boolean; ref?: string } = {}
+): Promise<GitDiffResult> {
+  await ensureRepository(workspacePath);
+  const args = ['diff', '--no-color', '--no-ext-diff'];
+  if (options.staged) args.push('--cached');
+  if (options.ref) args.push(validateRef(options.ref));
+  args.push('--');
+  if (options.path) args.push(await toRelativePath(workspacePath, options.path));
+
+  const { stdout } = await runGit(workspacePath, args);
+  return stdout.length > MAX_DIFF_LENGTH
+    ? { diff: `${stdout.slice(0, MAX_DIFF_LENGTH)}\n[diff 超过 ${MAX_DIFF_LENGTH / 1024}KB，后续内容已截断]`, truncated: true }
+    : { diff: stdout, truncated: false };
+}
+
+/**
+ * 提交历史（可按文件过滤），还没有提交时返回空列表
+ */
+export async function gitLog(
+  workspacePath: string,
+  options: { path?: string; maxCount?: number; ref?: string } = {}
+): Promise<GitCommitInfo[]> {
+  await ensureRepository(workspacePath);
+  if (!(await hasCommits(workspacePath))) return [];
+
+  const maxCount = Math.min(options.maxCount || DEFAULT_GIT_LOG_COUNT, MAX_GIT_LOG_COUNT);
+  const args = ['log', `--max-count=${maxCount}`, '--format=%H%x1f%h%x1f%an%x1f%aI%x1f%s%x1e'];
+  if (options.ref) args.push(validateRef(options.ref));
+  args.push('--');
+  if (options.path) args.push(await toRelativePath(workspacePath, options.path));
+
+  const { stdout } = await runGit(workspacePath, args);
+  return stdout
+    .split('\x1e')
+    .map(record => record.trim())
+    .filter(Boolean)
+    .map(record => {
+      const [sha, shortSha, author, date, subject] = record.split('\x1f');
+      return { sha, shortSha, author, date, subject };
+    });
+}
+
+/**
+ * 逐行显示最后修改该行的提交（可指定行范围，1-based）
+ */
+export async function gitBlame(
+  workspacePath: string,
+  filePath: string,
+  options: { startLine?: number; endLine?: number } = {}
+): Promise<GitBlameLine[]> {
+  await ensureRepository(workspacePath);
+  const args = ['blame', '--line-porcelain'];
+  if (options.startLine || options.endLine) {
+    const start = options.startLine || 1;
+    args.push('-L', `${start},${options.endLine || start + MAX_BLAME_LINES - 1}`);
+  }
+  args.push('--', await toRelativePath(workspacePath, filePath));
+
+  const { stdout } = await runGit(workspacePath, args);
+  const lines: GitBlameLine[] = [];
+  let current: Partial<GitBlameLine> = {};
+  for (const line of stdout.split('\n')) {
+    const header = line.match(/^([0-9a-f]{40}) \d+ (\d+)/);
+    if (header) {
+      current = { sha: header[1], line: Number(header[2]) };
+    } else if (line.startsWith('author ')) {
+      current.author = line.slice('author '.length);
+    } else if (line.startsWith('author-time ')) {
+      current.date = new Date(Number(line.slice('author-time '.length)) * 1000).toISOString();
+    } else if (line.startsWith('summary ')) {
+      current.summary = line.slice('summary '.length);
+    } else if (line.startsWith('\t')) {
+      lines.push({ ...current, content: line.slice(1) } as GitBlameLine);
+      if (lines.length >= MAX_BLAME_LINES) break;
+    }
+  }
+  return lines;
+}
+
+// 既不在磁盘上也没有被跟踪的路径（例如删除了从未提交的文件）会让 git add 报错，先过滤掉
+async function filterCommittablePaths(workspacePath: string, paths: string[]): Promise<string[]> {
+  const { stdout } = await runGit(workspacePath, ['ls-files', '-z', '--', ...paths]);
+  const tracked = new Set(stdout.split('\0').filter(Boolean));
+  const results = await Promise.all(paths.map(async filePath => {
+    if (tracked.has(filePath)) return filePath;
+    try {
+      await fs.access(path.join(workspacePath, filePath));
+      return filePath;
+    } catch {
+      return null;
+    }
+  }));
+  return results.filter((filePath): filePath is string => filePath !== null);
+}
+
+/**
+ * 暂存并提交改动（指定 paths 时只提交这些路径，包括删除和重命名），没有改动时返回 null
+ */
+export async function gitCommit(
+  workspacePath: string,
+  message: string,
+  paths?: string[]
+): Promise<GitCommitInfo | null> {
+  await ensureRepository(workspacePath);
+  let pathspec: string[] = [];
+  if (paths && paths.length > 0) {
+    pathspec = await filterCommittablePaths(
+      workspacePath,
+      await Promise.all(paths.map(filePath => toRelativePath(workspacePath, filePath)))
+    );
+    if (pathspec.length === 0) return null;
+  }
+
+  await runGit(workspacePath, ['add', '-A', '--', ...pathspec]);
+  const { exitCode } = await runGit(workspacePath, ['diff', '--cached', '--quiet', '--', ...pathspec], [0, 1]);
+  if (exitCode === 0) return null;
+
+  await runGit(workspacePath, [
+    ...(await authorArgs(workspacePath)),
+    'commit', '-q', '--no-verify', '-m', message, '--', ...pathspec,
+  ]);
+  const [commit] = await gitLog(workspacePath, { maxCount: 1 });
+  return commit;
+}
@@ -0,0 +1,117 @@
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { getWorkspacePath, getWorkspaceRoot, resolveWorkspacePath, WorkspacePathError } from './paths';
+
+let sandbox: string;
+let workspace: string;
+
+beforeAll(async () => {
+  // sandbox/workspace 是工作空间，sandbox/outside 在工作空间之外
+  sandbox = await fs.realpath(await fs.mkdtemp(path.join(os.tmpdir(), 'paths-')));
+  workspace = path.join(sandbox, 'workspace');
+  await fs.mkdir(path.join(workspace, 'src'), { recursive: true });
+  await fs.mkdir(path.join(sandbox, 'outside'));
+  await fs.writeFile(path.join(sandbox, 'outside/secret.txt'), 'secret');
+  await fs.writeFile(path.join(workspace, 'src/a.ts'), 'export {};');
+
+  await fs.symlink(path.join(sandbox, 'outside'), path.join(workspace, 'link-out'));
+  await fs.symlink(path.join(sandbox, 'outside/secret.txt'), path.join(workspace, 'secret-link.txt'));
+  await fs.symlink(path.join(workspace, 'src'), path.join(workspace, 'link-in'));
+  await fs.symlink(path.join(sandbox, 'missing'), path.join(workspace, 'dangling'));
+});
+
+afterAll(async () => {
+  await fs.rm(sandbox, { recursive: true, force: true });
+});
+
+// 断言被拒绝，且错误带 403 状态码
+async function expectDenied(relativePath: string) {
+  const error = await resolveWorkspacePath(workspace, relativePath).catch(e => e);
+  expect(error).toBeInstanceOf(WorkspacePathError);
+  expect(error.status).toBe(403);
+}
+
+describe('resolveWorkspacePath', () => {
+  it.each([
+    'src/a.ts',
+    './src/a.ts',
+    'src/../src/a.ts',
+    'src/new/file.ts',
+    'link-in/a.ts',
+    '..foo',
+    '',
+  ])('resolves %j inside the workspace', async relativePath => {
+    const resolved = await resolveWorkspacePath(workspace, relativePath);
+    expect(resolved).toBe(path.resolve(workspace, relativePath));
+  });
+
+  it.each([
+    '..',
+    '../',
+    '../outside/secret.txt',
+    'src/../../outside/secret.txt',
+    'src/../../../etc/passwd',
+    './../workspace-other/file',
+  ])('rejects .. traversal %j', expectDenied);
+
+  it.each([
+    '/etc/passwd',
+    '/tmp/outside/secret.txt',
+    'C:\\Windows\\system32',
+    'C:/Windows/system32',
+    '\\\\server\\share\\file',
+  ])('rejects absolute path %j', expectDenied);
+
+  it('rejects NUL bytes', () => expectDenied('src/a.ts\0.png'));
+
+  it('treats URL-encoded separators as literal file names', async () => {
+    for (const encoded of ['%2e%2e%2foutside%2fsecret.txt', '..%2foutside', '%2E%2E%5Coutside', '..%c0%afoutside']) {
+      const resolved = await resolveWorkspacePath(workspace, encoded);
+      expect(path.dirname(resolved)).toBe(workspace);
+    }
+  });
+
+  it.each([
+    'link-out',
+    'link-out/secret.txt',
+    'link-out/new-file.ts',
+    'secret-link.txt',
+  ])('rejects symlink %j pointing outside the workspace', expectDenied);
+
+  it.each(['dangling', 'dangling/file.ts'])('rejects dangling symlink %j', expectDenied);
+});
+
+describe('getWorkspacePath', () => {
+  it('joins a valid sessionId onto the workspace root', () => {
+    expect(getWorkspacePath('3f2b8c1e-1d2a-4c5b-9e8f-0a1b2c3d4e5f'))
+      .toBe(path.join(getWorkspaceRoot(), '3f2b8c1e-1d2a-4c5b-9e8f-0a1b2c3d4e5f'));
+  });
+
+  it.each([
+    '',
+    '.',
+    '..',
+    '../other',
+    'a/b',
+    'a\\b',
+    '/abs',
+    '-flag',
+    'a%2e%2e',
+    'a\0b',
+    'x'.repeat(129),
+    null,
+    undefined,
+    42,
+  ])('rejects sessionId %j', sessionId => {
+    let error: any;
+    try {
+      getWorkspacePath(sessionId);
+    } catch (e) {
+      error = e;
+    }
+    expect(error).toBeInstanceOf(WorkspacePathError);
+    expect(error.status).toBe(403);
+  });
+});
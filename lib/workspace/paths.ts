@@ -0,0 +1,96 @@
+// 工作空间路径解析 - 所有工具和 API 路由统一经过这里把会话 ID / 用户给出的相对路径解析为磁盘路径，
+// 拒绝 .. 越界、绝对路径和指向工作空间外的符号链接
+import fs from 'fs/promises';
+import path from 'path';
+
+// 会话 ID 只允许字母、数字、- 和 _（前端生成的是 UUID）
+const SESSION_ID_PATTERN = /^[A-Za-z0-9][A-Za-z0-9_-]{0,127}$/;
+
+/**
+ * 路径越界或会话 ID 非法；API 路由返回 403，工具调用返回错误信息
+ */
+export class WorkspacePathError extends Error {
+  readonly status = 403;
+
+  constructor(message: string) {
+    super(message);
+    this.name = 'WorkspacePathError';
+  }
+}
+
+/**
+ * 所有会话工作空间的根目录（WORKSPACE_PATH，默认 ./workspace）
+ */
+export function getWorkspaceRoot(): string {
+  return path.resolve(process.cwd(), process.env.WORKSPACE_PATH || 'workspace');
+}
+
+export function isValidSessionId(sessionId: unknown): sessionId is string {
+  return typeof sessionId === 'string' && SESSION_ID_PATTERN.test(sessionId);
+}
+
+/**
+ * 会话的工作空间目录（不会创建目录）
+ */
+export function getWorkspacePath(sessionId: unknown): string {
+  if (!isValidSessionId(sessionId)) {
+    throw new WorkspacePathError(`无效的 sessionId: ${String(sessionId).slice(0, 64)}`);
+  }
+  return path.join(getWorkspaceRoot(), sessionId);
+}
+
+function isInside(root: string, target: string): boolean {
+  const relative = path.relative(root, target);
+  return relative !== '..' && !relative.startsWith(`..${path.sep}`) && !path.isAbsolute(relative);
+}
+
+/**
+ * 解析真实路径：不存在的部分（新文件、新会话的工作空间）接在最近的已存在祖先的真实路径后面；
+ * 断开的符号链接无法判断指向，直接拒绝
+ */
+async function realpathAllowMissing(target: string, displayPath: string): Promise<string> {
+  const missing: string[] = [];
+  let current = target;
+  for (;;) {
+    try {
+      return path.join(await fs.realpath(current), ...missing);
+    } catch (error: any) {
+      if (error.code !== 'ENOENT') throw error;
+      const isDanglingLink = await fs.lstat(current).then(stat => stat.isSymbolicLink(), () => false);
+      if (isDanglingLink) {
+        throw new WorkspacePathError(`路径 ${displayPath} 包含无法解析的符号链接`);
+      }
+    }
+    const parent = path.dirname(current);
+    if (parent === current) return target;
+    missing.unshift(path.basename(current));
+    current = parent;
+  }
+}
+
+/**
+ * 把相对路径解析为 root（通常是会话工作空间）内的绝对路径。
+ * 拒绝绝对路径、.. 越界，以及经过符号链接后落在 root 外的路径
+ */
+export async function resolveWorkspacePath(root: string, relativePath: string): Promise<string> {
+  if (relativePath.includes('\0')) {
+    throw new WorkspacePathError(`非法路径: ${relativePath}`);
+  }
+  if (path.isAbsolute(relativePath) || path.win32.isAbsolute(relativePath)) {
+    throw new WorkspacePathError(`路径必须是相对工作空间的路径: ${relativePath}`);
+  }
+
+  const resolvedRoot = path.resolve(root);
+  const target = path.resolve(resolvedRoot, relativePath);
+  if (!isInside(resolvedRoot, target)) {
+    throw new WorkspacePathError(`路径 ${relativePath} 超出了工作空间`);
+  }
+
+  const realRoot = await realpathAllowMissing(resolvedRoot, root);
+  const realTarget = await realpathAllowMissing(target, relativePath);
+  if (!isInside(realRoot, realTarget)) {
+    throw new WorkspacePathError(`路径 ${relativePath} 通过符号链接指向工作空间之外`);
+  }
+
+  return target;
+}